@@ -0,0 +1,93 @@
+/**
+ * Script to link users, repair tickets and loans to Department records
+ *
+ * Run with: npx ts-node scripts/backfill-departments.ts
+ * (after `npx prisma db push` has added the departmentId columns)
+ *
+ * Rows created before departments were linked only have free-text department names
+ * (User.department, RepairTicket.reporterDepartment, Loan.borrowerDepartment). Each
+ * value is matched to a department by name (preferred) or code, ignoring case; values
+ * that match nothing get a new department with an AUTO- code so admins can find and
+ * rename them afterwards. Running it again is safe: linked rows are left alone.
+ */
+
+import { PrismaClient } from '@prisma/client';
+import crypto from 'crypto';
+
+const prisma = new PrismaClient();
+
+const key = (value: string) => value.trim().toLowerCase();
+
+async function main() {
+  console.log('🔍 Collecting free-text department names...\n');
+
+  const [users, tickets, loans] = await Promise.all([
+    prisma.user.groupBy({ by: ['department'], where: { departmentId: null, department: { not: null } } }),
+    prisma.repairTicket.groupBy({
+      by: ['reporterDepartment'],
+      where: { departmentId: null, reporterDepartment: { not: null } },
+    }),
+    prisma.loan.groupBy({
+      by: ['borrowerDepartment'],
+      where: { departmentId: null, borrowerDepartment: { not: null } },
+    }),
+  ]);
+  const values = {
+    users: users.map((u) => u.department!).filter((v) => v.trim()),
+    tickets: tickets.map((t) => t.reporterDepartment!).filter((v) => v.trim()),
+    loans: loans.map((l) => l.borrowerDepartment!).filter((v) => v.trim()),
+  };
+
+  // Name matches win over code matches, then the oldest department
+  const departments = await prisma.department.findMany({ orderBy: { id: 'asc' } });
+  const byKey = new Map<string, number>();
+  for (const d of departments) if (!byKey.has(key(d.code))) byKey.set(key(d.code), d.id);
+  for (const d of [...departments].reverse()) byKey.set(key(d.name), d.id);
+
+  let createdCount = 0;
+  for (const value of [...values.users, ...values.tickets, ...values.loans]) {
+    if (byKey.has(key(value))) continue;
+
+    const name = value.trim();
+    const code = `AUTO-${crypto.createHash('md5').update(key(value)).digest('hex').slice(0, 8).toUpperCase()}`;
+    const department = await prisma.department.upsert({
+      where: { code },
+      create: { name, code },
+      update: {},
+    });
+    byKey.set(key(value), department.id);
+    console.log(`   ➕ ${code}: ${name}`);
+    createdCount++;
+  }
+
+  let linkedCount = 0;
+  for (const value of values.users) {
+    const { count } = await prisma.user.updateMany({
+      where: { departmentId: null, department: value },
+      data: { departmentId: byKey.get(key(value)) },
+    });
+    linkedCount += count;
+  }
+  for (const value of values.tickets) {
+    const { count } = await prisma.repairTicket.updateMany({
+      where: { departmentId: null, reporterDepartment: value },
+      data: { departmentId: byKey.get(key(value)) },
+    });
+    linkedCount += count;
+  }
+  for (const value of values.loans) {
+    const { count } = await prisma.loan.updateMany({
+      where: { departmentId: null, borrowerDepartment: value },
+      data: { departmentId: byKey.get(key(value)) },
+    });
+    linkedCount += count;
+  }
+
+  console.log(`\n📊 Summary:`);
+  console.log(`   Departments created: ${createdCount}`);
+  console.log(`   Rows linked: ${linkedCount}`);
+}
+
+main()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
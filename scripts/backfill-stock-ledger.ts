@@ -0,0 +1,51 @@
+/**
+ * Script to give existing stock items an opening balance in the stock movement ledger
+ *
+ * Run with: npx ts-node scripts/backfill-stock-ledger.ts
+ *
+ * Items created before the ledger existed have a quantity but no movements. For every
+ * item whose quantity differs from the sum of its movements, an ADJUST entry is written
+ * for the difference. Running it again is safe: consistent items are left alone.
+ */
+
+import { PrismaClient, StockMovementType } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+async function main() {
+  console.log('🔍 Comparing stock quantities with the movement ledger...\n');
+
+  const [items, sums] = await Promise.all([
+    prisma.stockItem.findMany({ select: { id: true, code: true, quantity: true } }),
+    prisma.stockMovement.groupBy({ by: ['stockItemId'], _sum: { quantity: true } }),
+  ]);
+  const ledger = new Map(sums.map((s) => [s.stockItemId, s._sum.quantity ?? 0]));
+
+  let adjustedCount = 0;
+
+  for (const item of items) {
+    const difference = item.quantity - (ledger.get(item.id) ?? 0);
+    if (difference === 0) continue;
+
+    await prisma.stockMovement.create({
+      data: {
+        stockItemId: item.id,
+        type: StockMovementType.ADJUST,
+        quantity: difference,
+        balanceAfter: item.quantity,
+        reason: 'Opening balance',
+      },
+    });
+
+    console.log(`   ✅ ${item.code}: ${difference > 0 ? '+' : ''}${difference}`);
+    adjustedCount++;
+  }
+
+  console.log(`\n📊 Summary:`);
+  console.log(`   Total items scanned: ${items.length}`);
+  console.log(`   Opening balances written: ${adjustedCount}`);
+}
+
+main()
+  .catch(console.error)
+  .finally(() => prisma.$disconnect());
@@ -10,7 +10,14 @@ import { LineOAModule } from './line-oa/line-oa.module';
 import { RepairsModule } from './repairs/repairs.module';
 import { StockModule } from './stock/stock.module';
 import { CloudinaryModule } from './cloudinary/cloudinary.module';
+import { MailModule } from './mail/mail.module';
 import { DataManagementModule } from './data-management/data-management.module';
+import { SlaModule } from './sla/sla.module';
+import { SchedulerModule } from './scheduler/scheduler.module';
+import { DigestModule } from './digest/digest.module';
+import { DepartmentsModule } from './departments/departments.module';
+import { AssetsModule } from './assets/assets.module';
+import { MaintenanceModule } from './maintenance/maintenance.module';
 import { JwtAuthGuard } from './auth/jwt.guard';
 
 @Module({
@@ -29,7 +36,14 @@ import { JwtAuthGuard } from './auth/jwt.guard';
     RepairsModule,
     StockModule,
     CloudinaryModule,
+    MailModule,
     DataManagementModule,
+    SlaModule,
+    SchedulerModule,
+    DigestModule,
+    DepartmentsModule,
+    AssetsModule,
+    MaintenanceModule,
   ],
   providers: [
     {
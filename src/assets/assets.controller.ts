@@ -0,0 +1,87 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Res,
+  ParseIntPipe,
+  UseGuards,
+  HttpStatus,
+  BadRequestException,
+} from '@nestjs/common';
+import type { Response } from 'express';
+import { AssetStatus } from '@prisma/client';
+import { AssetsService } from './assets.service';
+import { CreateAssetDto } from './dto/create-asset.dto';
+import { UpdateAssetDto } from './dto/update-asset.dto';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('api/assets')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class AssetsController {
+  constructor(private readonly assetsService: AssetsService) {}
+
+  @Get()
+  async findAll(
+    @Query('status') status?: AssetStatus,
+    @Query('departmentId') departmentId?: string,
+    @Query('custodianId') custodianId?: string,
+    @Query('search') search?: string,
+  ) {
+    if (status && !Object.values(AssetStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+    return this.assetsService.findAll({
+      status,
+      departmentId: parseInt(departmentId ?? '', 10) || undefined,
+      custodianId: parseInt(custodianId ?? '', 10) || undefined,
+      search,
+    });
+  }
+
+  @Get(':id')
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.assetsService.findOne(id);
+  }
+
+  /**
+   * QR label for printing, ?format=png (default) or svg
+   */
+  @Get(':id/qr')
+  async getQrCode(@Param('id', ParseIntPipe) id: number, @Query('format') format = 'png', @Res() res: Response) {
+    if (format !== 'png' && format !== 'svg') {
+      throw new BadRequestException('format must be png or svg');
+    }
+    const result = await this.assetsService.renderQrCode(id, format);
+
+    res.setHeader('Content-Type', result.mimeType);
+    res.setHeader('Content-Disposition', `inline; filename="${result.fileName}"`);
+    res.setHeader('Content-Length', result.buffer.length);
+
+    return res.status(HttpStatus.OK).send(result.buffer);
+  }
+
+  @Post()
+  @Roles('ADMIN', 'IT')
+  async create(@Body() dto: CreateAssetDto) {
+    return this.assetsService.create(dto);
+  }
+
+  @Put(':id')
+  @Roles('ADMIN', 'IT')
+  async update(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateAssetDto) {
+    return this.assetsService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Roles('ADMIN')
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    return this.assetsService.remove(id);
+  }
+}
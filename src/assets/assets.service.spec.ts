@@ -0,0 +1,132 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { AssetsService } from './assets.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('AssetsService', () => {
+  let service: AssetsService;
+  let prisma: any;
+
+  beforeEach(async () => {
+    prisma = {
+      asset: {
+        findUnique: jest.fn().mockResolvedValue({ id: 1, assetCode: 'PC-0042' }),
+        create: jest.fn(async ({ data }: any) => ({ id: 1, ...data })),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+      repairTicket: {
+        findMany: jest.fn().mockResolvedValue([]),
+      },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [AssetsService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get(AssetsService);
+  });
+
+  it('should normalize the code, serial and dates on create', async () => {
+    await service.create({
+      assetCode: 'pc-0042',
+      name: 'Dell OptiPlex 7090',
+      serialNumber: '  ',
+      purchaseDate: '2024-03-01',
+    });
+
+    expect(prisma.asset.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: {
+          assetCode: 'PC-0042',
+          name: 'Dell OptiPlex 7090',
+          serialNumber: null,
+          purchaseDate: new Date('2024-03-01'),
+        },
+      }),
+    );
+  });
+
+  it('should report which unique field is taken', async () => {
+    prisma.asset.create.mockRejectedValue({ code: 'P2002', meta: { target: ['serialNumber'] } });
+
+    await expect(
+      service.create({ assetCode: 'PC-0043', name: 'Printer', serialNumber: 'SN-1' }),
+    ).rejects.toThrow(new ConflictException('Serial number is already in use'));
+  });
+
+  describe('scan-to-report', () => {
+    const asset = {
+      id: 1,
+      assetCode: 'PC-0042',
+      name: 'Dell OptiPlex 7090',
+      category: 'HARDWARE',
+      model: '7090',
+      status: 'IN_USE',
+      location: 'ชั้น 2 ห้องบัญชี',
+      department: { id: 3, name: 'บัญชี' },
+      custodianId: 8,
+      notes: 'Spare RAM in drawer',
+    };
+
+    it('should match a hand-typed code case-insensitively', async () => {
+      prisma.asset.findUnique.mockResolvedValue(asset);
+
+      await service.findByCode(' pc-0042 ');
+
+      expect(prisma.asset.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { assetCode: 'PC-0042' } }),
+      );
+    });
+
+    it('should return the open tickets without private fields', async () => {
+      prisma.asset.findUnique.mockResolvedValue(asset);
+      prisma.repairTicket.findMany.mockResolvedValue([{ id: 5, ticketCode: 'REP-1', status: 'PENDING' }]);
+
+      const info = await service.getReportInfo('PC-0042');
+
+      expect(prisma.repairTicket.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { assetId: 1, status: { in: ['PENDING', 'IN_PROGRESS', 'WAITING_PARTS'] } },
+        }),
+      );
+      expect(info.openTickets).toHaveLength(1);
+      expect(info.location).toBe('ชั้น 2 ห้องบัญชี');
+      expect(info).not.toHaveProperty('custodianId');
+      expect(info).not.toHaveProperty('notes');
+    });
+
+    it('should 404 for an unknown code', async () => {
+      prisma.asset.findUnique.mockResolvedValue(null);
+
+      await expect(service.getReportInfo('NOPE')).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('QR labels', () => {
+    it('should point the label at the repair form for the asset', () => {
+      expect(service.labelUrl('PC 01')).toBe('http://localhost:3000/repairs/liff?asset=PC%2001');
+    });
+
+    it('should render a PNG', async () => {
+      const result = await service.renderQrCode(1, 'png');
+
+      expect(result.mimeType).toBe('image/png');
+      expect(result.fileName).toBe('PC-0042.png');
+      expect(result.buffer.subarray(1, 4).toString()).toBe('PNG');
+    });
+
+    it('should render an SVG', async () => {
+      const result = await service.renderQrCode(1, 'svg');
+
+      expect(result.mimeType).toBe('image/svg+xml');
+      expect(result.buffer.toString()).toContain('<svg');
+    });
+
+    it('should 404 for an unknown asset', async () => {
+      prisma.asset.findUnique.mockResolvedValue(null);
+
+      await expect(service.renderQrCode(99, 'png')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { AssetStatus, Prisma, RepairTicketStatus } from '@prisma/client';
+import * as QRCode from 'qrcode';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateAssetDto } from './dto/create-asset.dto';
+import { UpdateAssetDto } from './dto/update-asset.dto';
+
+export type AssetQrFormat = 'png' | 'svg';
+
+const OPEN_STATUSES: RepairTicketStatus[] = [
+  RepairTicketStatus.PENDING,
+  RepairTicketStatus.IN_PROGRESS,
+  RepairTicketStatus.WAITING_PARTS,
+];
+
+const assetInclude = {
+  department: { select: { id: true, name: true, code: true } },
+  custodian: { select: { id: true, name: true, email: true } },
+} as const;
+
+@Injectable()
+export class AssetsService {
+  // Scanning a label opens the LIFF repair form with the asset pre-selected
+  private readonly qrBaseUrl =
+    process.env.ASSET_QR_BASE_URL || `${process.env.FRONTEND_URL || 'http://localhost:3000'}/repairs/liff`;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(
+    params: { status?: AssetStatus; departmentId?: number; custodianId?: number; search?: string } = {},
+  ) {
+    const search = params.search?.trim();
+    return this.prisma.asset.findMany({
+      where: {
+        ...(params.status && { status: params.status }),
+        ...(params.departmentId && { departmentId: params.departmentId }),
+        ...(params.custodianId && { custodianId: params.custodianId }),
+        ...(search && {
+          OR: [
+            { assetCode: { contains: search, mode: Prisma.QueryMode.insensitive } },
+            { name: { contains: search, mode: Prisma.QueryMode.insensitive } },
+            { serialNumber: { contains: search, mode: Prisma.QueryMode.insensitive } },
+            { model: { contains: search, mode: Prisma.QueryMode.insensitive } },
+          ],
+        }),
+      },
+      include: assetInclude,
+      orderBy: { assetCode: 'asc' },
+    });
+  }
+
+  /**
+   * The asset with its repair and loan history, newest first
+   */
+  async findOne(id: number) {
+    const asset = await this.prisma.asset.findUnique({
+      where: { id },
+      include: {
+        ...assetInclude,
+        repairTickets: {
+          select: {
+            id: true,
+            ticketCode: true,
+            problemTitle: true,
+            status: true,
+            urgency: true,
+            createdAt: true,
+            completedAt: true,
+          },
+          orderBy: { createdAt: 'desc' },
+        },
+        loans: {
+          select: { id: true, borrowerName: true, status: true, borrowDate: true, returnDate: true },
+          orderBy: { borrowDate: 'desc' },
+        },
+      },
+    });
+    if (!asset) throw new NotFoundException(`Asset #${id} not found`);
+    return asset;
+  }
+
+  /**
+   * Codes are stored upper-case, so a hand-typed code still matches
+   */
+  async findByCode(assetCode: string) {
+    const asset = await this.prisma.asset.findUnique({
+      where: { assetCode: assetCode.trim().toUpperCase() },
+      include: { department: { select: { id: true, name: true } } },
+    });
+    if (!asset) throw new NotFoundException(`Asset ${assetCode} not found`);
+    return asset;
+  }
+
+  async findOpenRepairTickets(assetId: number) {
+    return this.prisma.repairTicket.findMany({
+      where: { assetId, status: { in: OPEN_STATUSES } },
+      select: { id: true, ticketCode: true, problemTitle: true, status: true, urgency: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * What the public scan-to-report page shows: enough to recognise the machine and
+   * spot an existing report, without the custodian, purchase details or notes
+   */
+  async getReportInfo(assetCode: string) {
+    const asset = await this.findByCode(assetCode);
+    const openTickets = await this.findOpenRepairTickets(asset.id);
+
+    return {
+      id: asset.id,
+      assetCode: asset.assetCode,
+      name: asset.name,
+      category: asset.category,
+      model: asset.model,
+      status: asset.status,
+      location: asset.location,
+      department: asset.department,
+      openTickets,
+    };
+  }
+
+  async create(dto: CreateAssetDto) {
+    try {
+      return await this.prisma.asset.create({
+        data: this.toData(dto) as Prisma.AssetUncheckedCreateInput,
+        include: assetInclude,
+      });
+    } catch (error: any) {
+      throw this.mapWriteError(error);
+    }
+  }
+
+  async update(id: number, dto: UpdateAssetDto) {
+    await this.findOne(id);
+
+    try {
+      return await this.prisma.asset.update({
+        where: { id },
+        data: this.toData(dto),
+        include: assetInclude,
+      });
+    } catch (error: any) {
+      throw this.mapWriteError(error);
+    }
+  }
+
+  /**
+   * Linked repair tickets and loans keep their history and lose the link
+   */
+  async remove(id: number) {
+    await this.findOne(id);
+    return this.prisma.asset.delete({ where: { id } });
+  }
+
+  /* =======================
+     QR LABELS
+  ======================= */
+
+  labelUrl(assetCode: string) {
+    return `${this.qrBaseUrl}?asset=${encodeURIComponent(assetCode)}`;
+  }
+
+  async renderQrCode(id: number, format: AssetQrFormat) {
+    const asset = await this.prisma.asset.findUnique({ where: { id }, select: { assetCode: true } });
+    if (!asset) throw new NotFoundException(`Asset #${id} not found`);
+
+    const url = this.labelUrl(asset.assetCode);
+    const fileName = `${asset.assetCode}.${format}`;
+
+    if (format === 'svg') {
+      const svg = await QRCode.toString(url, { type: 'svg', errorCorrectionLevel: 'M', margin: 2 });
+      return { buffer: Buffer.from(svg), mimeType: 'image/svg+xml', fileName };
+    }
+
+    const buffer = await QRCode.toBuffer(url, { type: 'png', errorCorrectionLevel: 'M', margin: 2, width: 512 });
+    return { buffer, mimeType: 'image/png', fileName };
+  }
+
+  private toData(dto: UpdateAssetDto): Prisma.AssetUncheckedUpdateInput {
+    const { purchaseDate, warrantyEndsAt, assetCode, serialNumber, ...rest } = dto;
+    return {
+      ...rest,
+      ...(assetCode !== undefined && { assetCode: assetCode.toUpperCase() }),
+      // Blank serials are stored as null so they do not collide on the unique index
+      ...(serialNumber !== undefined && { serialNumber: serialNumber?.trim() || null }),
+      ...(purchaseDate !== undefined && { purchaseDate: purchaseDate ? new Date(purchaseDate) : null }),
+      ...(warrantyEndsAt !== undefined && { warrantyEndsAt: warrantyEndsAt ? new Date(warrantyEndsAt) : null }),
+    };
+  }
+
+  private mapWriteError(error: any) {
+    if (error.code === 'P2002') {
+      const target = String(error.meta?.target ?? '');
+      return new ConflictException(`${target.includes('serialNumber') ? 'Serial number' : 'Asset code'} is already in use`);
+    }
+    if (error.code === 'P2003') {
+      return new BadRequestException('Department or custodian not found');
+    }
+    return error;
+  }
+}
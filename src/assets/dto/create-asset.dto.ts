@@ -0,0 +1,57 @@
+import { Type } from 'class-transformer';
+import { IsDateString, IsEnum, IsInt, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+import { AssetStatus, ProblemCategory } from '@prisma/client';
+
+export class CreateAssetDto {
+  // Printed on the QR label, e.g. "PC-0042"
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{1,30}$/, { message: 'assetCode must be 1-30 letters, digits, "-" or "_"' })
+  assetCode: string;
+
+  @IsString()
+  @MaxLength(200)
+  name: string;
+
+  // Pre-selected when a repair is reported against the asset
+  @IsOptional()
+  @IsEnum(ProblemCategory)
+  category?: ProblemCategory;
+
+  @IsOptional()
+  @IsString()
+  serialNumber?: string | null;
+
+  @IsOptional()
+  @IsString()
+  model?: string | null;
+
+  @IsOptional()
+  @IsEnum(AssetStatus)
+  status?: AssetStatus;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  departmentId?: number | null;
+
+  @IsOptional()
+  @IsString()
+  location?: string | null;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  custodianId?: number | null;
+
+  @IsOptional()
+  @IsDateString()
+  purchaseDate?: string | null;
+
+  @IsOptional()
+  @IsDateString()
+  warrantyEndsAt?: string | null;
+
+  @IsOptional()
+  @IsString()
+  notes?: string | null;
+}
@@ -0,0 +1,40 @@
+import { TechnicianCandidate } from './assignment-strategy.interface';
+import { RoundRobinStrategy } from './strategies/round-robin.strategy';
+import { LeastWorkloadStrategy } from './strategies/least-workload.strategy';
+import { SkillMatchStrategy } from './strategies/skill-match.strategy';
+
+describe('Assignment strategies', () => {
+  const ticket = { id: 1, problemCategory: 'NETWORK' as const, urgency: 'NORMAL' as const };
+
+  const candidate = (overrides: Partial<TechnicianCandidate>): TechnicianCandidate => ({
+    id: 1,
+    name: 'Tech',
+    openJobs: 0,
+    lastAssignedAt: null,
+    skillScore: 0,
+    ...overrides,
+  });
+
+  const alice = candidate({ id: 1, name: 'Alice', openJobs: 3, lastAssignedAt: new Date('2026-01-03') });
+  const bob = candidate({ id: 2, name: 'Bob', openJobs: 1, lastAssignedAt: new Date('2026-01-02'), skillScore: 4 });
+  const carol = candidate({ id: 3, name: 'Carol', openJobs: 1, lastAssignedAt: new Date('2026-01-01') });
+
+  it('round-robin should pick whoever waited longest', () => {
+    expect(new RoundRobinStrategy().pick(ticket, [alice, bob, carol])?.name).toBe('Carol');
+    expect(new RoundRobinStrategy().pick(ticket, [alice, candidate({ id: 9, name: 'New' })])?.name).toBe('New');
+  });
+
+  it('least-workload should pick the fewest open jobs, ties by rotation', () => {
+    expect(new LeastWorkloadStrategy().pick(ticket, [alice, bob, carol])?.name).toBe('Carol');
+  });
+
+  it('skill-match should prefer the best category fit', () => {
+    const strategy = new SkillMatchStrategy(new LeastWorkloadStrategy());
+    expect(strategy.pick(ticket, [alice, bob, carol])?.name).toBe('Bob');
+    expect(strategy.pick(ticket, [alice, carol])?.name).toBe('Carol');
+  });
+
+  it('should return null when nobody is available', () => {
+    expect(new LeastWorkloadStrategy().pick(ticket, [])).toBeNull();
+  });
+});
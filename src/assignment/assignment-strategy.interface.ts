@@ -0,0 +1,26 @@
+import { ProblemCategory, UrgencyLevel } from '@prisma/client';
+
+export const ASSIGNMENT_STRATEGIES = 'ASSIGNMENT_STRATEGIES';
+
+export interface AssignableTicket {
+  id: number;
+  problemCategory: ProblemCategory;
+  urgency: UrgencyLevel;
+}
+
+/**
+ * A technician who passed the availability filter, with the numbers strategies rank on
+ */
+export interface TechnicianCandidate {
+  id: number;
+  name: string;
+  openJobs: number;
+  lastAssignedAt: Date | null;
+  // Higher = better fit for the ticket's ProblemCategory
+  skillScore: number;
+}
+
+export interface AssignmentStrategy {
+  readonly name: string;
+  pick(ticket: AssignableTicket, candidates: TechnicianCandidate[]): TechnicianCandidate | null;
+}
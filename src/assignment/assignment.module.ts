@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { AssignmentService } from './assignment.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ASSIGNMENT_STRATEGIES } from './assignment-strategy.interface';
+import { RoundRobinStrategy } from './strategies/round-robin.strategy';
+import { LeastWorkloadStrategy } from './strategies/least-workload.strategy';
+import { SkillMatchStrategy } from './strategies/skill-match.strategy';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [
+    AssignmentService,
+    RoundRobinStrategy,
+    LeastWorkloadStrategy,
+    SkillMatchStrategy,
+    {
+      // Add new strategies here; AssignmentService looks them up by name
+      provide: ASSIGNMENT_STRATEGIES,
+      useFactory: (...strategies) => strategies,
+      inject: [RoundRobinStrategy, LeastWorkloadStrategy, SkillMatchStrategy],
+    },
+  ],
+  exports: [AssignmentService],
+})
+export class AssignmentModule {}
@@ -0,0 +1,138 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { RepairLogAction, RepairTicketStatus, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { isAvailableNow } from '../users/technician-availability';
+import {
+  ASSIGNMENT_STRATEGIES,
+  AssignableTicket,
+  AssignmentStrategy,
+  TechnicianCandidate,
+} from './assignment-strategy.interface';
+
+const OPEN_STATUSES: RepairTicketStatus[] = [
+  RepairTicketStatus.PENDING,
+  RepairTicketStatus.IN_PROGRESS,
+  RepairTicketStatus.WAITING_PARTS,
+];
+
+@Injectable()
+export class AssignmentService {
+  private readonly logger = new Logger(AssignmentService.name);
+  private readonly defaultStrategy = process.env.AUTO_ASSIGN_STRATEGY || 'least-workload';
+  private readonly maxOpenJobs = parseInt(process.env.AUTO_ASSIGN_MAX_OPEN_JOBS || '10', 10);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(ASSIGNMENT_STRATEGIES)
+    private readonly strategies: AssignmentStrategy[],
+  ) {}
+
+  getStrategy(name: string = this.defaultStrategy) {
+    return this.strategies.find((s) => s.name === name);
+  }
+
+  /**
+   * Pick a technician for a new ticket and record the assignment.
+   * Returns null when auto-assignment is off or nobody is available.
+   */
+  async autoAssign(ticket: AssignableTicket & { status: RepairTicketStatus }, strategyName?: string) {
+    const strategy = this.getStrategy(strategyName);
+    if (!strategy) {
+      this.logger.debug(`Auto-assignment skipped (strategy: ${strategyName ?? this.defaultStrategy})`);
+      return null;
+    }
+
+    const candidates = await this.findAvailableCandidates(ticket);
+    const technician = strategy.pick(ticket, candidates);
+    if (!technician) {
+      this.logger.warn(`No available technician for repair ticket #${ticket.id}`);
+      return null;
+    }
+
+    await this.prisma.$transaction([
+      this.prisma.repairTicketAssignee.create({
+        data: { repairTicketId: ticket.id, userId: technician.id },
+      }),
+      this.prisma.repairTicketLog.create({
+        data: {
+          repairTicketId: ticket.id,
+          action: RepairLogAction.ASSIGNEE_CHANGED,
+          status: ticket.status,
+          oldValue: null,
+          newValue: technician.name,
+          comment: `Auto-assigned (${strategy.name})`,
+          updatedBy: null,
+        },
+      }),
+    ]);
+
+    this.logger.log(`Repair ticket #${ticket.id} auto-assigned to ${technician.name} (${strategy.name})`);
+    return { technician, strategy: strategy.name };
+  }
+
+  /**
+   * IT staff who are on shift, not on leave and under their job cap,
+   * with workload, rotation and skill data attached
+   */
+  async findAvailableCandidates(ticket: AssignableTicket): Promise<TechnicianCandidate[]> {
+    const now = new Date();
+    const technicians = await this.prisma.user.findMany({
+      where: { role: Role.IT },
+      select: {
+        id: true,
+        name: true,
+        technicianProfile: {
+          include: { outOfOffice: { where: { endAt: { gt: now } } } },
+        },
+      },
+    });
+    if (technicians.length === 0) return [];
+
+    const userIds = technicians.map((t) => t.id);
+
+    const [openJobs, lastAssigned, experience] = await Promise.all([
+      this.prisma.repairTicketAssignee.groupBy({
+        by: ['userId'],
+        where: { userId: { in: userIds }, repairTicket: { status: { in: OPEN_STATUSES } } },
+        _count: { _all: true },
+      }),
+      this.prisma.repairTicketAssignee.groupBy({
+        by: ['userId'],
+        where: { userId: { in: userIds } },
+        _max: { assignedAt: true },
+      }),
+      this.prisma.repairTicketAssignee.groupBy({
+        by: ['userId'],
+        where: {
+          userId: { in: userIds },
+          repairTicket: {
+            status: RepairTicketStatus.COMPLETED,
+            problemCategory: ticket.problemCategory,
+          },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    return technicians
+      .map((t) => {
+        const jobs = openJobs.find((r) => r.userId === t.id)?._count._all ?? 0;
+        const declared = t.technicianProfile?.skills.includes(ticket.problemCategory) ?? false;
+        const completed = experience.find((r) => r.userId === t.id)?._count._all ?? 0;
+
+        return {
+          candidate: {
+            id: t.id,
+            name: t.name,
+            openJobs: jobs,
+            lastAssignedAt: lastAssigned.find((r) => r.userId === t.id)?._max.assignedAt ?? null,
+            // Declared skill beats past experience, which beats nothing
+            skillScore: declared ? 2 : completed > 0 ? 1 : 0,
+          },
+          available: isAvailableNow(t.technicianProfile, jobs, now, this.maxOpenJobs),
+        };
+      })
+      .filter((t) => t.available)
+      .map((t) => t.candidate);
+  }
+}
@@ -0,0 +1,19 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AssignableTicket,
+  AssignmentStrategy,
+  TechnicianCandidate,
+} from '../assignment-strategy.interface';
+import { byLastAssigned } from './round-robin.strategy';
+
+/**
+ * Fewest open tickets wins; ties go round-robin
+ */
+@Injectable()
+export class LeastWorkloadStrategy implements AssignmentStrategy {
+  readonly name = 'least-workload';
+
+  pick(_ticket: AssignableTicket, candidates: TechnicianCandidate[]) {
+    return [...candidates].sort((a, b) => a.openJobs - b.openJobs || byLastAssigned(a, b))[0] ?? null;
+  }
+}
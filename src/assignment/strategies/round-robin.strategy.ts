@@ -0,0 +1,25 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AssignableTicket,
+  AssignmentStrategy,
+  TechnicianCandidate,
+} from '../assignment-strategy.interface';
+
+/**
+ * Whoever has waited longest since their last assignment goes next.
+ * Derived from RepairTicketAssignee.assignedAt, so no rotation pointer needs storing.
+ */
+@Injectable()
+export class RoundRobinStrategy implements AssignmentStrategy {
+  readonly name = 'round-robin';
+
+  pick(_ticket: AssignableTicket, candidates: TechnicianCandidate[]) {
+    return [...candidates].sort(byLastAssigned)[0] ?? null;
+  }
+}
+
+export function byLastAssigned(a: TechnicianCandidate, b: TechnicianCandidate) {
+  const aTime = a.lastAssignedAt?.getTime() ?? 0;
+  const bTime = b.lastAssignedAt?.getTime() ?? 0;
+  return aTime - bTime || a.id - b.id;
+}
@@ -0,0 +1,24 @@
+import { Injectable } from '@nestjs/common';
+import {
+  AssignableTicket,
+  AssignmentStrategy,
+  TechnicianCandidate,
+} from '../assignment-strategy.interface';
+import { LeastWorkloadStrategy } from './least-workload.strategy';
+
+/**
+ * Best skill score for the ticket's category; among equals, least workload.
+ * Falls back to least workload when nobody matches the category.
+ */
+@Injectable()
+export class SkillMatchStrategy implements AssignmentStrategy {
+  readonly name = 'skill-match';
+
+  constructor(private readonly leastWorkload: LeastWorkloadStrategy) {}
+
+  pick(ticket: AssignableTicket, candidates: TechnicianCandidate[]) {
+    const bestScore = Math.max(0, ...candidates.map((c) => c.skillScore));
+    const matched = bestScore > 0 ? candidates.filter((c) => c.skillScore === bestScore) : candidates;
+    return this.leastWorkload.pick(ticket, matched);
+  }
+}
@@ -5,6 +5,7 @@ import { AuthService } from './auth.service';
 import { LineOAuthService } from './line-oauth.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { JwtService } from '@nestjs/jwt';
+import { DepartmentsService } from '../departments/departments.service';
 
 describe('LINE OAuth Integration - Redirect URI Verification', () => {
   let app: INestApplication;
@@ -38,6 +39,10 @@ describe('LINE OAuth Integration - Redirect URI Verification', () => {
           provide: JwtService,
           useValue: mockJwtService,
         },
+        {
+          provide: DepartmentsService,
+          useValue: { resolve: jest.fn() },
+        },
       ],
     }).compile();
 
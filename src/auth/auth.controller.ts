@@ -56,7 +56,7 @@ export class AuthController {
   @Patch('profile')
   updateProfile(
     @Request() req,
-    @Body() data: { name?: string; department?: string; phoneNumber?: string; lineId?: string },
+    @Body() data: { name?: string; department?: string; departmentId?: number; phoneNumber?: string; lineId?: string },
   ) {
     return this.authService.updateProfile(req.user.id, data);
   }
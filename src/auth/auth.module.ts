@@ -6,10 +6,12 @@ import { JwtModule } from '@nestjs/jwt';
 import { JwtStrategy } from './jwt.strategy';
 import { JwtAuthGuard } from './jwt.guard';
 import { PrismaModule } from '../prisma/prisma.module';
+import { DepartmentsModule } from '../departments/departments.module';
 
 @Module({
   imports: [
     PrismaModule,
+    DepartmentsModule,
     JwtModule.register({
       secret: process.env.JWT_SECRET,
       signOptions: { expiresIn: '1d' },
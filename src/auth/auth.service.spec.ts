@@ -4,6 +4,7 @@ import { AuthService } from './auth.service';
 import { LineOAuthService } from './line-oauth.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { JwtService } from '@nestjs/jwt';
+import { DepartmentsService } from '../departments/departments.service';
 
 describe('AuthService - LINE OAuth Integration', () => {
   let service: AuthService;
@@ -37,6 +38,10 @@ describe('AuthService - LINE OAuth Integration', () => {
           provide: JwtService,
           useValue: mockJwtService,
         },
+        {
+          provide: DepartmentsService,
+          useValue: { resolve: jest.fn() },
+        },
       ],
     }).compile();
 
@@ -5,6 +5,7 @@ import * as bcrypt from 'bcrypt';
 import { RegisterDto } from './dto/register.dto';
 import { LoginDto } from './dto/login.dto';
 import { LineOAuthService } from './line-oauth.service';
+import { DepartmentsService } from '../departments/departments.service';
 
 @Injectable()
 export class AuthService {
@@ -12,10 +13,15 @@ export class AuthService {
     private prisma: PrismaService,
     private jwtService: JwtService,
     private lineOAuth: LineOAuthService,
+    private departmentsService: DepartmentsService,
   ) {}
 
   async register(dto: RegisterDto) {
     const hash = await bcrypt.hash(dto.password, 10);
+    const department = await this.departmentsService.resolve({
+      departmentId: dto.departmentId,
+      name: dto.department,
+    });
 
     try {
       const user = await this.prisma.user.create({
@@ -24,7 +30,8 @@ export class AuthService {
           email: dto.email,
           password: hash,
           role: 'USER', // Always set to USER - admins manage roles
-          department: dto.department,
+          department: department.name,
+          departmentId: department.departmentId,
           phoneNumber: dto.phoneNumber,
           lineId: dto.lineId,
         },
@@ -183,6 +190,7 @@ export class AuthService {
           email: true,
           role: true,
           department: true,
+          departmentId: true,
           phoneNumber: true,
           lineId: true,
           createdAt: true,
@@ -201,12 +209,20 @@ export class AuthService {
     }
   }
 
-  async updateProfile(userId: number, data: { name?: string; department?: string; phoneNumber?: string; lineId?: string }) {
+  async updateProfile(
+    userId: number,
+    data: { name?: string; department?: string; departmentId?: number; phoneNumber?: string; lineId?: string },
+  ) {
+    const department =
+      data.department || data.departmentId
+        ? await this.departmentsService.resolve({ departmentId: data.departmentId, name: data.department })
+        : null;
+
     const user = await this.prisma.user.update({
       where: { id: userId },
       data: {
         ...(data.name && { name: data.name }),
-        ...(data.department && { department: data.department }),
+        ...(department && { department: department.name, departmentId: department.departmentId }),
         ...(data.phoneNumber && { phoneNumber: data.phoneNumber }),
         ...(data.lineId && { lineId: data.lineId }),
       },
@@ -216,6 +232,7 @@ export class AuthService {
         email: true,
         role: true,
         department: true,
+        departmentId: true,
         phoneNumber: true,
         lineId: true,
         createdAt: true,
@@ -1,4 +1,4 @@
-import { IsEmail, IsNotEmpty, MinLength } from 'class-validator';
+import { IsEmail, IsInt, IsNotEmpty, IsOptional, MinLength, ValidateIf } from 'class-validator';
 
 export class RegisterDto {
   @IsNotEmpty()
@@ -11,9 +11,15 @@ export class RegisterDto {
   @MinLength(6)
   password: string;
 
+  // Free text is only required when no department record is picked
+  @ValidateIf((o) => !o.departmentId)
   @IsNotEmpty()
   department: string;
 
+  @IsOptional()
+  @IsInt()
+  departmentId?: number;
+
   @IsNotEmpty()
   phoneNumber: string;
 
@@ -1,6 +1,14 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
+import { Request } from 'express';
+
+// EventSource cannot set an Authorization header, so the notification stream
+// (and only it) also accepts the token as ?access_token=
+const fromStreamQuery = (req: Request) =>
+  req.path?.endsWith('/notifications/stream')
+    ? ExtractJwt.fromUrlQueryParameter('access_token')(req)
+    : null;
 
 @Injectable()
 export class JwtStrategy extends PassportStrategy(Strategy) {
@@ -14,7 +22,10 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
     }
 
     super({
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      jwtFromRequest: ExtractJwt.fromExtractors([
+        ExtractJwt.fromAuthHeaderAsBearerToken(),
+        fromStreamQuery,
+      ]),
       secretOrKey: secret,
     });
     
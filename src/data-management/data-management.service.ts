@@ -1,6 +1,7 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { DataTypeInfo } from './dto/clear-data.dto';
+import { summarizeWorkSessions } from '../repairs/repair-work-sessions.service';
 import * as ExcelJS from 'exceljs';
 import AdmZip = require('adm-zip');
 
@@ -155,6 +156,7 @@ export class DataManagementService {
       include: {
         user: { select: { name: true, email: true } },
         assignees: { include: { user: { select: { name: true } } } },
+        workSessions: { include: { user: { select: { name: true } } } },
       },
     });
 
@@ -168,12 +170,15 @@ export class DataManagementService {
       { header: 'สถานะ', key: 'status', width: 15 },
       { header: 'ความเร่งด่วน', key: 'urgency', width: 12 },
       { header: 'ผู้รับผิดชอบ', key: 'assignees', width: 30 },
+      { header: 'เวลาทำงาน (นาที)', key: 'workMinutes', width: 16 },
+      { header: 'เวลาทำงานรายช่าง', key: 'workByTechnician', width: 30 },
       { header: 'วันที่สร้าง', key: 'createdAt', width: 20 },
     ];
 
     this.styleHeaderRow(sheet);
 
     repairs.forEach(repair => {
+      const workTime = summarizeWorkSessions(repair.workSessions);
       sheet.addRow({
         ticketCode: repair.ticketCode,
         problemTitle: repair.problemTitle,
@@ -184,6 +189,8 @@ export class DataManagementService {
         status: repair.status,
         urgency: repair.urgency,
         assignees: repair.assignees.map(a => a.user.name).join(', ') || '-',
+        workMinutes: workTime.totalMinutes,
+        workByTechnician: workTime.byTechnician.map(t => `${t.name}: ${t.minutes}`).join(', ') || '-',
         createdAt: repair.createdAt.toISOString(),
       });
     });
@@ -405,6 +412,8 @@ export class DataManagementService {
             break;
 
           case 'stock':
+            // Part records would otherwise block deleting the items they reference
+            await tx.repairTicketPart.deleteMany();
             const stock = await tx.stockItem.deleteMany();
             deleted['stock'] = stock.count;
             break;
@@ -0,0 +1,88 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { LoanStatus, RepairTicketStatus } from '@prisma/client';
+import { DepartmentsService } from './departments.service';
+import { CreateDepartmentDto } from './dto/create-department.dto';
+import { UpdateDepartmentDto } from './dto/update-department.dto';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('api/departments')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class DepartmentsController {
+  constructor(private readonly departmentsService: DepartmentsService) {}
+
+  // Every signed-in user needs the list for the department pickers
+  @Get()
+  async findAll() {
+    return this.departmentsService.findAll();
+  }
+
+  @Get(':id')
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.departmentsService.findOne(id);
+  }
+
+  @Post()
+  @Roles('ADMIN')
+  async create(@Body() dto: CreateDepartmentDto) {
+    return this.departmentsService.create(dto);
+  }
+
+  @Put(':id')
+  @Roles('ADMIN')
+  async update(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateDepartmentDto) {
+    return this.departmentsService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Roles('ADMIN')
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    return this.departmentsService.remove(id);
+  }
+
+  @Get(':id/repairs')
+  @Roles('ADMIN', 'IT')
+  async findRepairTickets(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('status') status?: RepairTicketStatus,
+    @Query('limit') limit?: string,
+  ) {
+    if (status && !Object.values(RepairTicketStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+    return this.departmentsService.findRepairTickets(id, { status, limit: this.parseLimit(limit) });
+  }
+
+  @Get(':id/loans')
+  @Roles('ADMIN', 'IT')
+  async findLoans(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('status') status?: LoanStatus,
+    @Query('limit') limit?: string,
+  ) {
+    if (status && !Object.values(LoanStatus).includes(status)) {
+      throw new BadRequestException(`Invalid status: ${status}`);
+    }
+    return this.departmentsService.findLoans(id, { status, limit: this.parseLimit(limit) });
+  }
+
+  private parseLimit(limit?: string) {
+    if (limit === undefined) return undefined;
+    const value = parseInt(limit, 10);
+    if (isNaN(value) || value < 1) throw new BadRequestException('limit must be a positive number');
+    return value;
+  }
+}
@@ -0,0 +1,100 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, NotFoundException } from '@nestjs/common';
+import { DepartmentsService } from './departments.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('DepartmentsService', () => {
+  let service: DepartmentsService;
+  let prisma: any;
+
+  const finance = { id: 2, name: 'Finance', code: 'FIN' };
+
+  beforeEach(async () => {
+    prisma = {
+      department: {
+        findUnique: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(),
+        update: jest.fn(),
+        delete: jest.fn(),
+      },
+      user: { updateMany: jest.fn() },
+      repairTicket: { updateMany: jest.fn(), findMany: jest.fn().mockResolvedValue([]) },
+      loan: { updateMany: jest.fn() },
+    };
+    prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [DepartmentsService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get(DepartmentsService);
+  });
+
+  describe('resolve', () => {
+    it('should fill the display name from a department id', async () => {
+      prisma.department.findUnique.mockResolvedValue(finance);
+
+      await expect(service.resolve({ departmentId: 2, name: 'whatever' })).resolves.toEqual({
+        departmentId: 2,
+        name: 'Finance',
+      });
+    });
+
+    it('should reject an unknown department id', async () => {
+      prisma.department.findUnique.mockResolvedValue(null);
+
+      await expect(service.resolve({ departmentId: 99 })).rejects.toThrow(BadRequestException);
+    });
+
+    it('should prefer a name match over a code match', async () => {
+      prisma.department.findMany.mockResolvedValue([
+        { id: 1, name: 'Accounting', code: 'FINANCE' },
+        { id: 2, name: 'Finance', code: 'FIN' },
+      ]);
+
+      await expect(service.resolve({ name: ' finance ' })).resolves.toEqual({ departmentId: 2, name: 'finance' });
+    });
+
+    it('should keep unmatched text without a link', async () => {
+      await expect(service.resolve({ name: 'Warehouse' })).resolves.toEqual({
+        departmentId: null,
+        name: 'Warehouse',
+      });
+    });
+  });
+
+  it('should report a duplicate code as a conflict', async () => {
+    prisma.department.create.mockRejectedValue({ code: 'P2002' });
+
+    await expect(service.create({ name: 'Finance', code: 'fin' })).rejects.toThrow(ConflictException);
+    expect(prisma.department.create).toHaveBeenCalledWith({ data: { name: 'Finance', code: 'FIN' } });
+  });
+
+  it('should carry a rename over to the free text of linked rows', async () => {
+    prisma.department.findUnique.mockResolvedValue(finance);
+    prisma.department.update.mockResolvedValue({ ...finance, name: 'Finance & Accounting' });
+
+    await service.update(2, { name: 'Finance & Accounting' });
+
+    expect(prisma.user.updateMany).toHaveBeenCalledWith({
+      where: { departmentId: 2 },
+      data: { department: 'Finance & Accounting' },
+    });
+    expect(prisma.repairTicket.updateMany).toHaveBeenCalledWith({
+      where: { departmentId: 2 },
+      data: { reporterDepartment: 'Finance & Accounting' },
+    });
+    expect(prisma.loan.updateMany).toHaveBeenCalledWith({
+      where: { departmentId: 2 },
+      data: { borrowerDepartment: 'Finance & Accounting' },
+    });
+  });
+
+  it('should not list tickets for a missing department', async () => {
+    prisma.department.findUnique.mockResolvedValue(null);
+
+    await expect(service.findRepairTickets(5)).rejects.toThrow(NotFoundException);
+    expect(prisma.repairTicket.findMany).not.toHaveBeenCalled();
+  });
+});
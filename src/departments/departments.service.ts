@@ -0,0 +1,141 @@
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { LoanStatus, Prisma, RepairTicketStatus } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CreateDepartmentDto } from './dto/create-department.dto';
+import { UpdateDepartmentDto } from './dto/update-department.dto';
+
+export interface DepartmentRef {
+  departmentId: number | null;
+  name: string | null;
+}
+
+@Injectable()
+export class DepartmentsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll() {
+    return this.prisma.department.findMany({
+      include: { _count: { select: { users: true, repairTickets: true, loans: true } } },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  async findOne(id: number) {
+    const department = await this.prisma.department.findUnique({
+      where: { id },
+      include: { _count: { select: { users: true, repairTickets: true, loans: true } } },
+    });
+    if (!department) throw new NotFoundException(`Department #${id} not found`);
+    return department;
+  }
+
+  async create(dto: CreateDepartmentDto) {
+    try {
+      return await this.prisma.department.create({
+        data: { ...dto, code: dto.code.toUpperCase() },
+      });
+    } catch (error: any) {
+      throw this.mapUniqueError(error, dto.code);
+    }
+  }
+
+  async update(id: number, dto: UpdateDepartmentDto) {
+    const existing = await this.findOne(id);
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const department = await tx.department.update({
+          where: { id },
+          data: { ...dto, ...(dto.code && { code: dto.code.toUpperCase() }) },
+        });
+
+        // Keep the display text of linked rows in step with a renamed department
+        if (dto.name !== undefined && dto.name !== existing.name) {
+          await tx.user.updateMany({ where: { departmentId: id }, data: { department: department.name } });
+          await tx.repairTicket.updateMany({
+            where: { departmentId: id },
+            data: { reporterDepartment: department.name },
+          });
+          await tx.loan.updateMany({ where: { departmentId: id }, data: { borrowerDepartment: department.name } });
+        }
+        return department;
+      });
+    } catch (error: any) {
+      throw this.mapUniqueError(error, dto.code);
+    }
+  }
+
+  /**
+   * Linked users, tickets and loans keep their free-text department and lose the link
+   */
+  async remove(id: number) {
+    await this.findOne(id);
+    return this.prisma.department.delete({ where: { id } });
+  }
+
+  /* =======================
+     LINKING
+  ======================= */
+
+  /**
+   * Normalizes a department reference. An id wins and supplies the display name;
+   * otherwise free text is matched against department names, then codes, ignoring case.
+   * Unmatched text is kept as-is with no link.
+   */
+  async resolve(ref: { departmentId?: number | null; name?: string | null }): Promise<DepartmentRef> {
+    if (ref.departmentId) {
+      const department = await this.prisma.department.findUnique({ where: { id: ref.departmentId } });
+      if (!department) throw new BadRequestException(`Department #${ref.departmentId} not found`);
+      return { departmentId: department.id, name: department.name };
+    }
+
+    const name = ref.name?.trim();
+    if (!name) return { departmentId: null, name: ref.name ?? null };
+
+    const matches = await this.prisma.department.findMany({
+      where: {
+        OR: [
+          { name: { equals: name, mode: Prisma.QueryMode.insensitive } },
+          { code: { equals: name, mode: Prisma.QueryMode.insensitive } },
+        ],
+      },
+      orderBy: { id: 'asc' },
+    });
+    const match = matches.find((d) => d.name.toLowerCase() === name.toLowerCase()) ?? matches[0];
+    return { departmentId: match?.id ?? null, name };
+  }
+
+  /* =======================
+     LISTINGS
+  ======================= */
+
+  async findRepairTickets(id: number, params: { status?: RepairTicketStatus; limit?: number } = {}) {
+    await this.findOne(id);
+    return this.prisma.repairTicket.findMany({
+      where: { departmentId: id, ...(params.status && { status: params.status }) },
+      take: params.limit,
+      include: {
+        user: { select: { id: true, name: true, email: true } },
+        assignees: { include: { user: { select: { id: true, name: true } } } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findLoans(id: number, params: { status?: LoanStatus; limit?: number } = {}) {
+    await this.findOne(id);
+    return this.prisma.loan.findMany({
+      where: { departmentId: id, ...(params.status && { status: params.status }) },
+      take: params.limit,
+      include: { borrowedBy: { select: { id: true, name: true, email: true } } },
+      orderBy: { borrowDate: 'desc' },
+    });
+  }
+
+  private mapUniqueError(error: any, code?: string) {
+    if (error.code === 'P2002') {
+      return new ConflictException(`Department code "${code?.toUpperCase()}" is already in use`);
+    }
+    return error;
+  }
+}
@@ -0,0 +1,32 @@
+import { IsEmail, IsOptional, IsString, Matches, MaxLength } from 'class-validator';
+
+export class CreateDepartmentDto {
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  // Short unique code, e.g. "IT" or "FIN"
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{1,20}$/, { message: 'code must be 1-20 letters, digits, "-" or "_"' })
+  code: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  @IsOptional()
+  @IsEmail()
+  contactEmail?: string;
+
+  @IsOptional()
+  @IsString()
+  contactPhone?: string;
+
+  @IsOptional()
+  @IsString()
+  headName?: string;
+}
@@ -0,0 +1,287 @@
+import { UrgencyLevel } from '@prisma/client';
+import { escapeHtml, renderEmailLayout } from '../mail/email-template';
+
+export type DigestPeriod = 'DAILY' | 'WEEKLY';
+
+export interface DigestTicket {
+  ticketCode: string;
+  problemTitle: string;
+  urgency: UrgencyLevel;
+}
+
+export interface DigestSummary {
+  period: DigestPeriod;
+  from: Date;
+  to: Date;
+  // Department name, or null for the whole organization
+  scope: string | null;
+  newTickets: DigestTicket[];
+  completedTickets: (DigestTicket & { late: boolean })[];
+  slaBreaches: (DigestTicket & { targets: string[] })[];
+  overdueLoans: { itemName: string; quantity: number; borrowerName: string; expectedReturnDate: Date }[];
+  workload: { name: string; open: number; completed: number }[];
+  // The recipient's own notifications for the period (personal digests only)
+  notifications: { title: string; message: string; createdAt: Date }[];
+}
+
+// Longer lists are cut to keep the LINE payload and the email readable
+const MAX_ITEMS = 5;
+
+const COLORS = {
+  HEADER: '#34495E',
+  DANGER: '#D32F2F',
+  SUCCESS: '#2E7D32',
+  WARNING: '#F57C00',
+  MUTED: '#64748B',
+};
+
+const URGENCY_TEXT: Record<UrgencyLevel, string> = {
+  CRITICAL: 'ด่วนที่สุด',
+  URGENT: 'ด่วน',
+  NORMAL: 'ปกติ',
+};
+
+const formatDate = (date: Date) =>
+  date.toLocaleDateString('th-TH', { timeZone: 'Asia/Bangkok', day: 'numeric', month: 'short', year: 'numeric' });
+
+export function digestTitle(summary: DigestSummary) {
+  const kind = summary.period === 'DAILY' ? 'สรุปงานประจำวัน' : 'สรุปงานประจำสัปดาห์';
+  return summary.scope ? `${kind} - ${summary.scope}` : kind;
+}
+
+export function digestRange(summary: DigestSummary) {
+  return `${formatDate(summary.from)} - ${formatDate(summary.to)}`;
+}
+
+export function isDigestEmpty(summary: DigestSummary) {
+  return (
+    summary.newTickets.length +
+      summary.completedTickets.length +
+      summary.slaBreaches.length +
+      summary.overdueLoans.length +
+      summary.notifications.length ===
+    0
+  );
+}
+
+/* =======================
+   LINE FLEX CAROUSEL
+======================= */
+
+const text = (value: string, extra: Record<string, unknown> = {}) => ({
+  type: 'text',
+  text: value,
+  size: 'xs',
+  color: '#334155',
+  wrap: true,
+  ...extra,
+});
+
+const statRow = (label: string, value: number, color: string) => ({
+  type: 'box',
+  layout: 'horizontal',
+  contents: [
+    text(label, { flex: 4, color: COLORS.MUTED }),
+    text(String(value), { flex: 1, align: 'end', weight: 'bold', color, size: 'sm' }),
+  ],
+});
+
+const listBubble = (title: string, color: string, lines: string[], total: number) => ({
+  type: 'bubble',
+  size: 'kilo',
+  header: {
+    type: 'box',
+    layout: 'vertical',
+    backgroundColor: color,
+    paddingAll: '12px',
+    contents: [text(`${title} (${total})`, { color: '#FFFFFF', weight: 'bold', size: 'sm' })],
+  },
+  body: {
+    type: 'box',
+    layout: 'vertical',
+    spacing: 'sm',
+    paddingAll: '12px',
+    contents: [
+      ...lines.slice(0, MAX_ITEMS).map((line) => text(line)),
+      ...(total > MAX_ITEMS ? [text(`และอีก ${total - MAX_ITEMS} รายการ`, { color: COLORS.MUTED })] : []),
+    ],
+  },
+});
+
+export function buildDigestCarousel(summary: DigestSummary, dashboardUrl: string) {
+  const title = digestTitle(summary);
+
+  const overview = {
+    type: 'bubble',
+    size: 'kilo',
+    header: {
+      type: 'box',
+      layout: 'vertical',
+      backgroundColor: COLORS.HEADER,
+      paddingAll: '12px',
+      contents: [
+        text(title, { color: '#FFFFFF', weight: 'bold', size: 'sm' }),
+        text(digestRange(summary), { color: '#FFFFFFB3', size: 'xxs' }),
+      ],
+    },
+    body: {
+      type: 'box',
+      layout: 'vertical',
+      spacing: 'sm',
+      paddingAll: '12px',
+      contents: [
+        statRow('งานแจ้งซ่อมใหม่', summary.newTickets.length, COLORS.HEADER),
+        statRow('ปิดงานแล้ว', summary.completedTickets.length, COLORS.SUCCESS),
+        statRow('เกิน SLA', summary.slaBreaches.length, COLORS.DANGER),
+        statRow('ค้างคืนอุปกรณ์', summary.overdueLoans.length, COLORS.WARNING),
+        ...(summary.notifications.length > 0
+          ? [statRow('การแจ้งเตือนของคุณ', summary.notifications.length, COLORS.HEADER)]
+          : []),
+      ],
+    },
+    footer: {
+      type: 'box',
+      layout: 'vertical',
+      contents: [
+        {
+          type: 'button',
+          style: 'primary',
+          height: 'sm',
+          color: COLORS.HEADER,
+          action: { type: 'uri', label: 'เปิดระบบ', uri: dashboardUrl },
+        },
+      ],
+    },
+  };
+
+  const bubbles: object[] = [overview];
+  if (summary.newTickets.length > 0) {
+    bubbles.push(
+      listBubble(
+        'งานใหม่',
+        COLORS.HEADER,
+        summary.newTickets.map((t) => `${t.ticketCode} [${URGENCY_TEXT[t.urgency]}] ${t.problemTitle}`),
+        summary.newTickets.length,
+      ),
+    );
+  }
+  if (summary.slaBreaches.length > 0) {
+    bubbles.push(
+      listBubble(
+        'เกิน SLA',
+        COLORS.DANGER,
+        summary.slaBreaches.map((t) => `${t.ticketCode} ${t.problemTitle}`),
+        summary.slaBreaches.length,
+      ),
+    );
+  }
+  if (summary.overdueLoans.length > 0) {
+    bubbles.push(
+      listBubble(
+        'ค้างคืนอุปกรณ์',
+        COLORS.WARNING,
+        summary.overdueLoans.map(
+          (l) => `${l.itemName} x${l.quantity} - ${l.borrowerName} (กำหนด ${formatDate(l.expectedReturnDate)})`,
+        ),
+        summary.overdueLoans.length,
+      ),
+    );
+  }
+  if (summary.workload.length > 0) {
+    bubbles.push(
+      listBubble(
+        'ภาระงานช่าง',
+        COLORS.SUCCESS,
+        summary.workload.map((w) => `${w.name}: ค้าง ${w.open} / ปิด ${w.completed}`),
+        summary.workload.length,
+      ),
+    );
+  }
+  if (summary.notifications.length > 0) {
+    bubbles.push(
+      listBubble(
+        'การแจ้งเตือนของคุณ',
+        COLORS.HEADER,
+        summary.notifications.map((n) => `${n.title}: ${n.message}`),
+        summary.notifications.length,
+      ),
+    );
+  }
+
+  return {
+    type: 'flex' as const,
+    altText: `${title} (${digestRange(summary)})`,
+    contents: { type: 'carousel', contents: bubbles } as any,
+  };
+}
+
+/* =======================
+   HTML EMAIL
+======================= */
+
+const section = (title: string, rows: string[][], headers: string[]) => {
+  if (rows.length === 0) return '';
+  const th = headers
+    .map((h) => `<th style="text-align:left;padding:6px;border-bottom:1px solid #E2E8F0">${escapeHtml(h)}</th>`)
+    .join('');
+  const tr = rows
+    .map(
+      (cells) =>
+        `<tr>${cells.map((c) => `<td style="padding:6px;border-bottom:1px solid #F1F5F9">${escapeHtml(c)}</td>`).join('')}</tr>`,
+    )
+    .join('');
+  return `<h3 style="margin:24px 0 8px">${escapeHtml(title)} (${rows.length})</h3>
+<table style="width:100%;border-collapse:collapse;font-size:14px"><thead><tr>${th}</tr></thead><tbody>${tr}</tbody></table>`;
+};
+
+export function renderDigestEmail(summary: DigestSummary, dashboardUrl: string, greeting?: string) {
+  const stats = [
+    ['งานแจ้งซ่อมใหม่', summary.newTickets.length],
+    ['ปิดงานแล้ว', summary.completedTickets.length],
+    ['เกิน SLA', summary.slaBreaches.length],
+    ['ค้างคืนอุปกรณ์', summary.overdueLoans.length],
+  ]
+    .map(
+      ([label, value]) =>
+        `<td style="padding:8px;text-align:center"><div style="font-size:22px;font-weight:bold">${value}</div><div style="font-size:12px;color:${COLORS.MUTED}">${label}</div></td>`,
+    )
+    .join('');
+
+  const body = [
+    greeting ? `<p>${escapeHtml(greeting)}</p>` : '',
+    `<p style="color:${COLORS.MUTED}">${escapeHtml(digestRange(summary))}</p>`,
+    `<table style="width:100%;background:#F8FAFC;border-radius:6px"><tr>${stats}</tr></table>`,
+    section(
+      'งานแจ้งซ่อมใหม่',
+      summary.newTickets.map((t) => [t.ticketCode, t.problemTitle, URGENCY_TEXT[t.urgency]]),
+      ['เลขที่', 'ปัญหา', 'ความเร่งด่วน'],
+    ),
+    section(
+      'ปิดงานแล้ว',
+      summary.completedTickets.map((t) => [t.ticketCode, t.problemTitle, t.late ? 'เกินกำหนด' : 'ตามกำหนด']),
+      ['เลขที่', 'ปัญหา', 'SLA'],
+    ),
+    section(
+      'เกิน SLA',
+      summary.slaBreaches.map((t) => [t.ticketCode, t.problemTitle, t.targets.join(', ')]),
+      ['เลขที่', 'ปัญหา', 'เป้าหมายที่พลาด'],
+    ),
+    section(
+      'ค้างคืนอุปกรณ์',
+      summary.overdueLoans.map((l) => [l.itemName, String(l.quantity), l.borrowerName, formatDate(l.expectedReturnDate)]),
+      ['อุปกรณ์', 'จำนวน', 'ผู้ยืม', 'กำหนดคืน'],
+    ),
+    section(
+      'ภาระงานช่าง',
+      summary.workload.map((w) => [w.name, String(w.open), String(w.completed)]),
+      ['ช่าง', 'งานค้าง', 'ปิดในช่วงนี้'],
+    ),
+    section(
+      'การแจ้งเตือนของคุณ',
+      summary.notifications.map((n) => [formatDate(n.createdAt), n.title, n.message]),
+      ['วันที่', 'หัวข้อ', 'รายละเอียด'],
+    ),
+  ].join('\n');
+
+  return renderEmailLayout(digestTitle(summary), body, dashboardUrl);
+}
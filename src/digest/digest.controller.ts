@@ -0,0 +1,46 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { DigestService } from './digest.service';
+import { DigestPeriod } from './digest-templates';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+const PERIODS: DigestPeriod[] = ['DAILY', 'WEEKLY'];
+
+@Controller('api/digest')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN')
+export class DigestController {
+  constructor(private readonly digestService: DigestService) {}
+
+  @Get('preview')
+  async preview(
+    @Query('period') period: string = 'DAILY',
+    @Query('departmentId') departmentId?: string,
+  ) {
+    return this.digestService.preview(
+      this.parsePeriod(period),
+      departmentId ? parseInt(departmentId) : undefined,
+    );
+  }
+
+  @Post('send')
+  async send(@Query('period') period: string = 'DAILY') {
+    return this.digestService.sendDigests(this.parsePeriod(period));
+  }
+
+  private parsePeriod(period: string) {
+    const normalized = period.toUpperCase() as DigestPeriod;
+    if (!PERIODS.includes(normalized)) {
+      throw new BadRequestException(`period must be one of ${PERIODS.join(', ')}`);
+    }
+    return normalized;
+  }
+}
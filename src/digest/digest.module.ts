@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { DigestController } from './digest.controller';
+import { DigestService } from './digest.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { SlaModule } from '../sla/sla.module';
+import { LineOAModule } from '../line-oa/line-oa.module';
+
+@Module({
+  imports: [PrismaModule, SchedulerModule, SlaModule, LineOAModule],
+  controllers: [DigestController],
+  providers: [DigestService],
+})
+export class DigestModule {}
@@ -0,0 +1,135 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RepairTicketStatus, Role } from '@prisma/client';
+import { DigestService } from './digest.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { SlaService } from '../sla/sla.service';
+import { MailService } from '../mail/mail.service';
+import { LineOANotificationService } from '../line-oa/line-oa-notification.service';
+
+describe('DigestService', () => {
+  let service: DigestService;
+  let prisma: any;
+  let slaService: { findAtRisk: jest.Mock };
+  let mail: { isConfigured: jest.Mock; isDeliverable: jest.Mock; send: jest.Mock };
+  let lineNotificationService: { sendNotification: jest.Mock };
+
+  const now = new Date('2026-03-02T01:00:00.000Z');
+  const admin = { id: 1, name: 'Admin', email: 'admin@example.com', role: Role.ADMIN };
+
+  beforeEach(async () => {
+    prisma = {
+      repairTicket: {
+        findMany: jest.fn(async ({ where }: any) =>
+          JSON.stringify(where).includes('COMPLETED')
+            ? [
+                {
+                  ticketCode: 'REP-2',
+                  problemTitle: 'Monitor',
+                  urgency: 'NORMAL',
+                  completedAt: new Date('2026-03-01T10:00:00.000Z'),
+                  resolutionDueAt: new Date('2026-03-01T09:00:00.000Z'),
+                },
+              ]
+            : [{ ticketCode: 'REP-1', problemTitle: 'Printer jam', urgency: 'URGENT' }],
+        ),
+      },
+      loan: { findMany: jest.fn().mockResolvedValue([]) },
+      repairTicketAssignee: {
+        findMany: jest.fn().mockResolvedValue([
+          { userId: 7, user: { id: 7, name: 'Tech' }, repairTicket: { status: RepairTicketStatus.IN_PROGRESS } },
+          { userId: 7, user: { id: 7, name: 'Tech' }, repairTicket: { status: RepairTicketStatus.COMPLETED } },
+        ]),
+      },
+      user: {
+        findMany: jest.fn(async ({ where }: any) => (where.role === Role.ADMIN ? [admin] : [])),
+      },
+      notification: { findMany: jest.fn().mockResolvedValue([]) },
+      notificationDelivery: { createMany: jest.fn() },
+      department: { findMany: jest.fn().mockResolvedValue([]) },
+    };
+    slaService = {
+      findAtRisk: jest.fn().mockResolvedValue([
+        { ticketCode: 'REP-3', problemTitle: 'Network', urgency: 'CRITICAL', departmentId: 2, slaState: 'BREACHED', breachedTargets: ['RESOLUTION'] },
+        { ticketCode: 'REP-4', problemTitle: 'Mouse', urgency: 'NORMAL', departmentId: 1, slaState: 'AT_RISK', breachedTargets: [] },
+      ]),
+    };
+    mail = {
+      isConfigured: jest.fn().mockReturnValue(true),
+      isDeliverable: jest.fn((address) => !!address),
+      send: jest.fn().mockResolvedValue({ messageId: '<d1@example.com>' }),
+    };
+    lineNotificationService = {
+      sendNotification: jest.fn().mockResolvedValue({ success: true, outboxId: 1, status: 'SENT' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DigestService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SchedulerService, useValue: { register: jest.fn() } },
+        { provide: SlaService, useValue: slaService },
+        { provide: MailService, useValue: mail },
+        { provide: LineOANotificationService, useValue: lineNotificationService },
+      ],
+    }).compile();
+
+    service = module.get(DigestService);
+  });
+
+  describe('buildSummary', () => {
+    it('should cover the period and aggregate workload and SLA data', async () => {
+      const summary = await service.buildSummary('WEEKLY', now);
+
+      expect(summary.from).toEqual(new Date('2026-02-23T01:00:00.000Z'));
+      expect(summary.newTickets).toHaveLength(1);
+      expect(summary.completedTickets).toEqual([expect.objectContaining({ ticketCode: 'REP-2', late: true })]);
+      expect(summary.slaBreaches).toEqual([expect.objectContaining({ ticketCode: 'REP-3', targets: ['RESOLUTION'] })]);
+      expect(summary.workload).toEqual([{ name: 'Tech', open: 1, completed: 1 }]);
+    });
+
+    it('should scope breaches to the department', async () => {
+      const department = { id: 1, name: 'HR', code: 'HR' } as any;
+
+      const summary = await service.buildSummary('WEEKLY', now, department);
+
+      expect(summary.scope).toBe('HR');
+      expect(summary.slaBreaches).toEqual([]);
+    });
+  });
+
+  describe('sendDigests', () => {
+    it('should send admins a LINE carousel and an HTML email and record both', async () => {
+      const result = await service.sendDigests('DAILY', now);
+
+      expect(result).toEqual(expect.objectContaining({ users: 1, line: 1, email: 1 }));
+      const [userId, payload] = lineNotificationService.sendNotification.mock.calls[0];
+      expect(userId).toBe(1);
+      expect(payload.richMessage.contents.type).toBe('carousel');
+      expect(mail.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'admin@example.com', html: expect.stringContaining('REP-1') }),
+      );
+      expect(prisma.notificationDelivery.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ event: 'DIGEST_DAILY', channel: 'LINE', status: 'SENT' }),
+          expect.objectContaining({ event: 'DIGEST_DAILY', channel: 'EMAIL', status: 'SENT' }),
+        ],
+      });
+    });
+
+    it('should email department heads only on the weekly run', async () => {
+      prisma.department.findMany.mockResolvedValue([
+        { id: 2, name: 'Finance', code: 'FIN', headName: 'Khun Dao', contactEmail: 'finance@example.com' },
+      ]);
+
+      await service.sendDigests('DAILY', now);
+      expect(mail.send).not.toHaveBeenCalledWith(expect.objectContaining({ to: 'finance@example.com' }));
+
+      const result = await service.sendDigests('WEEKLY', now);
+      expect(result.departments).toBe(1);
+      expect(mail.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'finance@example.com', html: expect.stringContaining('Khun Dao') }),
+      );
+    });
+  });
+});
@@ -0,0 +1,324 @@
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import {
+  Department,
+  NotificationChannelType,
+  NotificationDeliveryStatus,
+  NotificationDigestMode,
+  Prisma,
+  RepairTicketStatus,
+  Role,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { SlaService } from '../sla/sla.service';
+import { MailService } from '../mail/mail.service';
+import { LineOANotificationService } from '../line-oa/line-oa-notification.service';
+import {
+  buildDigestCarousel,
+  DigestPeriod,
+  DigestSummary,
+  digestTitle,
+  isDigestEmpty,
+  renderDigestEmail,
+} from './digest-templates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PERIOD_MS: Record<DigestPeriod, number> = { DAILY: DAY_MS, WEEKLY: 7 * DAY_MS };
+
+const OPEN_STATUSES: RepairTicketStatus[] = [
+  RepairTicketStatus.PENDING,
+  RepairTicketStatus.IN_PROGRESS,
+  RepairTicketStatus.WAITING_PARTS,
+];
+
+interface DigestUser {
+  id: number;
+  name: string;
+  email: string;
+  role: Role;
+}
+
+/**
+ * Periodic activity summaries. Admins get the organization-wide digest, other users in
+ * digest mode get their held notifications, and departments with a contact email get
+ * the weekly digest for their own tickets and loans. Send times are the `digest.daily`
+ * and `digest.weekly` job schedules, which admins can change through the scheduler API.
+ */
+@Injectable()
+export class DigestService implements OnModuleInit {
+  private readonly logger = new Logger(DigestService.name);
+  private readonly frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly schedulerService: SchedulerService,
+    private readonly slaService: SlaService,
+    private readonly mailService: MailService,
+    private readonly lineNotificationService: LineOANotificationService,
+  ) {}
+
+  async onModuleInit() {
+    await this.schedulerService.register({
+      name: 'digest.daily',
+      description: 'Send the daily repair activity digest',
+      schedule: 'daily:08:00',
+      handler: () => this.sendDigests('DAILY'),
+    });
+    await this.schedulerService.register({
+      name: 'digest.weekly',
+      description: 'Send the weekly repair activity digest, including department digests',
+      schedule: 'weekly:1:08:00',
+      handler: () => this.sendDigests('WEEKLY'),
+    });
+  }
+
+  async sendDigests(period: DigestPeriod, now = new Date()) {
+    const result = { period, users: 0, departments: 0, line: 0, email: 0 };
+    const orgSummary = await this.buildSummary(period, now);
+
+    for (const user of await this.findRecipients(period)) {
+      const summary =
+        user.role === Role.ADMIN
+          ? { ...orgSummary, notifications: await this.findNotifications(user.id, orgSummary) }
+          : this.personalSummary(orgSummary, await this.findNotifications(user.id, orgSummary));
+      if (isDigestEmpty(summary)) continue;
+
+      const sent = await this.deliverToUser(user, summary);
+      result.users++;
+      result.line += sent.line ? 1 : 0;
+      result.email += sent.email ? 1 : 0;
+    }
+
+    if (period === 'WEEKLY') {
+      const departments = await this.prisma.department.findMany({
+        where: { contactEmail: { not: null } },
+      });
+      for (const department of departments) {
+        const summary = await this.buildSummary(period, now, department);
+        if (isDigestEmpty(summary)) continue;
+        if (await this.deliverToDepartment(department, summary)) {
+          result.departments++;
+          result.email++;
+        }
+      }
+    }
+
+    this.logger.log(
+      `${period} digest: ${result.users} user(s), ${result.departments} department(s), ${result.line} LINE, ${result.email} email`,
+    );
+    return result;
+  }
+
+  /**
+   * The digest as it would be sent right now, for checking before enabling the jobs
+   */
+  async preview(period: DigestPeriod, departmentId?: number) {
+    if (departmentId === undefined) return this.buildSummary(period, new Date());
+
+    const department = await this.prisma.department.findUnique({ where: { id: departmentId } });
+    if (!department) throw new NotFoundException(`Department #${departmentId} not found`);
+    return this.buildSummary(period, new Date(), department);
+  }
+
+  /* =======================
+     SUMMARY
+  ======================= */
+
+  async buildSummary(period: DigestPeriod, to: Date, department?: Department): Promise<DigestSummary> {
+    const from = new Date(to.getTime() - PERIOD_MS[period]);
+    const inPeriod = { gte: from, lt: to };
+    const departmentScope = department ? { departmentId: department.id } : {};
+    const ticketSelect = { ticketCode: true, problemTitle: true, urgency: true } as const;
+
+    const [newTickets, completed, atRisk, overdueLoans, assignments] = await Promise.all([
+      this.prisma.repairTicket.findMany({
+        where: { AND: [departmentScope, { createdAt: inPeriod }] },
+        select: ticketSelect,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.repairTicket.findMany({
+        where: { AND: [departmentScope, { status: RepairTicketStatus.COMPLETED, completedAt: inPeriod }] },
+        select: { ...ticketSelect, completedAt: true, resolutionDueAt: true },
+        orderBy: { completedAt: 'desc' },
+      }),
+      this.slaService.findAtRisk(0, to),
+      this.prisma.loan.findMany({
+        where: {
+          AND: [
+            departmentScope,
+            { OR: [{ status: 'OVERDUE' }, { status: 'BORROWED', expectedReturnDate: { lt: to } }] },
+          ],
+        },
+        include: { borrowedBy: { select: { name: true } } },
+        orderBy: { expectedReturnDate: 'asc' },
+      }),
+      this.prisma.repairTicketAssignee.findMany({
+        where: {
+          repairTicket: {
+            AND: [
+              departmentScope,
+              {
+                OR: [
+                  { status: { in: OPEN_STATUSES } },
+                  { status: RepairTicketStatus.COMPLETED, completedAt: inPeriod },
+                ],
+              },
+            ],
+          },
+        },
+        include: {
+          user: { select: { id: true, name: true } },
+          repairTicket: { select: { status: true } },
+        },
+      }),
+    ]);
+
+    const workload = new Map<number, { name: string; open: number; completed: number }>();
+    for (const a of assignments) {
+      const entry = workload.get(a.userId) ?? { name: a.user.name, open: 0, completed: 0 };
+      if (a.repairTicket.status === RepairTicketStatus.COMPLETED) entry.completed++;
+      else entry.open++;
+      workload.set(a.userId, entry);
+    }
+
+    return {
+      period,
+      from,
+      to,
+      scope: department?.name ?? null,
+      newTickets,
+      completedTickets: completed.map(({ completedAt, resolutionDueAt, ...t }) => ({
+        ...t,
+        late: !!resolutionDueAt && !!completedAt && completedAt > resolutionDueAt,
+      })),
+      slaBreaches: atRisk
+        .filter((t) => t.slaState === 'BREACHED')
+        .filter((t) => !department || t.departmentId === department.id)
+        .map((t) => ({
+          ticketCode: t.ticketCode,
+          problemTitle: t.problemTitle,
+          urgency: t.urgency,
+          targets: t.breachedTargets,
+        })),
+      overdueLoans: overdueLoans.map((l) => ({
+        itemName: l.itemName,
+        quantity: l.quantity,
+        borrowerName: l.borrowerName || l.borrowedBy.name,
+        expectedReturnDate: l.expectedReturnDate,
+      })),
+      workload: [...workload.values()].sort((a, b) => b.open - a.open),
+      notifications: [],
+    };
+  }
+
+  private personalSummary(org: DigestSummary, notifications: DigestSummary['notifications']): DigestSummary {
+    return {
+      ...org,
+      newTickets: [],
+      completedTickets: [],
+      slaBreaches: [],
+      overdueLoans: [],
+      workload: [],
+      notifications,
+    };
+  }
+
+  private findNotifications(userId: number, summary: DigestSummary) {
+    return this.prisma.notification.findMany({
+      where: { userId, createdAt: { gte: summary.from, lt: summary.to } },
+      select: { title: true, message: true, createdAt: true },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /* =======================
+     DELIVERY
+  ======================= */
+
+  /**
+   * Admins get the digest matching their digest mode (daily unless they chose weekly);
+   * everyone else only when they opted into digest mode for this period
+   */
+  private async findRecipients(period: DigestPeriod): Promise<DigestUser[]> {
+    const mode = period === 'DAILY' ? NotificationDigestMode.DAILY : NotificationDigestMode.WEEKLY;
+    const select = { id: true, name: true, email: true, role: true } as const;
+
+    const [admins, subscribers] = await Promise.all([
+      this.prisma.user.findMany({
+        where: {
+          role: Role.ADMIN,
+          ...(period === 'DAILY'
+            ? { NOT: { notificationPreference: { digestMode: NotificationDigestMode.WEEKLY } } }
+            : { notificationPreference: { digestMode: NotificationDigestMode.WEEKLY } }),
+        },
+        select,
+      }),
+      this.prisma.user.findMany({
+        where: { role: { not: Role.ADMIN }, notificationPreference: { digestMode: mode } },
+        select,
+      }),
+    ]);
+    return [...admins, ...subscribers];
+  }
+
+  private async deliverToUser(user: DigestUser, summary: DigestSummary) {
+    const event = `DIGEST_${summary.period}`;
+    const title = digestTitle(summary);
+    const dashboardUrl = `${this.frontendUrl}${user.role === Role.USER ? '/notifications' : '/admin/repairs'}`;
+    const deliveries: Prisma.NotificationDeliveryCreateManyInput[] = [];
+
+    const line = await this.lineNotificationService.sendNotification(user.id, {
+      type: event,
+      title,
+      message: `งานใหม่ ${summary.newTickets.length} / ปิดงาน ${summary.completedTickets.length}`,
+      richMessage: buildDigestCarousel(summary, dashboardUrl),
+    });
+    deliveries.push({
+      event,
+      userId: user.id,
+      channel: NotificationChannelType.LINE,
+      status: line.success
+        ? NotificationDeliveryStatus.SENT
+        : line.reason
+          ? NotificationDeliveryStatus.SKIPPED
+          : NotificationDeliveryStatus.FAILED,
+      detail: line.reason ?? null,
+    });
+
+    const email = await this.sendEmail(user.email, title, renderDigestEmail(summary, dashboardUrl, `เรียน ${user.name}`));
+    deliveries.push({ event, userId: user.id, channel: NotificationChannelType.EMAIL, ...email });
+
+    await this.prisma.notificationDelivery.createMany({ data: deliveries });
+    return {
+      line: line.success,
+      email: email.status === NotificationDeliveryStatus.SENT,
+    };
+  }
+
+  private async deliverToDepartment(department: Department, summary: DigestSummary) {
+    const greeting = department.headName ? `เรียน ${department.headName}` : `เรียน หัวหน้า${department.name}`;
+    const html = renderDigestEmail(summary, `${this.frontendUrl}/admin/repairs`, greeting);
+
+    const result = await this.sendEmail(department.contactEmail, digestTitle(summary), html);
+    if (result.status === NotificationDeliveryStatus.FAILED) {
+      this.logger.warn(`Digest for department ${department.code} failed: ${result.detail}`);
+    }
+    return result.status === NotificationDeliveryStatus.SENT;
+  }
+
+  private async sendEmail(to: string | null, subject: string, html: string) {
+    if (!this.mailService.isConfigured()) {
+      return { status: NotificationDeliveryStatus.SKIPPED, detail: 'SMTP not configured' };
+    }
+    if (!this.mailService.isDeliverable(to)) {
+      return { status: NotificationDeliveryStatus.SKIPPED, detail: 'No email address' };
+    }
+
+    try {
+      const { messageId } = await this.mailService.send({ to, subject, html });
+      return { status: NotificationDeliveryStatus.SENT, detail: messageId };
+    } catch (error: any) {
+      return { status: NotificationDeliveryStatus.FAILED, detail: error?.message || String(error) };
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { Injectable } from '@nestjs/common';
+import * as line from '@line/bot-sdk';
+
+/**
+ * In-memory replacement for LineOAService's transport, for tests that must not call LINE
+ * (the real client also refuses to start without LINE_ACCESS_TOKEN).
+ * Swap it in with `{ provide: LineOAService, useClass: FakeLineOAService }`.
+ */
+@Injectable()
+export class FakeLineOAService {
+  readonly sent: { to: string[]; message: line.Message }[] = [];
+  private readonly failures: unknown[] = [];
+
+  /**
+   * Make the next send throw `error` (call repeatedly to fail several sends)
+   */
+  failNext(error: unknown) {
+    this.failures.push(error);
+  }
+
+  reset() {
+    this.sent.length = 0;
+    this.failures.length = 0;
+  }
+
+  async sendMessage(lineUserId: string, message: line.Message) {
+    this.record([lineUserId], message);
+    return { success: true };
+  }
+
+  async sendMulticast(lineUserIds: string[], message: line.Message) {
+    this.record(lineUserIds, message);
+    return { success: true, count: lineUserIds.length };
+  }
+
+  async getMessageContent(_messageId: string, _maxBytes: number) {
+    return Buffer.alloc(0);
+  }
+
+  async testConnection() {
+    return true;
+  }
+
+  private record(to: string[], message: line.Message) {
+    if (this.failures.length > 0) throw this.failures.shift();
+    this.sent.push({ to, message });
+  }
+}
@@ -0,0 +1,43 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+
+const DEFAULT_TTL_MINUTES = 10;
+
+/**
+ * Persisted state for multi-step LINE chats (e.g. waiting for a follow-up comment).
+ * Stored in the database so it survives restarts and works across instances.
+ */
+@Injectable()
+export class LineConversationService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Active conversation for the user, or null if none / expired
+   */
+  async get<T = Record<string, any>>(lineUserId: string, flow?: string) {
+    const conversation = await this.prisma.lineConversation.findUnique({ where: { lineUserId } });
+    if (!conversation || conversation.expiresAt <= new Date()) return null;
+    if (flow && conversation.flow !== flow) return null;
+
+    return { flow: conversation.flow, data: conversation.data as T };
+  }
+
+  /**
+   * Start or replace the user's conversation
+   */
+  async set(lineUserId: string, flow: string, data: Record<string, any>, ttlMinutes = DEFAULT_TTL_MINUTES) {
+    const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+    const json = data as Prisma.InputJsonValue;
+
+    await this.prisma.lineConversation.upsert({
+      where: { lineUserId },
+      create: { lineUserId, flow, data: json, expiresAt },
+      update: { flow, data: json, expiresAt },
+    });
+  }
+
+  async clear(lineUserId: string) {
+    await this.prisma.lineConversation.deleteMany({ where: { lineUserId } });
+  }
+}
@@ -1,14 +1,13 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { NotificationChannelType, NotificationType, UrgencyLevel } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
-import { LineOAService } from './line-oa.service';
-import { LineNotificationStatus } from '@prisma/client';
+import { NotificationPreferencesService } from '../notification/notification-preferences.service';
+import { LineOutboxService } from './line-outbox.service';
 
 /* =======================
    ENUMS & CONSTANTS
 ======================= */
 
-const NotificationStatus = LineNotificationStatus;
-
 const COLORS = {
   CRITICAL: '#D32F2F',
   URGENT: '#F57C00',
@@ -20,6 +19,12 @@ const COLORS = {
   PRIMARY: '#34495E',
 };
 
+const ASSIGNMENT_ACTION_TEXT = {
+  ASSIGNED: 'ได้รับมอบหมายงานใหม่',
+  TRANSFERRED: 'มีการโอนงานมาให้คุณ',
+  CLAIMED: 'คุณรับงานซ่อมแล้ว',
+};
+
 /* =======================
    INTERFACES
 ======================= */
@@ -30,6 +35,9 @@ export interface LineNotificationPayload {
   message: string;
   actionUrl?: string;
   richMessage?: any;
+  // Preference category; without it the user's preferences are not consulted
+  notificationType?: NotificationType;
+  urgency?: UrgencyLevel;
 }
 
 export interface RepairTicketNotificationPayload {
@@ -43,6 +51,15 @@ export interface RepairTicketNotificationPayload {
   createdAt: string;
 }
 
+export interface TechnicianAssignmentPayload {
+  ticketCode: string;
+  problemTitle: string;
+  reporterName: string;
+  urgency: 'CRITICAL' | 'URGENT' | 'NORMAL';
+  action: 'ASSIGNED' | 'TRANSFERRED' | 'CLAIMED';
+  imageUrl?: string;
+}
+
 export interface RepairStatusUpdatePayload {
   ticketCode: string;
   problemTitle?: string;
@@ -52,6 +69,7 @@ export interface RepairStatusUpdatePayload {
   technicianNames?: string[]; // Changed to array for multi-assignee
   nextStep?: string;
   updatedAt?: Date;
+  urgency?: UrgencyLevel;
 }
 
 /* =======================
@@ -64,7 +82,8 @@ export class LineOANotificationService {
 
   constructor(
     private readonly prisma: PrismaService,
-    private readonly lineOAService: LineOAService,
+    private readonly outboxService: LineOutboxService,
+    private readonly preferencesService: NotificationPreferencesService,
   ) {}
 
   /* =======================
@@ -76,15 +95,23 @@ export class LineOANotificationService {
       const lineLink = await this.getVerifiedLineLink(userId);
       if (!lineLink) return { success: false, reason: 'User not linked to LINE' };
 
+      if (payload.notificationType) {
+        const decision = await this.preferencesService.check(
+          userId,
+          payload.notificationType,
+          NotificationChannelType.LINE,
+          payload.urgency,
+        );
+        if (!decision.deliver) return { success: false, reason: decision.reason };
+      }
+
       const message = payload.richMessage || this.createDefaultTextMessage(payload);
 
-      await this.lineOAService.sendMessage(lineLink.lineUserId!, message);
-      await this.saveNotificationLog(lineLink.lineUserId!, payload, NotificationStatus.SENT);
+      const queued = await this.outboxService.enqueue(lineLink.lineUserId!, message, payload);
 
-      return { success: true };
+      return { success: true, outboxId: queued.id, status: queued.status };
     } catch (error) {
       this.logger.error(error.message);
-      await this.logFailure(userId, payload, error.message);
       return { success: false };
     }
   }
@@ -103,11 +130,18 @@ export class LineOANotificationService {
         include: { lineOALink: true },
       });
 
+      const wanted = await this.preferencesService.filterRecipients(
+        itUsers.map(u => u.id),
+        NotificationType.TICKET_CREATED,
+        NotificationChannelType.LINE,
+        payload.urgency,
+      );
       const lineUserIds = itUsers
+        .filter(u => wanted.includes(u.id))
         .map(u => u.lineOALink?.lineUserId)
         .filter((id): id is string => !!id);
 
-      if (lineUserIds.length === 0) return { success: false, reason: 'No IT users linked to LINE' };
+      if (lineUserIds.length === 0) return { success: false, reason: 'No IT users to notify on LINE' };
 
       const flexMessage = {
         type: 'flex' as const,
@@ -115,16 +149,13 @@ export class LineOANotificationService {
         contents: this.createRepairTicketFlex(payload) as any,
       };
 
-      await this.lineOAService.sendMulticast(lineUserIds, flexMessage);
-      await Promise.all(lineUserIds.map(lineUserId =>
-        this.saveNotificationLog(lineUserId, {
-          type: 'REPAIR_TICKET_CREATED',
-          title: `งานใหม่ ${payload.ticketCode}`,
-          message: payload.problemTitle,
-        }, NotificationStatus.SENT)
-      ));
+      const queued = await this.outboxService.enqueue(lineUserIds, flexMessage, {
+        type: 'REPAIR_TICKET_CREATED',
+        title: `งานใหม่ ${payload.ticketCode}`,
+        message: payload.problemTitle,
+      });
 
-      return { success: true, count: lineUserIds.length };
+      return { success: true, count: lineUserIds.length, outboxId: queued.id, status: queued.status };
     } catch (error) {
       this.logger.error(error.message);
       return { success: false };
@@ -135,41 +166,28 @@ export class LineOANotificationService {
      NOTIFY SPECIFIC TECHNICIAN
   ====================== */
 
-  async notifyTechnicianTaskAssignment(
-    technicianId: number,
-    payload: {
-      ticketCode: string;
-      problemTitle: string;
-      reporterName: string;
-      urgency: 'CRITICAL' | 'URGENT' | 'NORMAL';
-      action: 'ASSIGNED' | 'TRANSFERRED' | 'CLAIMED';
-      imageUrl?: string;
-    }
-  ) {
+  async notifyTechnicianTaskAssignment(technicianId: number, payload: TechnicianAssignmentPayload) {
     try {
       const lineLink = await this.getVerifiedLineLink(technicianId);
       if (!lineLink) return { success: false, reason: 'Technician not linked to LINE' };
 
-      const actionText = {
-        ASSIGNED: 'ได้รับมอบหมายงานใหม่',
-        TRANSFERRED: 'มีการโอนงานมาให้คุณ',
-        CLAIMED: 'คุณรับงานซ่อมแล้ว',
-      }[payload.action];
+      const decision = await this.preferencesService.check(
+        technicianId,
+        NotificationType.TICKET_ASSIGNED,
+        NotificationChannelType.LINE,
+        payload.urgency,
+      );
+      if (!decision.deliver) return { success: false, reason: decision.reason };
 
-      const flexMessage = {
-        type: 'flex' as const,
-        altText: `${actionText} ${payload.ticketCode}`,
-        contents: this.createTechnicianAssignmentFlex(payload, actionText) as any,
-      };
+      const flexMessage = this.buildTechnicianAssignmentMessage(payload);
 
-      await this.lineOAService.sendMessage(lineLink.lineUserId!, flexMessage);
-      await this.saveNotificationLog(lineLink.lineUserId!, {
+      const queued = await this.outboxService.enqueue(lineLink.lineUserId!, flexMessage, {
         type: `REPAIR_TICKET_${payload.action}`,
-        title: actionText,
+        title: ASSIGNMENT_ACTION_TEXT[payload.action],
         message: `${payload.ticketCode}: ${payload.problemTitle}`,
-      }, NotificationStatus.SENT);
+      });
 
-      return { success: true };
+      return { success: true, outboxId: queued.id, status: queued.status };
     } catch (error) {
       this.logger.error(error.message);
       return { success: false };
@@ -184,20 +202,23 @@ export class LineOANotificationService {
     const lineLink = await this.getVerifiedLineLink(userId);
     if (!lineLink) return { success: false };
 
-    const flexMessage = {
-      type: 'flex' as const,
-      altText: `อัปเดตสถานะ ${payload.ticketCode}`,
-      contents: this.createStatusUpdateFlex(payload) as any,
-    };
+    const decision = await this.preferencesService.check(
+      userId,
+      NotificationType.STATUS_CHANGED,
+      NotificationChannelType.LINE,
+      payload.urgency,
+    );
+    if (!decision.deliver) return { success: false, reason: decision.reason };
+
+    const flexMessage = this.buildStatusUpdateMessage(payload);
 
     try {
-      await this.lineOAService.sendMessage(lineLink.lineUserId!, flexMessage);
-      await this.saveNotificationLog(lineLink.lineUserId!, {
+      const queued = await this.outboxService.enqueue(lineLink.lineUserId!, flexMessage, {
         type: 'REPAIR_STATUS_UPDATE',
         title: `อัปเดตงาน ${payload.ticketCode}`,
         message: payload.remark || payload.status,
-      }, NotificationStatus.SENT);
-      return { success: true };
+      });
+      return { success: true, outboxId: queued.id, status: queued.status };
     } catch (error) {
       this.logger.error(error.message);
       return { success: false };
@@ -205,37 +226,33 @@ export class LineOANotificationService {
   }
 
   /* =======================
-     PRIVATE HELPERS
+     MESSAGE BUILDERS
   ======================= */
 
-  private async getVerifiedLineLink(userId: number) {
-    const link = await this.prisma.lineOALink.findUnique({ where: { userId } });
-    return (link && link.status === 'VERIFIED' && link.lineUserId) ? link : null;
+  buildTechnicianAssignmentMessage(payload: TechnicianAssignmentPayload) {
+    const actionText = ASSIGNMENT_ACTION_TEXT[payload.action];
+    return {
+      type: 'flex' as const,
+      altText: `${actionText} ${payload.ticketCode}`,
+      contents: this.createTechnicianAssignmentFlex(payload, actionText) as any,
+    };
   }
 
-  private async saveNotificationLog(
-    lineUserId: string,
-    payload: Partial<LineNotificationPayload>,
-    status: LineNotificationStatus,
-    errorMessage?: string,
-  ) {
-    return this.prisma.lineNotification.create({
-      data: {
-        lineUserId,
-        type: payload.type ?? '',
-        title: payload.title ?? '',
-        message: payload.message ?? '',
-        status,
-        errorMessage,
-      },
-    });
+  buildStatusUpdateMessage(payload: RepairStatusUpdatePayload) {
+    return {
+      type: 'flex' as const,
+      altText: `อัปเดตสถานะ ${payload.ticketCode}`,
+      contents: this.createStatusUpdateFlex(payload) as any,
+    };
   }
 
-  private async logFailure(userId: number, payload: LineNotificationPayload, error: string) {
+  /* =======================
+     PRIVATE HELPERS
+  ======================= */
+
+  private async getVerifiedLineLink(userId: number) {
     const link = await this.prisma.lineOALink.findUnique({ where: { userId } });
-    if (link?.lineUserId) {
-      await this.saveNotificationLog(link.lineUserId, payload, NotificationStatus.FAILED, error);
-    }
+    return (link && link.status === 'VERIFIED' && link.lineUserId) ? link : null;
   }
 
   private createDefaultTextMessage(payload: LineNotificationPayload) {
@@ -331,6 +348,25 @@ export class LineOANotificationService {
           }
         ],
       },
+      footer: {
+        type: 'box',
+        layout: 'vertical',
+        paddingAll: '12px',
+        contents: [
+          {
+            type: 'button',
+            style: 'primary',
+            height: 'sm',
+            color: urgency.color,
+            action: {
+              type: 'postback',
+              label: 'รับงานนี้',
+              data: `action=claim_repair&code=${payload.ticketCode}`,
+              displayText: `รับงาน ${payload.ticketCode}`,
+            },
+          },
+        ],
+      },
     };
   }
 
@@ -386,6 +422,37 @@ export class LineOANotificationService {
           }
         ],
       },
+      footer: {
+        type: 'box',
+        layout: 'vertical',
+        paddingAll: '12px',
+        spacing: 'sm',
+        contents: [
+          {
+            type: 'button',
+            style: 'primary',
+            height: 'sm',
+            color: COLORS.INFO,
+            action: {
+              type: 'postback',
+              label: 'อัปเดตสถานะ',
+              data: `action=status_menu&code=${payload.ticketCode}`,
+              displayText: `อัปเดตสถานะ ${payload.ticketCode}`,
+            },
+          },
+          {
+            type: 'button',
+            style: 'secondary',
+            height: 'sm',
+            action: {
+              type: 'postback',
+              label: 'โอนงานให้เพื่อนร่วมทีม',
+              data: `action=transfer_repair&code=${payload.ticketCode}`,
+              displayText: `โอนงาน ${payload.ticketCode}`,
+            },
+          },
+        ],
+      },
     };
   }
 
@@ -540,6 +607,7 @@ export class LineOANotificationService {
     return ({
       PENDING: { color: COLORS.WARNING, text: 'รอดำเนินการ' },
       IN_PROGRESS: { color: COLORS.INFO, text: 'กำลังดำเนินการ' },
+      WAITING_PARTS: { color: COLORS.WARNING, text: 'รออะไหล่' },
       COMPLETED: { color: COLORS.SUCCESS, text: 'เสร็จสิ้น' },
       WAITING_USER: { color: COLORS.WARNING, text: 'รอข้อมูลจากผู้แจ้ง' },
       CANCELLED: { color: COLORS.SECONDARY, text: 'ยกเลิก' },
@@ -0,0 +1,65 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { FALLBACK_MESSAGE_HANDLER_PRIORITY, LineOAWebhookService } from './line-oa-webhook.service';
+import { LineOALinkingService } from './line-oa-linking.service';
+import { LineOAService } from './line-oa.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('LineOAWebhookService', () => {
+  let service: LineOAWebhookService;
+
+  const receive = (message: any) =>
+    (service as any).handleMessage({ source: { userId: 'U1' }, message });
+
+  beforeEach(async () => {
+    // The LINE client refuses to start without a token
+    process.env.LINE_ACCESS_TOKEN ??= 'test-token';
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LineOAWebhookService,
+        { provide: PrismaService, useValue: {} },
+        { provide: LineOALinkingService, useValue: {} },
+        { provide: LineOAService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get(LineOAWebhookService);
+  });
+
+  describe('message handlers', () => {
+    it('should offer a message to conversations before fallback handlers, whatever the registration order', async () => {
+      const calls: string[] = [];
+      service.registerMessageHandler(async () => {
+        calls.push('evidence');
+        return true;
+      }, FALLBACK_MESSAGE_HANDLER_PRIORITY);
+      service.registerMessageHandler(async () => {
+        calls.push('chat');
+        return true;
+      });
+
+      await receive({ type: 'image', id: 'm1' });
+
+      expect(calls).toEqual(['chat']);
+    });
+
+    it('should fall through to the next handler and keep registration order within a priority', async () => {
+      const calls: string[] = [];
+      service.registerMessageHandler(async () => {
+        calls.push('fallback');
+        return true;
+      }, FALLBACK_MESSAGE_HANDLER_PRIORITY);
+      service.registerMessageHandler(async () => {
+        calls.push('first');
+        return false;
+      });
+      service.registerMessageHandler(async () => {
+        calls.push('second');
+        return false;
+      });
+
+      await receive({ type: 'image', id: 'm1' });
+
+      expect(calls).toEqual(['first', 'second', 'fallback']);
+    });
+  });
+});
@@ -5,12 +5,38 @@ import { LineOALinkingService } from './line-oa-linking.service';
 import { LineOAService } from './line-oa.service';
 import * as line from '@line/bot-sdk';
 
+/**
+ * Handler for a postback `action=...` owned by another module
+ */
+export type PostbackHandler = (
+  lineUserId: string,
+  params: URLSearchParams,
+  client: line.Client,
+) => Promise<void>;
+
+/**
+ * Handler for an incoming message (text, image, ...); resolves true when it consumed it
+ */
+export type MessageHandler = (
+  lineUserId: string,
+  message: line.EventMessage,
+  client: line.Client,
+) => Promise<boolean>;
+
+/**
+ * Priority for handlers that take every message of a kind (e.g. any photo), so that a
+ * conversation waiting for that message (default priority 0) gets it first
+ */
+export const FALLBACK_MESSAGE_HANDLER_PRIORITY = -10;
+
 @Injectable()
 export class LineOAWebhookService {
   private readonly logger = new Logger(LineOAWebhookService.name);
   private readonly channelSecret = process.env.LINE_CHANNEL_SECRET || 'test-secret';
   private readonly channelAccessToken = process.env.LINE_ACCESS_TOKEN || '';
   private readonly liffId = process.env.LINE_LIFF_ID || '';
+  private readonly postbackHandlers = new Map<string, PostbackHandler>();
+  private readonly messageHandlers: { handler: MessageHandler; priority: number }[] = [];
 
   constructor(
     private readonly prisma: PrismaService,
@@ -18,6 +44,23 @@ export class LineOAWebhookService {
     private readonly lineOAService: LineOAService,
   ) {}
 
+  /**
+   * ให้ module อื่นลงทะเบียน postback action ของตัวเอง (เช่น repairs)
+   */
+  registerPostbackHandler(action: string, handler: PostbackHandler) {
+    this.postbackHandlers.set(action, handler);
+  }
+
+  /**
+   * Message handlers run before the default reply, highest priority first and in
+   * registration order within a priority, so module load order does not decide who wins
+   */
+  registerMessageHandler(handler: MessageHandler, priority = 0) {
+    this.messageHandlers.push({ handler, priority });
+    // Array.prototype.sort is stable, keeping registration order for equal priorities
+    this.messageHandlers.sort((a, b) => b.priority - a.priority);
+  }
+
   /**
    * ตรวจสอบและจัดการ LINE Webhook Event
    */
@@ -130,14 +173,18 @@ export class LineOAWebhookService {
     const lineUserId = event.source.userId;
     const message = event.message;
 
-    this.logger.log(`Received message from ${lineUserId}: ${message.text}`);
+    this.logger.log(`Received ${message.type} message from ${lineUserId}`);
 
-    if (message.type === 'text') {
-      try {
-        const client = new line.Client({
-          channelAccessToken: this.channelAccessToken,
-        });
+    try {
+      const client = new line.Client({
+        channelAccessToken: this.channelAccessToken,
+      });
+
+      for (const { handler } of this.messageHandlers) {
+        if (await handler(lineUserId, message, client)) return;
+      }
 
+      if (message.type === 'text') {
         // Response เบื้องต้น
         const reply: line.Message = {
           type: 'text',
@@ -145,9 +192,9 @@ export class LineOAWebhookService {
         };
 
         await client.pushMessage(lineUserId, reply);
-      } catch (error) {
-        this.logger.error(`Failed to reply to message:`, error);
       }
+    } catch (error) {
+      this.logger.error(`Failed to reply to message:`, error);
     }
   }
 
@@ -182,8 +229,14 @@ export class LineOAWebhookService {
         case 'contact':
           await this.handleContactPostback(lineUserId, client);
           break;
-        default:
-          this.logger.warn(`Unknown postback action: ${action}`);
+        default: {
+          const handler = action ? this.postbackHandlers.get(action) : undefined;
+          if (handler) {
+            await handler(lineUserId, params, client);
+          } else {
+            this.logger.warn(`Unknown postback action: ${action}`);
+          }
+        }
       }
     } catch (error) {
       this.logger.error(`Failed to handle postback:`, error);
@@ -227,6 +280,13 @@ export class LineOAWebhookService {
             label: 'เปิดฟอร์มแจ้งซ่อม',
             uri: liffUrl,
           },
+          {
+            // For phones without LIFF or on a weak connection
+            type: 'postback',
+            label: 'แจ้งผ่านแชท',
+            data: 'action=chat_repair',
+            displayText: 'แจ้งซ่อมผ่านแชท',
+          },
         ],
       },
     };
@@ -4,17 +4,32 @@ import { LineOAService } from './line-oa.service';
 import { LineOAWebhookService } from './line-oa-webhook.service';
 import { LineOALinkingService } from './line-oa-linking.service';
 import { LineOANotificationService } from './line-oa-notification.service';
+import { LineConversationService } from './line-conversation.service';
+import { LineOutboxService } from './line-outbox.service';
+import { LineOutboxController } from './line-outbox.controller';
 import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { NotificationPreferencesModule } from '../notification/notification-preferences.module';
 
 @Module({
-  controllers: [LineOAController],
+  imports: [SchedulerModule, NotificationPreferencesModule],
+  controllers: [LineOAController, LineOutboxController],
   providers: [
     LineOAService,
     LineOAWebhookService,
     LineOALinkingService,
     LineOANotificationService,
+    LineConversationService,
+    LineOutboxService,
     PrismaService,
   ],
-  exports: [LineOAService, LineOAWebhookService, LineOALinkingService, LineOANotificationService],
+  exports: [
+    LineOAService,
+    LineOAWebhookService,
+    LineOALinkingService,
+    LineOANotificationService,
+    LineConversationService,
+    LineOutboxService,
+  ],
 })
 export class LineOAModule {}
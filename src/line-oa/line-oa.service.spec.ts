@@ -0,0 +1,56 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { Readable } from 'stream';
+import { LineOAService } from './line-oa.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('LineOAService', () => {
+  let service: LineOAService;
+  let lineClient: { getMessageContent: jest.Mock };
+
+  const content = (chunks: Buffer[], headers?: Record<string, string>) =>
+    Object.assign(Readable.from(chunks), { headers });
+
+  beforeEach(async () => {
+    // The LINE client refuses to start without a token
+    process.env.LINE_ACCESS_TOKEN ??= 'test-token';
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [LineOAService, { provide: PrismaService, useValue: {} }],
+    }).compile();
+
+    service = module.get(LineOAService);
+    lineClient = { getMessageContent: jest.fn() };
+    (service as any).lineClient = lineClient;
+  });
+
+  describe('getMessageContent', () => {
+    it('should buffer content within the limit', async () => {
+      lineClient.getMessageContent.mockResolvedValue(content([Buffer.from('ab'), Buffer.from('c')]));
+
+      await expect(service.getMessageContent('m1', 10)).resolves.toEqual(Buffer.from('abc'));
+    });
+
+    it('should refuse content whose Content-Length is over the limit without reading it', async () => {
+      const stream = content([Buffer.alloc(4)], { 'content-length': '2048' });
+      lineClient.getMessageContent.mockResolvedValue(stream);
+
+      await expect(service.getMessageContent('m1', 1024)).rejects.toThrow(BadRequestException);
+      expect(stream.destroyed).toBe(true);
+    });
+
+    it('should stop reading once the stream passes the limit', async () => {
+      let read = 0;
+      const stream = new Readable({
+        read() {
+          read++;
+          this.push(read > 100 ? null : Buffer.alloc(512));
+        },
+      });
+      lineClient.getMessageContent.mockResolvedValue(stream);
+
+      await expect(service.getMessageContent('m1', 1024)).rejects.toThrow('File size exceeds');
+      expect(read).toBeLessThan(10);
+      expect(stream.destroyed).toBe(true);
+    });
+  });
+});
@@ -1,4 +1,5 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { Readable } from 'stream';
 import { PrismaService } from '../prisma/prisma.service';
 import * as line from '@line/bot-sdk';
 
@@ -48,6 +49,33 @@ export class LineOAService {
     }
   }
 
+  /**
+   * ดาวน์โหลดไฟล์ที่ผู้ใช้ส่งมา (รูปภาพ/วิดีโอ) จาก LINE
+   * หยุดดาวน์โหลดทันทีเมื่อไฟล์ใหญ่เกิน maxBytes เพื่อไม่ให้หน่วยความจำเต็ม
+   */
+  async getMessageContent(messageId: string, maxBytes: number): Promise<Buffer> {
+    const stream: Readable & { headers?: Record<string, string> } =
+      await this.lineClient.getMessageContent(messageId);
+    const tooLarge = () => new BadRequestException(`File size exceeds ${maxBytes / 1024 / 1024}MB limit`);
+
+    // The HTTP response usually announces its size, so most oversized files are never read
+    if (Number(stream.headers?.['content-length']) > maxBytes) {
+      stream.destroy();
+      throw tooLarge();
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of stream) {
+      const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+      size += buffer.length;
+      // Leaving the loop destroys the stream
+      if (size > maxBytes) throw tooLarge();
+      chunks.push(buffer);
+    }
+    return Buffer.concat(chunks);
+  }
+
   /**
    * ดึงประวัติการแจ้งเตือน LINE ของผู้ใช้
    */
@@ -0,0 +1,48 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  ParseIntPipe,
+  BadRequestException,
+  UseGuards,
+} from '@nestjs/common';
+import { LineOutboxStatus } from '@prisma/client';
+import { LineOutboxService } from './line-outbox.service';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('api/line-oa/outbox')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN')
+export class LineOutboxController {
+  constructor(private readonly outboxService: LineOutboxService) {}
+
+  @Get()
+  async findAll(@Query('status') status?: string, @Query('limit') limit: string = '50') {
+    if (status && !Object.values(LineOutboxStatus).includes(status as LineOutboxStatus)) {
+      throw new BadRequestException(`Unknown status "${status}"`);
+    }
+    return this.outboxService.findAll({
+      status: status as LineOutboxStatus | undefined,
+      limit: parseInt(limit) || 50,
+    });
+  }
+
+  @Get(':id')
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.outboxService.findOne(id);
+  }
+
+  @Post('replay-dead')
+  async replayAllDead() {
+    return this.outboxService.replayAllDead();
+  }
+
+  @Post(':id/replay')
+  async replay(@Param('id', ParseIntPipe) id: number) {
+    return this.outboxService.replay(id);
+  }
+}
@@ -0,0 +1,126 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LineOutboxStatus } from '@prisma/client';
+import { LineOutboxService } from './line-outbox.service';
+import { LineOAService } from './line-oa.service';
+import { FakeLineOAService } from './fake-line-oa.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+
+describe('LineOutboxService', () => {
+  let service: LineOutboxService;
+  let line: FakeLineOAService;
+  let prisma: any;
+  let row: any;
+
+  const message = { type: 'text', text: 'hello' } as const;
+  const meta = { type: 'TEST', title: 'Test', message: 'hello' };
+
+  const httpError = (statusCode: number, retryAfter?: string) =>
+    Object.assign(new Error(`Request failed with status code ${statusCode}`), {
+      statusCode,
+      originalError: { response: { headers: retryAfter ? { 'retry-after': retryAfter } : {} } },
+    });
+
+  beforeEach(async () => {
+    row = undefined;
+    prisma = {
+      lineOutboxMessage: {
+        create: jest.fn(async ({ data }: any) => {
+          row = { id: 1, status: LineOutboxStatus.PENDING, attempts: 0, ...data };
+          return row;
+        }),
+        // Claim succeeds only while the row is PENDING, like the real conditional update
+        updateMany: jest.fn(async ({ where, data }: any) => {
+          if (where.id !== row?.id || row.status !== where.status) return { count: 0 };
+          Object.assign(row, data);
+          return { count: 1 };
+        }),
+        findUniqueOrThrow: jest.fn(async () => row),
+        update: jest.fn(async ({ data }: any) => Object.assign(row, data)),
+      },
+      lineNotification: {
+        createMany: jest.fn(),
+      },
+    };
+    prisma.$transaction = jest.fn((arg: any) => Promise.all(arg));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LineOutboxService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: LineOAService, useClass: FakeLineOAService },
+        { provide: SchedulerService, useValue: { register: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get(LineOutboxService);
+    line = module.get<FakeLineOAService>(LineOAService);
+  });
+
+  it('should send right away and write the notification history', async () => {
+    const result = await service.enqueue('U1', message, meta);
+
+    expect(result.status).toBe(LineOutboxStatus.SENT);
+    expect(line.sent).toEqual([{ to: ['U1'], message }]);
+    expect(prisma.lineNotification.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ lineUserId: 'U1', status: 'SENT', type: 'TEST' })],
+    });
+  });
+
+  it('should back off exponentially on server errors', async () => {
+    line.failNext(httpError(500));
+    const before = Date.now();
+
+    const result = await service.enqueue('U1', message, meta);
+
+    expect(result.status).toBe(LineOutboxStatus.PENDING);
+    expect(result.attempts).toBe(1);
+    expect(result.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(30 * 1000);
+
+    line.failNext(httpError(500));
+    const retry = await service.deliver(1);
+    expect(retry!.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(60 * 1000);
+  });
+
+  it('should wait for Retry-After on 429', async () => {
+    line.failNext(httpError(429, '120'));
+    const before = Date.now();
+
+    const result = await service.enqueue('U1', message, meta);
+
+    expect(result.status).toBe(LineOutboxStatus.PENDING);
+    expect(result.nextAttemptAt.getTime() - before).toBeGreaterThanOrEqual(120 * 1000);
+  });
+
+  it('should dead-letter immediately on a client error', async () => {
+    line.failNext(httpError(400));
+
+    const result = await service.enqueue('U1', message, meta);
+
+    expect(result.status).toBe(LineOutboxStatus.DEAD);
+    expect(prisma.lineNotification.createMany).toHaveBeenCalledWith({
+      data: [expect.objectContaining({ status: 'FAILED', retryCount: 1 })],
+    });
+  });
+
+  it('should dead-letter once attempts are exhausted', async () => {
+    for (let i = 0; i < 6; i++) line.failNext(httpError(503));
+
+    await service.enqueue(['U1', 'U2'], message, meta);
+    for (let i = 1; i < 6; i++) {
+      row.nextAttemptAt = new Date();
+      await service.deliver(1);
+    }
+
+    expect(row.status).toBe(LineOutboxStatus.DEAD);
+    expect(row.attempts).toBe(6);
+    expect(line.sent).toHaveLength(0);
+  });
+
+  it('should not send a message another worker already claimed', async () => {
+    await service.enqueue('U1', message, meta);
+
+    await expect(service.deliver(1)).resolves.toBeNull();
+    expect(line.sent).toHaveLength(1);
+  });
+});
@@ -0,0 +1,256 @@
+import { Injectable, Logger, NotFoundException, BadRequestException, OnModuleInit } from '@nestjs/common';
+import { LineNotificationStatus, LineOutboxStatus, Prisma } from '@prisma/client';
+import * as line from '@line/bot-sdk';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { LineOAService } from './line-oa.service';
+
+const MAX_ATTEMPTS = 6;
+const BASE_DELAY_MS = 30 * 1000;
+const MAX_DELAY_MS = 60 * 60 * 1000;
+// A SENDING row this old belongs to a worker that died mid-send
+const STUCK_SENDING_MS = 5 * 60 * 1000;
+const FLUSH_BATCH_SIZE = 50;
+
+export interface OutboxMeta {
+  type: string;
+  title: string;
+  message?: string;
+}
+
+interface DeliveryError {
+  message: string;
+  statusCode?: number;
+  retryAfterMs?: number;
+}
+
+/**
+ * Persisted queue in front of LineOAService. Each message gets one delivery attempt
+ * right away; failures are retried by the `line.outbox-flush` job with exponential
+ * backoff (or LINE's Retry-After on 429) until they are sent or go DEAD.
+ */
+@Injectable()
+export class LineOutboxService implements OnModuleInit {
+  private readonly logger = new Logger(LineOutboxService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly lineOAService: LineOAService,
+    private readonly schedulerService: SchedulerService,
+  ) {}
+
+  async onModuleInit() {
+    await this.schedulerService.register({
+      name: 'line.outbox-flush',
+      description: 'Retry LINE messages that failed to send',
+      schedule: 'every:1',
+      handler: () => this.flush(),
+    });
+  }
+
+  /**
+   * Queue a push (one recipient) or multicast (several) and try to send it immediately
+   */
+  async enqueue(lineUserIds: string | string[], message: line.Message, meta: OutboxMeta) {
+    const recipients = Array.isArray(lineUserIds) ? lineUserIds : [lineUserIds];
+
+    const row = await this.prisma.lineOutboxMessage.create({
+      data: {
+        lineUserIds: recipients,
+        message: message as unknown as Prisma.InputJsonValue,
+        type: meta.type,
+        title: meta.title,
+        summary: meta.message ?? '',
+        maxAttempts: MAX_ATTEMPTS,
+      },
+    });
+
+    return (await this.deliver(row.id)) ?? row;
+  }
+
+  /* =======================
+     WORKER
+  ======================= */
+
+  async flush() {
+    const now = new Date();
+
+    const { count: recovered } = await this.prisma.lineOutboxMessage.updateMany({
+      where: {
+        status: LineOutboxStatus.SENDING,
+        updatedAt: { lt: new Date(now.getTime() - STUCK_SENDING_MS) },
+      },
+      data: { status: LineOutboxStatus.PENDING },
+    });
+
+    const due = await this.prisma.lineOutboxMessage.findMany({
+      where: { status: LineOutboxStatus.PENDING, nextAttemptAt: { lte: now } },
+      select: { id: true },
+      orderBy: { nextAttemptAt: 'asc' },
+      take: FLUSH_BATCH_SIZE,
+    });
+
+    const result = { recovered, sent: 0, retrying: 0, dead: 0 };
+    for (const { id } of due) {
+      const delivered = await this.deliver(id);
+      if (delivered?.status === LineOutboxStatus.SENT) result.sent++;
+      if (delivered?.status === LineOutboxStatus.PENDING) result.retrying++;
+      if (delivered?.status === LineOutboxStatus.DEAD) result.dead++;
+    }
+    return result;
+  }
+
+  /**
+   * One delivery attempt. Returns null if another worker already holds the message.
+   */
+  async deliver(id: number) {
+    // Claim the row so two workers never send the same message
+    const { count } = await this.prisma.lineOutboxMessage.updateMany({
+      where: { id, status: LineOutboxStatus.PENDING },
+      data: { status: LineOutboxStatus.SENDING },
+    });
+    if (count === 0) return null;
+
+    const row = await this.prisma.lineOutboxMessage.findUniqueOrThrow({ where: { id } });
+    const message = row.message as unknown as line.Message;
+    const attempts = row.attempts + 1;
+
+    try {
+      if (row.lineUserIds.length === 1) {
+        await this.lineOAService.sendMessage(row.lineUserIds[0], message);
+      } else {
+        await this.lineOAService.sendMulticast(row.lineUserIds, message);
+      }
+    } catch (err) {
+      return this.recordFailure(row, attempts, this.describeError(err));
+    }
+
+    const [sent] = await this.prisma.$transaction([
+      this.prisma.lineOutboxMessage.update({
+        where: { id },
+        data: { status: LineOutboxStatus.SENT, attempts, sentAt: new Date(), lastError: null },
+      }),
+      this.prisma.lineNotification.createMany({
+        data: row.lineUserIds.map((lineUserId) => ({
+          lineUserId,
+          type: row.type,
+          title: row.title,
+          message: row.summary,
+          status: LineNotificationStatus.SENT,
+          retryCount: attempts - 1,
+        })),
+      }),
+    ]);
+    return sent;
+  }
+
+  private async recordFailure(
+    row: { id: number; lineUserIds: string[]; type: string; title: string; summary: string; maxAttempts: number },
+    attempts: number,
+    error: DeliveryError,
+  ) {
+    // Other 4xx responses (bad payload, blocked bot, ...) will fail the same way again
+    const permanent =
+      error.statusCode !== undefined &&
+      error.statusCode >= 400 &&
+      error.statusCode < 500 &&
+      error.statusCode !== 429;
+
+    if (permanent || attempts >= row.maxAttempts) {
+      this.logger.error(`LINE outbox #${row.id} dead after ${attempts} attempt(s): ${error.message}`);
+
+      const [dead] = await this.prisma.$transaction([
+        this.prisma.lineOutboxMessage.update({
+          where: { id: row.id },
+          data: { status: LineOutboxStatus.DEAD, attempts, lastError: error.message },
+        }),
+        this.prisma.lineNotification.createMany({
+          data: row.lineUserIds.map((lineUserId) => ({
+            lineUserId,
+            type: row.type,
+            title: row.title,
+            message: row.summary,
+            status: LineNotificationStatus.FAILED,
+            retryCount: attempts,
+            errorMessage: error.message,
+          })),
+        }),
+      ]);
+      return dead;
+    }
+
+    const delayMs = error.retryAfterMs ?? Math.min(BASE_DELAY_MS * 2 ** (attempts - 1), MAX_DELAY_MS);
+    this.logger.warn(
+      `LINE outbox #${row.id} attempt ${attempts} failed (${error.message}); retry in ${Math.round(delayMs / 1000)}s`,
+    );
+
+    return this.prisma.lineOutboxMessage.update({
+      where: { id: row.id },
+      data: {
+        status: LineOutboxStatus.PENDING,
+        attempts,
+        lastError: error.message,
+        nextAttemptAt: new Date(Date.now() + delayMs),
+      },
+    });
+  }
+
+  /**
+   * Status code and Retry-After from either LINE SDK error shape (axios or fetch based)
+   */
+  private describeError(err: any): DeliveryError {
+    const statusCode: number | undefined = err?.statusCode ?? err?.status;
+    const headers = err?.originalError?.response?.headers ?? err?.headers;
+    const retryAfter =
+      typeof headers?.get === 'function' ? headers.get('retry-after') : headers?.['retry-after'];
+    const retryAfterSeconds = retryAfter !== undefined && retryAfter !== null ? Number(retryAfter) : NaN;
+
+    return {
+      message: [statusCode, err?.message || String(err)].filter(Boolean).join(' '),
+      statusCode,
+      retryAfterMs: Number.isFinite(retryAfterSeconds) ? retryAfterSeconds * 1000 : undefined,
+    };
+  }
+
+  /* =======================
+     ADMIN API
+  ======================= */
+
+  async findAll(params: { status?: LineOutboxStatus; limit?: number } = {}) {
+    return this.prisma.lineOutboxMessage.findMany({
+      where: params.status ? { status: params.status } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: params.limit ?? 50,
+    });
+  }
+
+  async findOne(id: number) {
+    const row = await this.prisma.lineOutboxMessage.findUnique({ where: { id } });
+    if (!row) throw new NotFoundException(`LINE outbox message #${id} not found`);
+    return row;
+  }
+
+  /**
+   * Give a dead message a fresh set of attempts, starting now
+   */
+  async replay(id: number) {
+    const row = await this.findOne(id);
+    if (row.status !== LineOutboxStatus.DEAD) {
+      throw new BadRequestException(`Only DEAD messages can be replayed (#${id} is ${row.status})`);
+    }
+
+    await this.prisma.lineOutboxMessage.update({
+      where: { id },
+      data: { status: LineOutboxStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+    return (await this.deliver(id)) ?? this.findOne(id);
+  }
+
+  async replayAllDead() {
+    const { count } = await this.prisma.lineOutboxMessage.updateMany({
+      where: { status: LineOutboxStatus.DEAD },
+      data: { status: LineOutboxStatus.PENDING, attempts: 0, nextAttemptAt: new Date(), lastError: null },
+    });
+    return { requeued: count };
+  }
+}
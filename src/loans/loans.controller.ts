@@ -21,8 +21,11 @@ export class LoansController {
         userId,
         borrowerName: body.borrowerName,
         borrowerDepartment: body.borrowerDepartment,
+        departmentId: parseInt(body.departmentId, 10) || undefined,
         borrowerPhone: body.borrowerPhone,
         borrowerLineId: body.borrowerLineId,
+        stockItemId: parseInt(body.stockItemId, 10) || undefined,
+        assetId: parseInt(body.assetId, 10) || undefined,
       });
     } catch (error: any) {
       throw new BadRequestException(error.message);
@@ -94,7 +97,7 @@ export class LoansController {
   }
 
   @Put(':id')
-  async update(@Param('id') id: string, @Body() body: any) {
+  async update(@Param('id') id: string, @Body() body: any, @Request() req: any) {
     try {
       console.log(`PUT /api/loans/${id} - Received body:`, body);
       
@@ -107,9 +110,12 @@ export class LoansController {
         expectedReturnDate: body.expectedReturnDate,
         borrowerName: body.borrowerName,
         borrowerDepartment: body.borrowerDepartment,
+        departmentId: parseInt(body.departmentId, 10) || undefined,
         borrowerPhone: body.borrowerPhone,
         borrowerLineId: body.borrowerLineId,
-      });
+        // null unlinks the asset
+        assetId: body.assetId === null ? null : parseInt(body.assetId, 10) || undefined,
+      }, req.user?.id);
       
       console.log(`PUT /api/loans/${id} - Update successful:`, result);
       return result;
@@ -120,9 +126,9 @@ export class LoansController {
   }
 
   @Delete(':id')
-  async delete(@Param('id') id: string) {
+  async delete(@Param('id') id: string, @Request() req: any) {
     try {
-      return await this.loansService.delete(parseInt(id));
+      return await this.loansService.delete(parseInt(id), req.user?.id);
     } catch (error: any) {
       throw new BadRequestException(error.message);
     }
@@ -2,9 +2,13 @@ import { Module } from '@nestjs/common';
 import { LoansController } from './loans.controller';
 import { LoansService } from './loans.service';
 import { PrismaModule } from '../prisma/prisma.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { NotificationModule } from '../notification/notification.module';
+import { DepartmentsModule } from '../departments/departments.module';
+import { StockModule } from '../stock/stock.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, SchedulerModule, NotificationModule, DepartmentsModule, StockModule],
   controllers: [LoansController],
   providers: [LoansService],
   exports: [LoansService],
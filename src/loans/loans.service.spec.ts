@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { LoanStatus } from '@prisma/client';
+import { LoansService } from './loans.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import { DepartmentsService } from '../departments/departments.service';
+import { StockService } from '../stock/stock.service';
+
+describe('LoansService', () => {
+  let service: LoansService;
+  let prisma: any;
+  let stockService: { applyMovement: jest.Mock; checkReorderLevels: jest.Mock };
+
+  const loan = {
+    id: 4,
+    itemName: 'Projector',
+    quantity: 2,
+    status: LoanStatus.BORROWED,
+    stockItemId: 9,
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      stockItem: { findUnique: jest.fn().mockResolvedValue({ id: 9, name: 'Projector Epson' }) },
+      loan: {
+        create: jest.fn(async ({ data }: any) => ({ id: 4, ...data })),
+        findUnique: jest.fn().mockResolvedValue(loan),
+        update: jest.fn(async ({ data }: any) => ({ ...loan, ...data })),
+        delete: jest.fn().mockResolvedValue(loan),
+      },
+    };
+    prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+    stockService = { applyMovement: jest.fn(), checkReorderLevels: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        LoansService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SchedulerService, useValue: { register: jest.fn() } },
+        { provide: NotificationDispatcherService, useValue: { dispatch: jest.fn() } },
+        {
+          provide: DepartmentsService,
+          useValue: { resolve: jest.fn().mockResolvedValue({ departmentId: null, name: null }) },
+        },
+        { provide: StockService, useValue: stockService },
+      ],
+    }).compile();
+
+    service = module.get(LoansService);
+  });
+
+  it('should take lent units off the shelf', async () => {
+    const created = await service.create({
+      itemName: '',
+      quantity: 2,
+      expectedReturnDate: '2026-11-01',
+      userId: 3,
+      stockItemId: 9,
+    });
+
+    expect(created.itemName).toBe('Projector Epson');
+    expect(stockService.applyMovement).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ stockItemId: 9, type: 'OUT', quantity: -2, loanId: 4, userId: 3 }),
+    );
+    expect(stockService.checkReorderLevels).toHaveBeenCalledWith([9]);
+  });
+
+  it('should not touch stock for a loan without a stock item', async () => {
+    await service.create({ itemName: 'Own laptop', quantity: 1, expectedReturnDate: '2026-11-01', userId: 3 });
+
+    expect(stockService.applyMovement).not.toHaveBeenCalled();
+  });
+
+  it('should put returned units back on the shelf', async () => {
+    await service.update(4, { status: LoanStatus.RETURNED }, 5);
+
+    expect(stockService.applyMovement).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ type: 'IN', quantity: 2, reason: 'Returned from loan #4', userId: 5 }),
+    );
+  });
+
+  it('should write off lost units without changing the shelf quantity', async () => {
+    await service.update(4, { status: LoanStatus.LOST }, 5);
+
+    expect(stockService.applyMovement).toHaveBeenCalledTimes(1);
+    expect(stockService.applyMovement).toHaveBeenCalledWith(
+      prisma,
+      expect.objectContaining({ type: 'ADJUST', quantity: 0, loanId: 4 }),
+    );
+  });
+
+  it('should return units when an open loan is deleted, but not when it was lost', async () => {
+    await service.delete(4);
+    expect(stockService.applyMovement).toHaveBeenCalledWith(prisma, expect.objectContaining({ type: 'IN', quantity: 2 }));
+
+    stockService.applyMovement.mockClear();
+    prisma.loan.findUnique.mockResolvedValue({ ...loan, status: LoanStatus.LOST });
+    await service.delete(4);
+    expect(stockService.applyMovement).not.toHaveBeenCalled();
+  });
+});
@@ -1,9 +1,37 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { Loan, LoanStatus, Prisma, StockMovementType } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import { DepartmentsService } from '../departments/departments.service';
+import { StockService } from '../stock/stock.service';
+
+// Statuses whose units are not on the shelf; LOST units never come back unless found
+const OFF_SHELF_STATUSES: LoanStatus[] = [LoanStatus.BORROWED, LoanStatus.OVERDUE, LoanStatus.LOST];
 
 @Injectable()
-export class LoansService {
-  constructor(private prisma: PrismaService) {}
+export class LoansService implements OnModuleInit {
+  private readonly logger = new Logger(LoansService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private schedulerService: SchedulerService,
+    private dispatcherService: NotificationDispatcherService,
+    private departmentsService: DepartmentsService,
+    private stockService: StockService,
+  ) {}
+
+  async onModuleInit() {
+    await this.schedulerService.register({
+      name: 'loans.overdue-sweep',
+      description: 'Mark BORROWED loans past their expected return date as OVERDUE',
+      schedule: 'every:60',
+      handler: async () => {
+        const overdue = await this.checkOverdue();
+        return { marked: overdue.length };
+      },
+    });
+  }
 
   async create(data: {
     itemName: string;
@@ -13,29 +41,54 @@ export class LoansService {
     userId: number;
     borrowerName?: string;
     borrowerDepartment?: string;
+    departmentId?: number;
     borrowerPhone?: string;
     borrowerLineId?: string;
+    stockItemId?: number;
+    assetId?: number;
   }) {
-    return await this.prisma.loan.create({
-      data: {
-        itemName: data.itemName,
-        description: data.description || '',
-        quantity: data.quantity,
-        borrowDate: new Date(),
-        expectedReturnDate: new Date(data.expectedReturnDate),
-        status: 'BORROWED',
-        userId: data.userId,
-        borrowerName: data.borrowerName || '',
-        borrowerDepartment: data.borrowerDepartment || '',
-        borrowerPhone: data.borrowerPhone || '',
-        borrowerLineId: data.borrowerLineId || '',
-      },
-      include: {
-        borrowedBy: {
-          select: { id: true, name: true, email: true, department: true, phoneNumber: true, lineId: true },
+    const department = await this.departmentsService.resolve({
+      departmentId: data.departmentId,
+      name: data.borrowerDepartment,
+    });
+
+    const loan = await this.prisma.$transaction(async (tx) => {
+      const stockItem = data.stockItemId
+        ? await tx.stockItem.findUnique({ where: { id: data.stockItemId } })
+        : null;
+      if (data.stockItemId && !stockItem) throw new NotFoundException(`Stock item #${data.stockItemId} not found`);
+      const asset = data.assetId ? await tx.asset.findUnique({ where: { id: data.assetId } }) : null;
+      if (data.assetId && !asset) throw new NotFoundException(`Asset #${data.assetId} not found`);
+
+      const created = await tx.loan.create({
+        data: {
+          itemName: data.itemName || asset?.name || stockItem?.name || '',
+          description: data.description || '',
+          quantity: data.quantity,
+          borrowDate: new Date(),
+          expectedReturnDate: new Date(data.expectedReturnDate),
+          status: 'BORROWED',
+          userId: data.userId,
+          borrowerName: data.borrowerName || '',
+          borrowerDepartment: department.name || '',
+          departmentId: department.departmentId,
+          borrowerPhone: data.borrowerPhone || '',
+          borrowerLineId: data.borrowerLineId || '',
+          stockItemId: stockItem?.id ?? null,
+          assetId: asset?.id ?? null,
         },
-      },
+        include: {
+          borrowedBy: {
+            select: { id: true, name: true, email: true, department: true, phoneNumber: true, lineId: true },
+          },
+        },
+      });
+      await this.syncStock(tx, null, created, data.userId);
+      return created;
     });
+
+    if (loan.stockItemId) await this.stockService.checkReorderLevels([loan.stockItemId]);
+    return loan;
   }
 
   async findAll(userId?: number | null) {
@@ -73,9 +126,12 @@ export class LoansService {
       expectedReturnDate?: string;
       borrowerName?: string;
       borrowerDepartment?: string;
+      departmentId?: number;
       borrowerPhone?: string;
       borrowerLineId?: string;
+      assetId?: number | null;
     },
+    userId?: number,
   ) {
     console.log(`[LoansService.update] Starting update for loan ${id}`);
     console.log(`[LoansService.update] Input data:`, data);
@@ -88,22 +144,41 @@ export class LoansService {
     if (data.quantity !== undefined) updateData.quantity = data.quantity;
     if (data.expectedReturnDate !== undefined) updateData.expectedReturnDate = new Date(data.expectedReturnDate);
     if (data.borrowerName !== undefined) updateData.borrowerName = data.borrowerName;
-    if (data.borrowerDepartment !== undefined) updateData.borrowerDepartment = data.borrowerDepartment;
+    if (data.borrowerDepartment !== undefined || data.departmentId !== undefined) {
+      const department = await this.departmentsService.resolve({
+        departmentId: data.departmentId,
+        name: data.borrowerDepartment,
+      });
+      updateData.borrowerDepartment = department.name ?? '';
+      updateData.departmentId = department.departmentId;
+    }
     if (data.borrowerPhone !== undefined) updateData.borrowerPhone = data.borrowerPhone;
     if (data.borrowerLineId !== undefined) updateData.borrowerLineId = data.borrowerLineId;
+    if (data.assetId !== undefined) updateData.assetId = data.assetId;
 
     console.log(`[LoansService.update] Prepared updateData:`, JSON.stringify(updateData, null, 2));
 
     try {
-      const result = await this.prisma.loan.update({
-        where: { id },
-        data: updateData,
-        include: {
-          borrowedBy: {
-            select: { id: true, name: true, email: true, department: true, phoneNumber: true, lineId: true },
+      const result = await this.prisma.$transaction(async (tx) => {
+        const existing = await tx.loan.findUnique({ where: { id } });
+        if (!existing) throw new NotFoundException(`Loan #${id} not found`);
+        if (updateData.assetId && !(await tx.asset.findUnique({ where: { id: updateData.assetId } }))) {
+          throw new NotFoundException(`Asset #${updateData.assetId} not found`);
+        }
+
+        const updated = await tx.loan.update({
+          where: { id },
+          data: updateData,
+          include: {
+            borrowedBy: {
+              select: { id: true, name: true, email: true, department: true, phoneNumber: true, lineId: true },
+            },
           },
-        },
+        });
+        await this.syncStock(tx, existing, updated, userId);
+        return updated;
       });
+      if (result.stockItemId) await this.stockService.checkReorderLevels([result.stockItemId]);
 
       console.log(`[LoansService.update] Loan ${id} updated successfully:`, JSON.stringify(result, null, 2));
       return result;
@@ -130,16 +205,25 @@ export class LoansService {
         where: { id: loan.id },
         data: { status: 'OVERDUE' },
       });
+
+      // Each loan is marked only once, so the borrower is reminded once
+      await this.dispatcherService
+        .dispatch({ type: 'LOAN_OVERDUE', loanId: loan.id })
+        .catch((error) => this.logger.warn(`Overdue notify for loan #${loan.id} failed: ${error.message}`));
     }
 
     return overdueLoans;
   }
 
-  async delete(id: number) {
+  async delete(id: number, userId?: number) {
     console.log(`[LoansService.delete] Deleting loan ${id}`);
     try {
-      const result = await this.prisma.loan.delete({
-        where: { id },
+      const result = await this.prisma.$transaction(async (tx) => {
+        const existing = await tx.loan.findUnique({ where: { id } });
+        if (!existing) throw new NotFoundException(`Loan #${id} not found`);
+
+        await this.syncStock(tx, existing, null, userId);
+        return tx.loan.delete({ where: { id } });
       });
       console.log(`[LoansService.delete] Loan ${id} deleted successfully`);
       return result;
@@ -148,4 +232,46 @@ export class LoansService {
       throw error;
     }
   }
+
+  /**
+   * Moves stock to match a loan change: units leave the shelf while the loan is out,
+   * come back when it is returned (or deleted), and a loss is written off in the ledger.
+   * `before` is null for a new loan, `after` is null for a deleted one.
+   */
+  private async syncStock(tx: Prisma.TransactionClient, before: Loan | null, after: Loan | null, userId?: number) {
+    const loan = (after ?? before)!;
+    if (!loan.stockItemId) return;
+
+    const offShelf = (l: Loan | null) => (l && OFF_SHELF_STATUSES.includes(l.status) ? l.quantity : 0);
+    // Deleting the record of a lost item does not bring the item back
+    const offShelfAfter = after ? offShelf(after) : before?.status === LoanStatus.LOST ? before.quantity : 0;
+    const change = offShelf(before) - offShelfAfter;
+
+    if (change !== 0) {
+      await this.stockService.applyMovement(tx, {
+        stockItemId: loan.stockItemId,
+        type: change > 0 ? StockMovementType.IN : StockMovementType.OUT,
+        quantity: change,
+        userId,
+        reason:
+          change < 0
+            ? `Lent out on loan #${loan.id}`
+            : after?.status === LoanStatus.RETURNED
+              ? `Returned from loan #${loan.id}`
+              : `Released from loan #${loan.id}`,
+        loanId: after ? loan.id : null,
+      });
+    }
+
+    if (after?.status === LoanStatus.LOST && before?.status !== LoanStatus.LOST) {
+      await this.stockService.applyMovement(tx, {
+        stockItemId: loan.stockItemId,
+        type: StockMovementType.ADJUST,
+        quantity: 0,
+        userId,
+        reason: `Written off: ${after.quantity} unit(s) lost on loan #${loan.id}`,
+        loanId: loan.id,
+      });
+    }
+  }
 }
@@ -0,0 +1,36 @@
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Minimal branded HTML wrapper shared by notification and digest emails.
+ * `bodyHtml` is trusted markup; use `renderTextEmail` for plain text.
+ */
+export function renderEmailLayout(title: string, bodyHtml: string, actionUrl?: string) {
+  const link = actionUrl
+    ? `<p style="margin-top:24px"><a href="${escapeHtml(actionUrl)}" style="background:#2563EB;color:#fff;padding:10px 18px;border-radius:6px;text-decoration:none">เปิดในระบบ</a></p>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html><body style="font-family:Tahoma,Arial,sans-serif;background:#F1F5F9;padding:24px;color:#334155">
+<div style="max-width:640px;margin:0 auto;background:#fff;border-radius:8px;padding:24px">
+<h2 style="margin-top:0;color:#0F172A">${escapeHtml(title)}</h2>
+${bodyHtml}
+${link}
+<p style="margin-top:32px;font-size:12px;color:#94A3B8">IT Helpdesk - ข้อความนี้ส่งโดยระบบอัตโนมัติ</p>
+</div>
+</body></html>`;
+}
+
+export function renderTextEmail(title: string, message: string, actionUrl?: string) {
+  const body = message
+    .split('\n')
+    .map((line) => `<p style="margin:4px 0">${escapeHtml(line)}</p>`)
+    .join('');
+  return renderEmailLayout(title, body, actionUrl);
+}
+
+export { escapeHtml };
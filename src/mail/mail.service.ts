@@ -0,0 +1,67 @@
+import { Injectable, Logger } from '@nestjs/common';
+import * as nodemailer from 'nodemailer';
+import type { Transporter } from 'nodemailer';
+
+// Placeholder addresses given to accounts created from LINE logins
+const PLACEHOLDER_EMAIL_DOMAIN = '@repair-system.local';
+
+export interface MailMessage {
+  to: string | string[];
+  subject: string;
+  html: string;
+  text?: string;
+}
+
+/**
+ * SMTP mail. Disabled when SMTP_HOST is not set; for local testing point it at a
+ * catcher such as MailHog or smtp4dev (SMTP_HOST=localhost SMTP_PORT=1025).
+ */
+@Injectable()
+export class MailService {
+  private readonly logger = new Logger(MailService.name);
+  private readonly from = process.env.MAIL_FROM || 'IT Helpdesk <no-reply@localhost>';
+  private readonly transporter?: Transporter;
+
+  constructor() {
+    if (!process.env.SMTP_HOST) {
+      this.logger.log('SMTP_HOST not set, email delivery disabled');
+      return;
+    }
+
+    this.transporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST,
+      port: parseInt(process.env.SMTP_PORT || '587', 10),
+      secure: process.env.SMTP_SECURE === 'true',
+      auth: process.env.SMTP_USER
+        ? { user: process.env.SMTP_USER, pass: process.env.SMTP_PASS }
+        : undefined,
+    });
+  }
+
+  isConfigured() {
+    return !!this.transporter;
+  }
+
+  /**
+   * False for empty and placeholder addresses that nobody reads
+   */
+  isDeliverable(address: string | null | undefined): address is string {
+    return !!address && !address.endsWith(PLACEHOLDER_EMAIL_DOMAIN);
+  }
+
+  async send(mail: MailMessage) {
+    if (!this.transporter) {
+      throw new Error('SMTP is not configured');
+    }
+
+    const info = await this.transporter.sendMail({
+      from: this.from,
+      to: mail.to,
+      subject: mail.subject,
+      html: mail.html,
+      text: mail.text,
+    });
+    this.logger.log(`Mail "${mail.subject}" sent (${info.messageId})`);
+    return { messageId: info.messageId as string };
+  }
+}
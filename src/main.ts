@@ -21,7 +21,12 @@ async function bootstrap() {
   }));
 
   // PERFORMANCE: Enable Gzip compression
-  app.use(compression());
+  // (not for Server-Sent Events, which gzip would buffer instead of flushing per event)
+  app.use(compression({
+    filter: (req, res) =>
+      !String(res.getHeader('Content-Type') ?? '').startsWith('text/event-stream') &&
+      compression.filter(req, res),
+  }));
 
   // Reduced body size limit for security (was 50mb, now 10mb)
   app.use(express.json({ limit: '10mb' }));
@@ -0,0 +1,76 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MaintenanceIntervalUnit, ProblemCategory, UrgencyLevel } from '@prisma/client';
+
+export class CreateMaintenancePlanDto {
+  // Becomes the title of every generated ticket, e.g. "ล้างแอร์ประจำไตรมาส"
+  @IsString()
+  @MaxLength(200)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string | null;
+
+  @IsOptional()
+  @IsEnum(ProblemCategory)
+  problemCategory?: ProblemCategory;
+
+  @IsOptional()
+  @IsEnum(UrgencyLevel)
+  urgency?: UrgencyLevel;
+
+  // First occurrence, including the time of day the work is scheduled for
+  @IsDateString()
+  startDate: string;
+
+  @IsEnum(MaintenanceIntervalUnit)
+  intervalUnit: MaintenanceIntervalUnit;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  intervalCount?: number;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  @Max(90)
+  leadDays?: number;
+
+  @IsOptional()
+  @IsBoolean()
+  active?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  assetIds?: number[];
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  locations?: string[];
+
+  // Technicians pre-assigned to every generated ticket
+  @IsOptional()
+  @IsArray()
+  @ArrayUnique()
+  @IsInt({ each: true })
+  assigneeIds?: number[];
+}
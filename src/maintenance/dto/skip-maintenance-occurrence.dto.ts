@@ -0,0 +1,11 @@
+import { IsDateString, IsOptional, IsString } from 'class-validator';
+
+export class SkipMaintenanceOccurrenceDto {
+  // Must be one of the plan's occurrences, as returned by the preview
+  @IsDateString()
+  scheduledAt: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
@@ -0,0 +1,50 @@
+import { MaintenanceIntervalUnit } from '@prisma/client';
+import { isOccurrence, occurrenceAt, occurrencesFrom } from './maintenance-recurrence';
+
+describe('maintenance-recurrence', () => {
+  const monthly = (startDate: string, intervalCount = 1) => ({
+    startDate: new Date(startDate),
+    intervalUnit: MaintenanceIntervalUnit.MONTH,
+    intervalCount,
+  });
+
+  it('should keep month-end plans on the last day of shorter months', () => {
+    // 09:00 Bangkok on 31 January
+    const rule = monthly('2026-01-31T02:00:00.000Z');
+
+    expect(occurrenceAt(rule, 1)).toEqual(new Date('2026-02-28T02:00:00.000Z'));
+    expect(occurrenceAt(rule, 2)).toEqual(new Date('2026-03-31T02:00:00.000Z'));
+  });
+
+  it('should step months on the Bangkok calendar date', () => {
+    // 03:00 Bangkok on 1 February is still 31 January in UTC
+    const rule = monthly('2026-01-31T20:00:00.000Z');
+
+    expect(occurrenceAt(rule, 1)).toEqual(new Date('2026-02-28T20:00:00.000Z'));
+  });
+
+  it('should list the next occurrences of a quarterly plan', () => {
+    const rule = monthly('2026-01-15T02:00:00.000Z', 3);
+
+    expect(occurrencesFrom(rule, new Date('2026-05-01T00:00:00.000Z'), 2)).toEqual([
+      new Date('2026-07-15T02:00:00.000Z'),
+      new Date('2026-10-15T02:00:00.000Z'),
+    ]);
+  });
+
+  it('should start from the first occurrence for a plan that has not begun', () => {
+    const rule = { startDate: new Date('2026-12-01T02:00:00.000Z'), intervalUnit: MaintenanceIntervalUnit.WEEK, intervalCount: 2 };
+
+    expect(occurrencesFrom(rule, new Date('2026-10-19T00:00:00.000Z'), 2)).toEqual([
+      new Date('2026-12-01T02:00:00.000Z'),
+      new Date('2026-12-15T02:00:00.000Z'),
+    ]);
+  });
+
+  it('should recognise occurrence dates', () => {
+    const rule = monthly('2026-01-15T02:00:00.000Z', 3);
+
+    expect(isOccurrence(rule, new Date('2026-04-15T02:00:00.000Z'))).toBe(true);
+    expect(isOccurrence(rule, new Date('2026-05-15T02:00:00.000Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { MaintenanceIntervalUnit } from '@prisma/client';
+
+/**
+ * Occurrence k of a plan is startDate + k * intervalCount units. Each one is computed
+ * from the start date, so a plan starting on the 31st stays on month-ends instead of
+ * drifting to the 28th after February.
+ */
+export interface MaintenanceRecurrence {
+  startDate: Date;
+  intervalUnit: MaintenanceIntervalUnit;
+  intervalCount: number;
+}
+
+// Thailand has no DST, so a fixed offset is enough
+const LOCAL_OFFSET_MINUTES = 7 * 60;
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export function occurrenceAt(rule: MaintenanceRecurrence, index: number): Date {
+  const start = rule.startDate.getTime();
+  const steps = index * rule.intervalCount;
+
+  if (rule.intervalUnit === MaintenanceIntervalUnit.DAY) return new Date(start + steps * DAY);
+  if (rule.intervalUnit === MaintenanceIntervalUnit.WEEK) return new Date(start + steps * 7 * DAY);
+
+  // Month arithmetic on the local calendar date, keeping the local time of day
+  const local = new Date(start + LOCAL_OFFSET_MINUTES * MINUTE);
+  const monthIndex = local.getUTCMonth() + steps;
+  const year = local.getUTCFullYear() + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const shifted = Date.UTC(
+    year,
+    month,
+    Math.min(local.getUTCDate(), daysInMonth),
+    local.getUTCHours(),
+    local.getUTCMinutes(),
+    local.getUTCSeconds(),
+  );
+  return new Date(shifted - LOCAL_OFFSET_MINUTES * MINUTE);
+}
+
+/**
+ * The next `count` occurrences at or after `from`
+ */
+export function occurrencesFrom(rule: MaintenanceRecurrence, from: Date, count: number): Date[] {
+  // Start from a lower bound on the index (no period is longer than 31 days per unit)
+  const maxPeriod = (rule.intervalUnit === MaintenanceIntervalUnit.MONTH ? 31 : 1) * DAY;
+  const unitDays = rule.intervalUnit === MaintenanceIntervalUnit.WEEK ? 7 : 1;
+  const elapsed = from.getTime() - rule.startDate.getTime();
+  let index = Math.max(0, Math.floor(elapsed / (maxPeriod * unitDays * rule.intervalCount)) - 1);
+
+  while (occurrenceAt(rule, index) < from) index++;
+
+  return Array.from({ length: count }, (_, i) => occurrenceAt(rule, index + i));
+}
+
+export function isOccurrence(rule: MaintenanceRecurrence, date: Date): boolean {
+  return occurrencesFrom(rule, date, 1)[0].getTime() === date.getTime();
+}
@@ -0,0 +1,78 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Put,
+  Delete,
+  Body,
+  Param,
+  Query,
+  Req,
+  ParseIntPipe,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { MaintenanceService } from './maintenance.service';
+import { CreateMaintenancePlanDto } from './dto/create-maintenance-plan.dto';
+import { UpdateMaintenancePlanDto } from './dto/update-maintenance-plan.dto';
+import { SkipMaintenanceOccurrenceDto } from './dto/skip-maintenance-occurrence.dto';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('api/maintenance-plans')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class MaintenanceController {
+  constructor(private readonly maintenanceService: MaintenanceService) {}
+
+  @Get()
+  @Roles('ADMIN', 'IT')
+  async findAll() {
+    return this.maintenanceService.findAll();
+  }
+
+  @Get(':id')
+  @Roles('ADMIN', 'IT')
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.maintenanceService.findOne(id);
+  }
+
+  @Post()
+  @Roles('ADMIN')
+  async create(@Body() dto: CreateMaintenancePlanDto, @Req() req: any) {
+    return this.maintenanceService.create(dto, req.user.id);
+  }
+
+  @Put(':id')
+  @Roles('ADMIN')
+  async update(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateMaintenancePlanDto) {
+    return this.maintenanceService.update(id, dto);
+  }
+
+  @Delete(':id')
+  @Roles('ADMIN')
+  async remove(@Param('id', ParseIntPipe) id: number) {
+    return this.maintenanceService.remove(id);
+  }
+
+  @Get(':id/occurrences')
+  @Roles('ADMIN', 'IT')
+  async previewOccurrences(@Param('id', ParseIntPipe) id: number, @Query('count') count?: string) {
+    let value: number | undefined;
+    if (count !== undefined) {
+      value = parseInt(count, 10);
+      if (isNaN(value) || value < 1 || value > 52) throw new BadRequestException('count must be between 1 and 52');
+    }
+    return this.maintenanceService.previewOccurrences(id, value);
+  }
+
+  @Post(':id/occurrences/skip')
+  @Roles('ADMIN')
+  async skipOccurrence(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: SkipMaintenanceOccurrenceDto,
+    @Req() req: any,
+  ) {
+    return this.maintenanceService.skipOccurrence(id, dto, req.user.id);
+  }
+}
@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { MaintenanceController } from './maintenance.controller';
+import { MaintenanceService } from './maintenance.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+import { RepairsModule } from '../repairs/repairs.module';
+import { NotificationModule } from '../notification/notification.module';
+
+@Module({
+  imports: [PrismaModule, SchedulerModule, RepairsModule, NotificationModule],
+  controllers: [MaintenanceController],
+  providers: [MaintenanceService],
+})
+export class MaintenanceModule {}
@@ -0,0 +1,203 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { MaintenanceIntervalUnit, MaintenanceOccurrenceStatus } from '@prisma/client';
+import { MaintenanceService } from './maintenance.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { RepairsService } from '../repairs/repairs.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+
+describe('MaintenanceService', () => {
+  let service: MaintenanceService;
+  let prisma: any;
+  let repairsService: { create: jest.Mock };
+
+  // Monthly on the 15th at 09:00 Bangkok, tickets a week ahead
+  const plan = {
+    id: 2,
+    name: 'ตรวจตลับหมึกเครื่องพิมพ์',
+    description: null,
+    problemCategory: 'PERIPHERAL',
+    urgency: 'NORMAL',
+    startDate: new Date('2026-01-15T02:00:00.000Z'),
+    intervalUnit: MaintenanceIntervalUnit.MONTH,
+    intervalCount: 1,
+    leadDays: 7,
+    nextOccurrenceAt: new Date('2026-11-15T02:00:00.000Z'),
+    active: true,
+    locations: ['ห้องประชุม 1'],
+    assets: [
+      { id: 7, assetCode: 'PRN-01', name: 'HP LaserJet', location: 'ชั้น 2', departmentId: 3, status: 'IN_USE' },
+      { id: 8, assetCode: 'PRN-02', name: 'Old Canon', location: 'ชั้น 3', departmentId: 3, status: 'RETIRED' },
+    ],
+    assignees: [{ id: 11, name: 'ช่างเอ' }],
+    createdById: 1,
+    createdBy: { id: 1, name: 'Admin' },
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      maintenancePlan: {
+        findMany: jest.fn().mockResolvedValue([plan]),
+        findUnique: jest.fn().mockResolvedValue(plan),
+        update: jest.fn(),
+      },
+      maintenanceOccurrence: {
+        findUnique: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(async ({ data }: any) => ({ id: 30, ...data })),
+        upsert: jest.fn(async ({ create }: any) => create),
+        delete: jest.fn(),
+      },
+    };
+    repairsService = { create: jest.fn(async () => ({ id: 100, ticketCode: 'REP-1' })) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MaintenanceService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SchedulerService, useValue: { register: jest.fn() } },
+        { provide: RepairsService, useValue: repairsService },
+        { provide: NotificationDispatcherService, useValue: { dispatch: jest.fn().mockResolvedValue({}) } },
+      ],
+    }).compile();
+
+    service = module.get(MaintenanceService);
+  });
+
+  describe('generateDue', () => {
+    it('should wait until the occurrence is within its lead time', async () => {
+      const result = await service.generateDue(new Date('2026-11-07T00:00:00.000Z'));
+
+      expect(result.generated).toBe(0);
+      expect(repairsService.create).not.toHaveBeenCalled();
+    });
+
+    it('should create a pre-assigned ticket per active asset and location, then move on', async () => {
+      const result = await service.generateDue(new Date('2026-11-09T00:00:00.000Z'));
+
+      expect(result.generated).toBe(1);
+      expect(repairsService.create).toHaveBeenCalledTimes(2);
+      expect(repairsService.create).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ assetId: 7, location: 'ชั้น 2', scheduledAt: plan.nextOccurrenceAt }),
+        undefined,
+        { assigneeIds: [11], maintenanceOccurrenceId: 30 },
+      );
+      expect(repairsService.create).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ location: 'ห้องประชุม 1' }),
+        undefined,
+        expect.anything(),
+      );
+      expect(prisma.maintenancePlan.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { nextOccurrenceAt: new Date('2026-12-15T02:00:00.000Z') },
+      });
+    });
+
+    it('should pass over a skipped occurrence', async () => {
+      prisma.maintenanceOccurrence.findUnique.mockResolvedValue({ status: MaintenanceOccurrenceStatus.SKIPPED });
+
+      const result = await service.generateDue(new Date('2026-11-09T00:00:00.000Z'));
+
+      expect(result).toEqual({ plans: 1, generated: 0, skipped: 1 });
+      expect(repairsService.create).not.toHaveBeenCalled();
+      expect(prisma.maintenancePlan.update).toHaveBeenCalled();
+    });
+
+    it('should retry an occurrence whose tickets could not be created', async () => {
+      repairsService.create.mockRejectedValue(new Error('db down'));
+
+      await service.generateDue(new Date('2026-11-09T00:00:00.000Z'));
+
+      expect(prisma.maintenanceOccurrence.delete).toHaveBeenCalledWith({ where: { id: 30 } });
+      expect(prisma.maintenancePlan.update).not.toHaveBeenCalled();
+    });
+
+    it('should keep a partly generated occurrence and retry it on the next run', async () => {
+      repairsService.create
+        .mockResolvedValueOnce({ id: 100, ticketCode: 'REP-1' })
+        .mockRejectedValueOnce(new Error('db down'));
+
+      await service.generateDue(new Date('2026-11-09T00:00:00.000Z'));
+
+      expect(prisma.maintenanceOccurrence.delete).not.toHaveBeenCalled();
+      expect(prisma.maintenancePlan.update).not.toHaveBeenCalled();
+    });
+
+    it('should only create the tickets still missing from a partly generated occurrence', async () => {
+      prisma.maintenanceOccurrence.findUnique.mockResolvedValue({
+        id: 30,
+        status: MaintenanceOccurrenceStatus.GENERATED,
+        repairTickets: [{ assetId: 7, location: 'ชั้น 2' }],
+      });
+
+      const result = await service.generateDue(new Date('2026-11-09T00:00:00.000Z'));
+
+      expect(result.generated).toBe(1);
+      expect(prisma.maintenanceOccurrence.create).not.toHaveBeenCalled();
+      expect(repairsService.create).toHaveBeenCalledTimes(1);
+      expect(repairsService.create).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ location: 'ห้องประชุม 1' }),
+        undefined,
+        { assigneeIds: [11], maintenanceOccurrenceId: 30 },
+      );
+    });
+
+    it('should move past an occurrence whose tickets all exist', async () => {
+      prisma.maintenanceOccurrence.findUnique.mockResolvedValue({
+        id: 30,
+        status: MaintenanceOccurrenceStatus.GENERATED,
+        repairTickets: [
+          { assetId: 7, location: 'ชั้น 2' },
+          { assetId: null, location: 'ห้องประชุม 1' },
+        ],
+      });
+
+      const result = await service.generateDue(new Date('2026-11-09T00:00:00.000Z'));
+
+      expect(result).toEqual({ plans: 1, generated: 0, skipped: 1 });
+      expect(repairsService.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('skipOccurrence', () => {
+    it('should record a skip for a future occurrence', async () => {
+      const skipped = await service.skipOccurrence(2, { scheduledAt: '2026-12-15T02:00:00.000Z', reason: 'ปิดปีใหม่' }, 1);
+
+      expect(skipped).toEqual(
+        expect.objectContaining({ status: MaintenanceOccurrenceStatus.SKIPPED, skipReason: 'ปิดปีใหม่', skippedById: 1 }),
+      );
+    });
+
+    it('should reject a date that is not an occurrence', async () => {
+      await expect(service.skipOccurrence(2, { scheduledAt: '2026-12-16T02:00:00.000Z' }, 1)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject an occurrence whose tickets exist', async () => {
+      prisma.maintenanceOccurrence.findUnique.mockResolvedValue({ status: MaintenanceOccurrenceStatus.GENERATED });
+
+      await expect(service.skipOccurrence(2, { scheduledAt: '2026-11-15T02:00:00.000Z' }, 1)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  it('should preview skipped and planned occurrences in order', async () => {
+    prisma.maintenanceOccurrence.findMany.mockResolvedValue([
+      { scheduledAt: new Date('2026-12-15T02:00:00.000Z'), status: 'SKIPPED', skipReason: 'ปิดปีใหม่', repairTickets: [] },
+    ]);
+
+    const preview = await service.previewOccurrences(2, 3);
+
+    expect(preview.map((o) => [o.scheduledAt.toISOString(), o.status])).toEqual([
+      ['2026-11-15T02:00:00.000Z', 'PLANNED'],
+      ['2026-12-15T02:00:00.000Z', 'SKIPPED'],
+      ['2027-01-15T02:00:00.000Z', 'PLANNED'],
+    ]);
+  });
+});
@@ -0,0 +1,337 @@
+import { BadRequestException, Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import {
+  AssetStatus,
+  MaintenanceOccurrenceStatus,
+  Prisma,
+  Role,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import { RepairsService } from '../repairs/repairs.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import { CreateMaintenancePlanDto } from './dto/create-maintenance-plan.dto';
+import { UpdateMaintenancePlanDto } from './dto/update-maintenance-plan.dto';
+import { SkipMaintenanceOccurrenceDto } from './dto/skip-maintenance-occurrence.dto';
+import { isOccurrence, occurrencesFrom } from './maintenance-recurrence';
+
+const DAY = 24 * 60 * 60 * 1000;
+// Retired or lost machines are left out of generated rounds
+const INACTIVE_ASSET_STATUSES: AssetStatus[] = [AssetStatus.RETIRED, AssetStatus.LOST];
+
+const planInclude = {
+  assets: { select: { id: true, assetCode: true, name: true, location: true, departmentId: true, status: true } },
+  assignees: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+} as const;
+
+type PlanWithTargets = Prisma.MaintenancePlanGetPayload<{ include: typeof planInclude }>;
+
+@Injectable()
+export class MaintenanceService implements OnModuleInit {
+  private readonly logger = new Logger(MaintenanceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly schedulerService: SchedulerService,
+    private readonly repairsService: RepairsService,
+    private readonly dispatcherService: NotificationDispatcherService,
+  ) {}
+
+  async onModuleInit() {
+    await this.schedulerService.register({
+      name: 'maintenance.generate-tickets',
+      description: 'Create repair tickets for preventive maintenance occurrences within their lead time',
+      schedule: 'every:60',
+      handler: () => this.generateDue(),
+    });
+  }
+
+  async findAll() {
+    return this.prisma.maintenancePlan.findMany({
+      include: planInclude,
+      orderBy: [{ active: 'desc' }, { nextOccurrenceAt: 'asc' }],
+    });
+  }
+
+  async findOne(id: number) {
+    const plan = await this.prisma.maintenancePlan.findUnique({ where: { id }, include: planInclude });
+    if (!plan) throw new NotFoundException(`Maintenance plan #${id} not found`);
+    return plan;
+  }
+
+  async create(dto: CreateMaintenancePlanDto, userId: number) {
+    if (!dto.assetIds?.length && !dto.locations?.length) {
+      throw new BadRequestException('A maintenance plan needs at least one asset or location');
+    }
+    await this.assertTechnicians(dto.assigneeIds);
+
+    const rule = {
+      startDate: new Date(dto.startDate),
+      intervalUnit: dto.intervalUnit,
+      intervalCount: dto.intervalCount ?? 1,
+    };
+
+    try {
+      return await this.prisma.maintenancePlan.create({
+        data: {
+          name: dto.name,
+          description: dto.description ?? null,
+          problemCategory: dto.problemCategory,
+          urgency: dto.urgency,
+          ...rule,
+          leadDays: dto.leadDays,
+          active: dto.active,
+          nextOccurrenceAt: occurrencesFrom(rule, new Date(), 1)[0],
+          locations: this.cleanLocations(dto.locations),
+          assets: { connect: (dto.assetIds ?? []).map((id) => ({ id })) },
+          assignees: { connect: (dto.assigneeIds ?? []).map((id) => ({ id })) },
+          createdById: userId,
+        },
+        include: planInclude,
+      });
+    } catch (error: any) {
+      throw this.mapConnectError(error);
+    }
+  }
+
+  async update(id: number, dto: UpdateMaintenancePlanDto) {
+    const existing = await this.findOne(id);
+    await this.assertTechnicians(dto.assigneeIds);
+
+    const assetIds = dto.assetIds ?? existing.assets.map((a) => a.id);
+    const locations = dto.locations !== undefined ? this.cleanLocations(dto.locations) : existing.locations;
+    if (!assetIds.length && !locations.length) {
+      throw new BadRequestException('A maintenance plan needs at least one asset or location');
+    }
+
+    const data: Prisma.MaintenancePlanUpdateInput = {
+      name: dto.name,
+      description: dto.description,
+      problemCategory: dto.problemCategory,
+      urgency: dto.urgency,
+      leadDays: dto.leadDays,
+      active: dto.active,
+      ...(dto.locations !== undefined && { locations }),
+      ...(dto.assetIds !== undefined && { assets: { set: assetIds.map((assetId) => ({ id: assetId })) } }),
+      ...(dto.assigneeIds !== undefined && { assignees: { set: dto.assigneeIds.map((userId) => ({ id: userId })) } }),
+    };
+
+    // A new recurrence starts over from today; occurrences already generated keep their tickets
+    if (dto.startDate !== undefined || dto.intervalUnit !== undefined || dto.intervalCount !== undefined) {
+      const rule = {
+        startDate: dto.startDate !== undefined ? new Date(dto.startDate) : existing.startDate,
+        intervalUnit: dto.intervalUnit ?? existing.intervalUnit,
+        intervalCount: dto.intervalCount ?? existing.intervalCount,
+      };
+      Object.assign(data, rule, { nextOccurrenceAt: occurrencesFrom(rule, new Date(), 1)[0] });
+    }
+
+    try {
+      return await this.prisma.maintenancePlan.update({ where: { id }, data, include: planInclude });
+    } catch (error: any) {
+      throw this.mapConnectError(error);
+    }
+  }
+
+  /**
+   * Generated tickets stay and lose the link to the plan
+   */
+  async remove(id: number) {
+    await this.findOne(id);
+    return this.prisma.maintenancePlan.delete({ where: { id } });
+  }
+
+  /* =======================
+     OCCURRENCES
+  ======================= */
+
+  /**
+   * Upcoming occurrences: those already generated (with their tickets) or skipped,
+   * followed by the planned ones still to come
+   */
+  async previewOccurrences(id: number, count = 6) {
+    const plan = await this.findOne(id);
+    const now = new Date();
+
+    const recorded = await this.prisma.maintenanceOccurrence.findMany({
+      where: { planId: id, scheduledAt: { gte: now } },
+      include: { repairTickets: { select: { id: true, ticketCode: true, status: true } } },
+      orderBy: { scheduledAt: 'asc' },
+    });
+    const byTime = new Map(recorded.map((o) => [o.scheduledAt.getTime(), o]));
+
+    const planned = plan.active ? occurrencesFrom(plan, plan.nextOccurrenceAt, count) : [];
+    const times = [...new Set([...byTime.keys(), ...planned.map((d) => d.getTime())])].sort((a, b) => a - b);
+
+    return times.slice(0, count).map((time) => {
+      const occurrence = byTime.get(time);
+      return {
+        scheduledAt: new Date(time),
+        ticketsCreatedAt: new Date(time - plan.leadDays * DAY),
+        status: occurrence?.status ?? 'PLANNED',
+        skipReason: occurrence?.skipReason ?? null,
+        repairTickets: occurrence?.repairTickets ?? [],
+      };
+    });
+  }
+
+  async skipOccurrence(id: number, dto: SkipMaintenanceOccurrenceDto, userId: number) {
+    const plan = await this.findOne(id);
+    const scheduledAt = new Date(dto.scheduledAt);
+
+    if (!isOccurrence(plan, scheduledAt)) {
+      throw new BadRequestException(`${dto.scheduledAt} is not an occurrence of maintenance plan #${id}`);
+    }
+
+    const existing = await this.prisma.maintenanceOccurrence.findUnique({
+      where: { planId_scheduledAt: { planId: id, scheduledAt } },
+    });
+    if (existing?.status === MaintenanceOccurrenceStatus.GENERATED) {
+      throw new BadRequestException('Tickets for this occurrence were already created; cancel them instead');
+    }
+    if (!existing && scheduledAt < plan.nextOccurrenceAt) {
+      throw new BadRequestException('This occurrence has already passed');
+    }
+
+    return this.prisma.maintenanceOccurrence.upsert({
+      where: { planId_scheduledAt: { planId: id, scheduledAt } },
+      create: {
+        planId: id,
+        scheduledAt,
+        status: MaintenanceOccurrenceStatus.SKIPPED,
+        skipReason: dto.reason ?? null,
+        skippedById: userId,
+      },
+      update: { skipReason: dto.reason ?? null, skippedById: userId },
+    });
+  }
+
+  /**
+   * Create tickets for every active plan whose next occurrence is within its lead time
+   */
+  async generateDue(now = new Date()) {
+    const plans = await this.prisma.maintenancePlan.findMany({
+      where: { active: true, nextOccurrenceAt: { lte: new Date(now.getTime() + 90 * DAY) } },
+      include: planInclude,
+    });
+
+    let generated = 0;
+    let skipped = 0;
+
+    for (const plan of plans) {
+      let next = plan.nextOccurrenceAt;
+
+      while (next.getTime() - plan.leadDays * DAY <= now.getTime()) {
+        try {
+          const created = await this.generateOccurrence(plan, next);
+          if (created) generated++;
+          else skipped++;
+        } catch (error: any) {
+          // Leave nextOccurrenceAt here so the next run retries this occurrence
+          this.logger.error(`Maintenance plan #${plan.id} failed at ${next.toISOString()}: ${error.message}`);
+          break;
+        }
+        next = occurrencesFrom(plan, new Date(next.getTime() + 1), 1)[0];
+      }
+
+      if (next.getTime() !== plan.nextOccurrenceAt.getTime()) {
+        await this.prisma.maintenancePlan.update({ where: { id: plan.id }, data: { nextOccurrenceAt: next } });
+      }
+    }
+
+    return { plans: plans.length, generated, skipped };
+  }
+
+  /**
+   * One ticket per target. A target counts as done once a ticket of the occurrence exists
+   * for it, so a run that failed part-way is finished by the next one. Returns false when
+   * the occurrence was skipped or already complete.
+   */
+  private async generateOccurrence(plan: PlanWithTargets, scheduledAt: Date) {
+    const existing = await this.prisma.maintenanceOccurrence.findUnique({
+      where: { planId_scheduledAt: { planId: plan.id, scheduledAt } },
+      include: { repairTickets: { select: { assetId: true, location: true } } },
+    });
+    if (existing?.status === MaintenanceOccurrenceStatus.SKIPPED) return false;
+
+    const done = existing?.repairTickets ?? [];
+    const occurrence =
+      existing ??
+      (await this.prisma.maintenanceOccurrence.create({
+        data: { planId: plan.id, scheduledAt, status: MaintenanceOccurrenceStatus.GENERATED },
+      }));
+
+    const base = {
+      reporterName: plan.createdBy.name,
+      problemCategory: plan.problemCategory,
+      problemDescription: plan.description,
+      urgency: plan.urgency,
+      scheduledAt,
+      notes: `สร้างอัตโนมัติจากแผนบำรุงรักษา #${plan.id}`,
+    };
+    const targets = [
+      ...plan.assets
+        .filter((asset) => !INACTIVE_ASSET_STATUSES.includes(asset.status))
+        .filter((asset) => !done.some((t) => t.assetId === asset.id))
+        .map((asset) => ({
+          ...base,
+          problemTitle: `${plan.name} - ${asset.name} (${asset.assetCode})`,
+          location: asset.location || 'ไม่ได้ระบุ',
+          departmentId: asset.departmentId ?? undefined,
+          assetId: asset.id,
+        })),
+      ...plan.locations
+        .filter((location) => !done.some((t) => !t.assetId && t.location === location))
+        .map((location) => ({ ...base, problemTitle: `${plan.name} - ${location}`, location })),
+    ];
+    if (existing && targets.length === 0) return false;
+
+    const assigneeIds = plan.assignees.map((u) => u.id);
+    let createdCount = 0;
+    try {
+      for (const dto of targets) {
+        const ticket = await this.repairsService.create(plan.createdById, dto, undefined, {
+          assigneeIds,
+          maintenanceOccurrenceId: occurrence.id,
+        });
+        createdCount++;
+
+        if (assigneeIds.length > 0) {
+          this.dispatcherService
+            .dispatch({ type: 'REPAIR_ASSIGNED', ticketId: ticket.id, technicianIds: assigneeIds, action: 'ASSIGNED' })
+            .catch(() => this.logger.warn(`Technician notify failed for ${ticket.ticketCode}`));
+        }
+      }
+    } catch (error) {
+      // Nothing was created yet, so let the next run start this occurrence afresh
+      if (!existing && createdCount === 0) await this.prisma.maintenanceOccurrence.delete({ where: { id: occurrence.id } });
+      throw error;
+    }
+
+    this.logger.log(`Maintenance plan #${plan.id}: ${targets.length} ticket(s) for ${scheduledAt.toISOString()}`);
+    return true;
+  }
+
+  private async assertTechnicians(ids?: number[]) {
+    if (!ids?.length) return;
+    const technicians = await this.prisma.user.findMany({
+      where: { id: { in: ids }, role: { in: [Role.IT, Role.ADMIN] } },
+      select: { id: true },
+    });
+    if (technicians.length !== new Set(ids).size) {
+      throw new BadRequestException('Assignees must be IT or ADMIN users');
+    }
+  }
+
+  private cleanLocations(locations?: string[]) {
+    return [...new Set((locations ?? []).map((l) => l.trim()).filter(Boolean))];
+  }
+
+  private mapConnectError(error: any) {
+    // connect/set to a missing asset
+    if (error.code === 'P2025') {
+      return new BadRequestException('One or more assets were not found');
+    }
+    return error;
+  }
+}
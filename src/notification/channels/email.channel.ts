@@ -0,0 +1,45 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationChannelType, NotificationDeliveryStatus } from '@prisma/client';
+import { MailService } from '../../mail/mail.service';
+import { NotificationPreferencesService } from '../notification-preferences.service';
+import { renderTextEmail } from '../../mail/email-template';
+import {
+  ChannelResult,
+  NotificationChannel,
+  NotificationContent,
+  NotificationRecipient,
+} from '../notification-channel.interface';
+
+@Injectable()
+export class EmailChannel implements NotificationChannel {
+  readonly name = NotificationChannelType.EMAIL;
+  private readonly frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+  constructor(
+    private readonly mailService: MailService,
+    private readonly preferencesService: NotificationPreferencesService,
+  ) {}
+
+  async send(recipient: NotificationRecipient, content: NotificationContent): Promise<ChannelResult> {
+    if (!this.mailService.isConfigured()) {
+      return { status: NotificationDeliveryStatus.SKIPPED, detail: 'SMTP not configured' };
+    }
+    if (!this.mailService.isDeliverable(recipient.email)) {
+      return { status: NotificationDeliveryStatus.SKIPPED, detail: 'No email address' };
+    }
+
+    const decision = await this.preferencesService.check(recipient.id, content.type, this.name, content.urgency);
+    if (!decision.deliver) {
+      return { status: NotificationDeliveryStatus.SKIPPED, detail: decision.reason };
+    }
+
+    const actionUrl = content.actionUrl ? `${this.frontendUrl}${content.actionUrl}` : undefined;
+    const { messageId } = await this.mailService.send({
+      to: recipient.email,
+      subject: content.email?.subject ?? content.title,
+      html: content.email?.html ?? renderTextEmail(content.title, content.message, actionUrl),
+      text: `${content.message}${actionUrl ? `\n\n${actionUrl}` : ''}`,
+    });
+    return { status: NotificationDeliveryStatus.SENT, detail: messageId };
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationChannelType, NotificationDeliveryStatus } from '@prisma/client';
+import { NotificationService } from '../notification.service';
+import {
+  ChannelResult,
+  NotificationChannel,
+  NotificationContent,
+  NotificationRecipient,
+} from '../notification-channel.interface';
+
+@Injectable()
+export class InAppChannel implements NotificationChannel {
+  readonly name = NotificationChannelType.IN_APP;
+
+  constructor(private readonly notificationService: NotificationService) {}
+
+  async send(recipient: NotificationRecipient, content: NotificationContent): Promise<ChannelResult> {
+    const notification = await this.notificationService.createNotification({
+      userId: recipient.id,
+      type: content.type,
+      title: content.title,
+      message: content.message,
+      ticketId: content.ticketId,
+      actionUrl: content.actionUrl,
+    });
+    if (!notification) {
+      return { status: NotificationDeliveryStatus.SKIPPED, detail: 'Muted by preferences' };
+    }
+    return { status: NotificationDeliveryStatus.SENT, detail: `notification #${notification.id}` };
+  }
+}
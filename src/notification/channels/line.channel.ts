@@ -0,0 +1,39 @@
+import { Injectable } from '@nestjs/common';
+import { NotificationChannelType, NotificationDeliveryStatus } from '@prisma/client';
+import { LineOANotificationService } from '../../line-oa/line-oa-notification.service';
+import {
+  ChannelResult,
+  NotificationChannel,
+  NotificationContent,
+  NotificationRecipient,
+} from '../notification-channel.interface';
+
+/**
+ * Goes through LineOANotificationService, so delivery is queued and retried by the outbox
+ */
+@Injectable()
+export class LineChannel implements NotificationChannel {
+  readonly name = NotificationChannelType.LINE;
+
+  constructor(private readonly lineNotificationService: LineOANotificationService) {}
+
+  async send(recipient: NotificationRecipient, content: NotificationContent): Promise<ChannelResult> {
+    const result: { success: boolean; reason?: string; outboxId?: number; status?: string } =
+      await this.lineNotificationService.sendNotification(recipient.id, {
+        type: content.event,
+        title: content.title,
+        message: content.message,
+        actionUrl: content.actionUrl,
+        richMessage: content.line,
+        notificationType: content.type,
+        urgency: content.urgency,
+      });
+
+    if (result.success) {
+      return { status: NotificationDeliveryStatus.SENT, detail: `outbox #${result.outboxId} ${result.status}` };
+    }
+    return result.reason
+      ? { status: NotificationDeliveryStatus.SKIPPED, detail: result.reason }
+      : { status: NotificationDeliveryStatus.FAILED, detail: 'LINE enqueue failed' };
+  }
+}
@@ -0,0 +1,37 @@
+import { Type } from 'class-transformer';
+import { IsArray, IsBoolean, IsEnum, IsOptional, Matches, ValidateNested } from 'class-validator';
+import { NotificationChannelType, NotificationDigestMode, NotificationType } from '@prisma/client';
+
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class ChannelPreferenceDto {
+  @IsEnum(NotificationType)
+  type: NotificationType;
+
+  @IsEnum(NotificationChannelType)
+  channel: NotificationChannelType;
+
+  @IsBoolean()
+  enabled: boolean;
+}
+
+export class UpdateNotificationPreferencesDto {
+  // null clears quiet hours
+  @IsOptional()
+  @Matches(HH_MM, { message: 'quietHoursStart must be HH:mm' })
+  quietHoursStart?: string | null;
+
+  @IsOptional()
+  @Matches(HH_MM, { message: 'quietHoursEnd must be HH:mm' })
+  quietHoursEnd?: string | null;
+
+  @IsOptional()
+  @IsEnum(NotificationDigestMode)
+  digestMode?: NotificationDigestMode;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ChannelPreferenceDto)
+  channels?: ChannelPreferenceDto[];
+}
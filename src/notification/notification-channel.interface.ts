@@ -0,0 +1,45 @@
+import {
+  NotificationChannelType,
+  NotificationDeliveryStatus,
+  NotificationType,
+  Role,
+  UrgencyLevel,
+} from '@prisma/client';
+import * as line from '@line/bot-sdk';
+
+export const NOTIFICATION_CHANNELS = 'NOTIFICATION_CHANNELS';
+
+export interface NotificationRecipient {
+  id: number;
+  name: string;
+  email: string;
+  role: Role;
+}
+
+/**
+ * An event rendered once, then handed to every channel. Channels fall back to
+ * title/message when they have no richer version of their own.
+ */
+export interface NotificationContent {
+  event: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  ticketId?: number;
+  actionUrl?: string;
+  urgency?: UrgencyLevel;
+  line?: line.Message;
+  email?: { subject: string; html: string };
+  // Limits delivery to these channels; every channel when omitted
+  channels?: NotificationChannelType[];
+}
+
+export interface ChannelResult {
+  status: NotificationDeliveryStatus;
+  detail?: string;
+}
+
+export interface NotificationChannel {
+  readonly name: NotificationChannelType;
+  send(recipient: NotificationRecipient, content: NotificationContent): Promise<ChannelResult>;
+}
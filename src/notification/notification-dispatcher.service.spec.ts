@@ -0,0 +1,112 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotificationChannelType, NotificationDeliveryStatus, Role } from '@prisma/client';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NOTIFICATION_CHANNELS, NotificationChannel } from './notification-channel.interface';
+import { EmailChannel } from './channels/email.channel';
+import { MailService } from '../mail/mail.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LineOANotificationService } from '../line-oa/line-oa-notification.service';
+
+describe('NotificationDispatcherService', () => {
+  let service: NotificationDispatcherService;
+  let prisma: any;
+  let mail: { isConfigured: jest.Mock; isDeliverable: jest.Mock; send: jest.Mock };
+  let inApp: NotificationChannel & { send: jest.Mock };
+  let lineChannel: NotificationChannel & { send: jest.Mock };
+
+  const borrower = { id: 7, name: 'Somchai', email: 'somchai@example.com', role: Role.USER };
+
+  beforeEach(async () => {
+    prisma = {
+      loan: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 3,
+          itemName: 'Projector',
+          quantity: 1,
+          expectedReturnDate: new Date('2026-01-10T00:00:00Z'),
+          borrowedBy: borrower,
+        }),
+      },
+      notificationDelivery: {
+        createMany: jest.fn(),
+      },
+    };
+    mail = {
+      isConfigured: jest.fn().mockReturnValue(true),
+      isDeliverable: jest.fn((address) => !!address),
+      send: jest.fn().mockResolvedValue({ messageId: '<m1@example.com>' }),
+    };
+    inApp = {
+      name: NotificationChannelType.IN_APP,
+      send: jest.fn().mockResolvedValue({ status: NotificationDeliveryStatus.SENT }),
+    };
+    lineChannel = {
+      name: NotificationChannelType.LINE,
+      send: jest.fn().mockResolvedValue({ status: NotificationDeliveryStatus.SENT }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationDispatcherService,
+        EmailChannel,
+        { provide: PrismaService, useValue: prisma },
+        { provide: MailService, useValue: mail },
+        { provide: NotificationPreferencesService, useValue: { check: jest.fn().mockResolvedValue({ deliver: true }) } },
+        { provide: LineOANotificationService, useValue: {} },
+        {
+          provide: NOTIFICATION_CHANNELS,
+          useFactory: (email: EmailChannel) => [inApp, lineChannel, email],
+          inject: [EmailChannel],
+        },
+      ],
+    }).compile();
+
+    service = module.get(NotificationDispatcherService);
+  });
+
+  it('should fan an event out to every channel and record each result', async () => {
+    const result = await service.dispatch({ type: 'LOAN_OVERDUE', loanId: 3 });
+
+    expect(inApp.send).toHaveBeenCalledWith(borrower, expect.objectContaining({ event: 'LOAN_OVERDUE' }));
+    expect(lineChannel.send).toHaveBeenCalledWith(borrower, expect.objectContaining({ event: 'LOAN_OVERDUE' }));
+    expect(mail.send).toHaveBeenCalledWith(
+      expect.objectContaining({ to: 'somchai@example.com', subject: 'เลยกำหนดคืนอุปกรณ์' }),
+    );
+    expect(result.deliveries.map((d) => [d.channel, d.status])).toEqual([
+      ['IN_APP', 'SENT'],
+      ['LINE', 'SENT'],
+      ['EMAIL', 'SENT'],
+    ]);
+    expect(prisma.notificationDelivery.createMany).toHaveBeenCalledWith({ data: result.deliveries });
+  });
+
+  it('should record a failing channel without stopping the others', async () => {
+    lineChannel.send.mockRejectedValue(new Error('LINE down'));
+
+    const result = await service.dispatch({ type: 'LOAN_OVERDUE', loanId: 3 });
+
+    expect(result.deliveries).toContainEqual(
+      expect.objectContaining({ channel: 'LINE', status: 'FAILED', detail: 'LINE down' }),
+    );
+    expect(mail.send).toHaveBeenCalled();
+  });
+
+  it('should skip email when SMTP is not configured', async () => {
+    mail.isConfigured.mockReturnValue(false);
+
+    const result = await service.dispatch({ type: 'LOAN_OVERDUE', loanId: 3 });
+
+    expect(mail.send).not.toHaveBeenCalled();
+    expect(result.deliveries).toContainEqual(expect.objectContaining({ channel: 'EMAIL', status: 'SKIPPED' }));
+  });
+
+  it('should not record anything when the event has no recipients', async () => {
+    prisma.loan.findUnique.mockResolvedValue(null);
+
+    const result = await service.dispatch({ type: 'LOAN_OVERDUE', loanId: 99 });
+
+    expect(result.deliveries).toEqual([]);
+    expect(prisma.notificationDelivery.createMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,262 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { NotificationChannelType, NotificationDeliveryStatus, NotificationType, Role } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { LineOANotificationService } from '../line-oa/line-oa-notification.service';
+import { REPAIR_STATUS_LABELS } from '../repairs/repair-status-transitions';
+import { NotificationEvent } from './notification-events';
+import {
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  NotificationContent,
+  NotificationRecipient,
+} from './notification-channel.interface';
+
+const recipientSelect = { id: true, name: true, email: true, role: true } as const;
+
+const TICKET_STATUS_LABELS: Record<string, string> = {
+  OPEN: 'เปิด',
+  IN_PROGRESS: 'กำลังดำเนินการ',
+  DONE: 'เสร็จสิ้น',
+};
+
+/**
+ * Single entry point for user-facing notifications: works out who an event is for,
+ * renders it once and fans it out to every channel, recording each channel's result.
+ */
+@Injectable()
+export class NotificationDispatcherService {
+  private readonly logger = new Logger(NotificationDispatcherService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly lineNotificationService: LineOANotificationService,
+    @Inject(NOTIFICATION_CHANNELS)
+    private readonly channels: NotificationChannel[],
+  ) {}
+
+  async dispatch(event: NotificationEvent) {
+    const target = await this.resolve(event);
+    if (!target || target.recipients.length === 0) {
+      this.logger.debug(`No recipients for ${event.type}`);
+      return { event: event.type, deliveries: [] };
+    }
+
+    const deliveries: {
+      event: string;
+      userId: number;
+      channel: NotificationChannel['name'];
+      status: NotificationDeliveryStatus;
+      detail: string | null;
+    }[] = [];
+
+    for (const recipient of target.recipients) {
+      for (const channel of this.channels) {
+        if (target.content.channels && !target.content.channels.includes(channel.name)) continue;
+
+        const result = await channel.send(recipient, target.content).catch((error: any) => ({
+          status: NotificationDeliveryStatus.FAILED,
+          detail: error?.message || String(error),
+        }));
+
+        if (result.status === NotificationDeliveryStatus.FAILED) {
+          this.logger.warn(`${channel.name} delivery of ${event.type} to user #${recipient.id} failed: ${result.detail}`);
+        }
+        deliveries.push({
+          event: event.type,
+          userId: recipient.id,
+          channel: channel.name,
+          status: result.status,
+          detail: result.detail ?? null,
+        });
+      }
+    }
+
+    await this.prisma.notificationDelivery.createMany({ data: deliveries });
+    return { event: event.type, deliveries };
+  }
+
+  async findDeliveries(params: { userId?: number; event?: string; limit?: number } = {}) {
+    return this.prisma.notificationDelivery.findMany({
+      where: { userId: params.userId, event: params.event },
+      include: { user: { select: { id: true, name: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: params.limit ?? 50,
+    });
+  }
+
+  /* =======================
+     RECIPIENTS & CONTENT
+  ======================= */
+
+  private async resolve(
+    event: NotificationEvent,
+  ): Promise<{ recipients: NotificationRecipient[]; content: NotificationContent } | null> {
+    switch (event.type) {
+      case 'REPAIR_STATUS_CHANGED': {
+        const ticket = await this.prisma.repairTicket.findUnique({
+          where: { id: event.ticketId },
+          include: {
+            user: { select: recipientSelect },
+            assignees: { include: { user: { select: { name: true } } } },
+          },
+        });
+        if (!ticket) return null;
+
+        const label = REPAIR_STATUS_LABELS[event.status];
+        return {
+          recipients: [ticket.user],
+          content: {
+            event: event.type,
+            type: NotificationType.STATUS_CHANGED,
+            title: `อัปเดตงานซ่อม ${ticket.ticketCode}`,
+            message: `งาน "${ticket.problemTitle}" เปลี่ยนสถานะเป็น ${label}${event.remark ? `\nหมายเหตุ: ${event.remark}` : ''}`,
+            actionUrl: `/repairs?ticket=${ticket.ticketCode}`,
+            urgency: ticket.urgency,
+            line: this.lineNotificationService.buildStatusUpdateMessage({
+              ticketCode: ticket.ticketCode,
+              problemTitle: ticket.problemTitle,
+              status: event.status,
+              remark: event.remark,
+              updatedAt: new Date(),
+              technicianNames: ticket.assignees.map((a) => a.user.name),
+            }),
+          },
+        };
+      }
+
+      case 'REPAIR_ASSIGNED': {
+        const ticket = await this.prisma.repairTicket.findUnique({ where: { id: event.ticketId } });
+        if (!ticket) return null;
+
+        const line = this.lineNotificationService.buildTechnicianAssignmentMessage({
+          ticketCode: ticket.ticketCode,
+          problemTitle: ticket.problemTitle,
+          reporterName: ticket.reporterName,
+          urgency: ticket.urgency,
+          action: event.action,
+        });
+        return {
+          recipients: await this.prisma.user.findMany({
+            where: { id: { in: event.technicianIds } },
+            select: recipientSelect,
+          }),
+          content: {
+            event: event.type,
+            type: NotificationType.TICKET_ASSIGNED,
+            title: line.altText,
+            message: `${ticket.ticketCode}: ${ticket.problemTitle}\nสถานที่: ${ticket.location}`,
+            actionUrl: `/admin/repairs?ticket=${ticket.ticketCode}`,
+            urgency: ticket.urgency,
+            line,
+          },
+        };
+      }
+
+      case 'TICKET_CREATED': {
+        const ticket = await this.prisma.ticket.findUnique({
+          where: { id: event.ticketId },
+          include: { user: { select: { name: true } } },
+        });
+        if (!ticket) return null;
+
+        const reporter = ticket.user?.name ?? ticket.guestName ?? 'ผู้ใช้ทั่วไป';
+        return {
+          recipients: await this.prisma.user.findMany({
+            where: { role: Role.ADMIN },
+            select: recipientSelect,
+          }),
+          content: {
+            event: event.type,
+            type: NotificationType.TICKET_CREATED,
+            title: 'งานใหม่ได้รับการสร้าง',
+            message: `${reporter} ได้สร้างงานใหม่ ${ticket.ticketCode}: ${ticket.title}`,
+            ticketId: ticket.id,
+            actionUrl: `/tickets/${ticket.id}`,
+          },
+        };
+      }
+
+      case 'TICKET_ASSIGNED': {
+        const [ticket, assignee] = await Promise.all([
+          this.prisma.ticket.findUnique({ where: { id: event.ticketId } }),
+          this.prisma.user.findUnique({ where: { id: event.assigneeId }, select: recipientSelect }),
+        ]);
+        if (!ticket || !assignee) return null;
+
+        return {
+          recipients: [assignee],
+          content: {
+            event: event.type,
+            type: NotificationType.TICKET_ASSIGNED,
+            title: 'มีงานถูกมอบหมายให้คุณ',
+            message: `${ticket.ticketCode}: ${ticket.title}`,
+            ticketId: ticket.id,
+            actionUrl: `/tickets/${ticket.id}`,
+          },
+        };
+      }
+
+      case 'TICKET_STATUS_CHANGED': {
+        const ticket = await this.prisma.ticket.findUnique({
+          where: { id: event.ticketId },
+          include: { user: { select: recipientSelect } },
+        });
+        if (!ticket) return null;
+
+        return {
+          recipients: ticket.user ? [ticket.user] : [],
+          content: {
+            event: event.type,
+            type: NotificationType.STATUS_CHANGED,
+            title: 'สถานะงานเปลี่ยนแปลง',
+            message: `สถานะของงาน ${ticket.ticketCode} เปลี่ยนเป็น ${TICKET_STATUS_LABELS[event.status] ?? event.status}`,
+            ticketId: ticket.id,
+            actionUrl: `/tickets/${ticket.id}`,
+          },
+        };
+      }
+
+      case 'LOAN_OVERDUE': {
+        const loan = await this.prisma.loan.findUnique({
+          where: { id: event.loanId },
+          include: { borrowedBy: { select: recipientSelect } },
+        });
+        if (!loan) return null;
+
+        const due = loan.expectedReturnDate.toLocaleDateString('th-TH', { timeZone: 'Asia/Bangkok' });
+        return {
+          recipients: [loan.borrowedBy],
+          content: {
+            event: event.type,
+            type: NotificationType.LOAN_OVERDUE,
+            title: 'เลยกำหนดคืนอุปกรณ์',
+            message: `${loan.itemName} (${loan.quantity} ชิ้น) ครบกำหนดคืนเมื่อ ${due} กรุณาคืนอุปกรณ์โดยเร็ว`,
+            actionUrl: '/loans',
+          },
+        };
+      }
+
+      case 'STOCK_LOW': {
+        const item = await this.prisma.stockItem.findUnique({ where: { id: event.stockItemId } });
+        if (!item || item.reorderPoint === null) return null;
+
+        return {
+          recipients: await this.prisma.user.findMany({
+            where: { role: Role.ADMIN },
+            select: recipientSelect,
+          }),
+          content: {
+            event: event.type,
+            type: NotificationType.STOCK_LOW,
+            title: 'สต็อกใกล้หมด',
+            message:
+              `${item.code} ${item.name} เหลือ ${item.quantity} ชิ้น (จุดสั่งซื้อ ${item.reorderPoint})` +
+              (item.reorderQuantity ? `\nควรสั่งเพิ่ม ${item.reorderQuantity} ชิ้น` : ''),
+            actionUrl: '/admin/stock',
+            channels: [NotificationChannelType.IN_APP, NotificationChannelType.LINE],
+          },
+        };
+      }
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { RepairTicketStatus, TicketStatus } from '@prisma/client';
+
+/**
+ * Domain events the dispatcher knows how to address and render
+ */
+export type NotificationEvent =
+  | { type: 'REPAIR_STATUS_CHANGED'; ticketId: number; status: RepairTicketStatus; remark?: string }
+  | { type: 'REPAIR_ASSIGNED'; ticketId: number; technicianIds: number[]; action: 'ASSIGNED' | 'TRANSFERRED' }
+  | { type: 'TICKET_CREATED'; ticketId: number }
+  | { type: 'TICKET_ASSIGNED'; ticketId: number; assigneeId: number }
+  | { type: 'TICKET_STATUS_CHANGED'; ticketId: number; status: TicketStatus }
+  | { type: 'LOAN_OVERDUE'; loanId: number }
+  | { type: 'STOCK_LOW'; stockItemId: number };
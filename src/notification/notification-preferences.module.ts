@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { NotificationPreferencesService } from './notification-preferences.service';
+
+// Kept apart from NotificationModule so LineOAModule can use it without a cycle
+@Module({
+  imports: [PrismaModule],
+  providers: [NotificationPreferencesService],
+  exports: [NotificationPreferencesService],
+})
+export class NotificationPreferencesModule {}
@@ -0,0 +1,137 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import {
+  NotificationChannelType,
+  NotificationDigestMode,
+  NotificationType,
+  UrgencyLevel,
+} from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { evaluatePreference, PreferenceDecision, PreferenceSettings } from './notification-preferences';
+
+@Injectable()
+export class NotificationPreferencesService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Settings plus a type × channel matrix of what the user receives
+   */
+  async getPreferences(userId: number) {
+    const settings = await this.loadSettings(userId);
+
+    const types = {} as Record<NotificationType, Record<NotificationChannelType, boolean>>;
+    for (const type of Object.values(NotificationType)) {
+      types[type] = {} as Record<NotificationChannelType, boolean>;
+      for (const channel of Object.values(NotificationChannelType)) {
+        types[type][channel] = !settings.optOuts.some((o) => o.type === type && o.channel === channel);
+      }
+    }
+
+    return {
+      quietHoursStart: settings.quietHoursStart,
+      quietHoursEnd: settings.quietHoursEnd,
+      digestMode: settings.digestMode,
+      types,
+    };
+  }
+
+  async updatePreferences(userId: number, dto: UpdateNotificationPreferencesDto) {
+    const current = await this.loadSettings(userId);
+    const quietHoursStart = dto.quietHoursStart !== undefined ? dto.quietHoursStart : current.quietHoursStart;
+    const quietHoursEnd = dto.quietHoursEnd !== undefined ? dto.quietHoursEnd : current.quietHoursEnd;
+    if (Boolean(quietHoursStart) !== Boolean(quietHoursEnd)) {
+      throw new BadRequestException('quietHoursStart and quietHoursEnd must be set together');
+    }
+
+    const settings = {
+      quietHoursStart: quietHoursStart || null,
+      quietHoursEnd: quietHoursEnd || null,
+      digestMode: dto.digestMode ?? current.digestMode,
+    };
+
+    await this.prisma.$transaction([
+      this.prisma.notificationPreference.upsert({
+        where: { userId },
+        create: { userId, ...settings },
+        update: settings,
+      }),
+      ...(dto.channels ?? []).map(({ type, channel, enabled }) =>
+        enabled
+          ? this.prisma.notificationOptOut.deleteMany({ where: { userId, type, channel } })
+          : this.prisma.notificationOptOut.upsert({
+              where: { userId_type_channel: { userId, type, channel } },
+              create: { userId, type, channel },
+              update: {},
+            }),
+      ),
+    ]);
+
+    return this.getPreferences(userId);
+  }
+
+  /**
+   * Gate for a single delivery; call it right before sending
+   */
+  async check(
+    userId: number,
+    type: NotificationType,
+    channel: NotificationChannelType,
+    urgency?: UrgencyLevel,
+  ): Promise<PreferenceDecision> {
+    return evaluatePreference(await this.loadSettings(userId), type, channel, urgency);
+  }
+
+  /**
+   * The subset of `userIds` that should receive a broadcast right now
+   */
+  async filterRecipients(
+    userIds: number[],
+    type: NotificationType,
+    channel: NotificationChannelType,
+    urgency?: UrgencyLevel,
+  ): Promise<number[]> {
+    if (userIds.length === 0) return [];
+
+    const [preferences, optOuts] = await Promise.all([
+      this.prisma.notificationPreference.findMany({ where: { userId: { in: userIds } } }),
+      this.prisma.notificationOptOut.findMany({ where: { userId: { in: userIds }, type, channel } }),
+    ]);
+
+    const now = new Date();
+    return userIds.filter((userId) => {
+      const preference = preferences.find((p) => p.userId === userId);
+      const userOptOuts = optOuts.filter((o) => o.userId === userId);
+      if (!preference && userOptOuts.length === 0) return true;
+
+      return evaluatePreference(
+        {
+          quietHoursStart: preference?.quietHoursStart ?? null,
+          quietHoursEnd: preference?.quietHoursEnd ?? null,
+          digestMode: preference?.digestMode ?? NotificationDigestMode.OFF,
+          optOuts: userOptOuts,
+        },
+        type,
+        channel,
+        urgency,
+        now,
+      ).deliver;
+    });
+  }
+
+  private async loadSettings(userId: number): Promise<PreferenceSettings> {
+    const [preference, optOuts] = await Promise.all([
+      this.prisma.notificationPreference.findUnique({ where: { userId } }),
+      this.prisma.notificationOptOut.findMany({
+        where: { userId },
+        select: { type: true, channel: true },
+      }),
+    ]);
+
+    return {
+      quietHoursStart: preference?.quietHoursStart ?? null,
+      quietHoursEnd: preference?.quietHoursEnd ?? null,
+      digestMode: preference?.digestMode ?? NotificationDigestMode.OFF,
+      optOuts,
+    };
+  }
+}
@@ -0,0 +1,71 @@
+import { evaluatePreference, isInQuietHours, PreferenceSettings } from './notification-preferences';
+
+describe('notification-preferences', () => {
+  // Monday 2026-03-02 10:00 in Bangkok
+  const morning = new Date('2026-03-02T03:00:00.000Z');
+  // Monday 2026-03-02 23:30 in Bangkok
+  const night = new Date('2026-03-02T16:30:00.000Z');
+
+  const settings: PreferenceSettings = {
+    quietHoursStart: '22:00',
+    quietHoursEnd: '07:00',
+    digestMode: 'OFF',
+    optOuts: [],
+  };
+
+  describe('isInQuietHours', () => {
+    it('should be off when no window is set', () => {
+      expect(isInQuietHours(null, null, night)).toBe(false);
+    });
+
+    it('should handle windows that span midnight in Bangkok time', () => {
+      expect(isInQuietHours('22:00', '07:00', night)).toBe(true);
+      // Tuesday 05:00 Bangkok
+      expect(isInQuietHours('22:00', '07:00', new Date('2026-03-02T22:00:00.000Z'))).toBe(true);
+      expect(isInQuietHours('22:00', '07:00', morning)).toBe(false);
+    });
+
+    it('should handle same-day windows', () => {
+      expect(isInQuietHours('09:00', '12:00', morning)).toBe(true);
+      expect(isInQuietHours('09:00', '12:00', night)).toBe(false);
+    });
+  });
+
+  describe('evaluatePreference', () => {
+    it('should deliver everything without settings', () => {
+      expect(evaluatePreference(null, 'STATUS_CHANGED', 'LINE', 'NORMAL', night)).toEqual({ deliver: true });
+    });
+
+    it('should honor opt-outs per type and channel', () => {
+      const optedOut: PreferenceSettings = {
+        ...settings,
+        quietHoursStart: null,
+        quietHoursEnd: null,
+        optOuts: [{ type: 'STATUS_CHANGED', channel: 'LINE' }],
+      };
+
+      expect(evaluatePreference(optedOut, 'STATUS_CHANGED', 'LINE', 'NORMAL', morning).deliver).toBe(false);
+      expect(evaluatePreference(optedOut, 'STATUS_CHANGED', 'EMAIL', 'NORMAL', morning).deliver).toBe(true);
+      expect(evaluatePreference(optedOut, 'TICKET_ASSIGNED', 'LINE', 'NORMAL', morning).deliver).toBe(true);
+    });
+
+    it('should only push CRITICAL items during quiet hours', () => {
+      expect(evaluatePreference(settings, 'TICKET_CREATED', 'LINE', 'URGENT', night)).toEqual({
+        deliver: false,
+        reason: 'Quiet hours',
+      });
+      expect(evaluatePreference(settings, 'TICKET_CREATED', 'LINE', 'CRITICAL', night).deliver).toBe(true);
+      expect(evaluatePreference(settings, 'TICKET_CREATED', 'LINE', 'URGENT', morning).deliver).toBe(true);
+    });
+
+    it('should still fill the in-app inbox during quiet hours and digest mode', () => {
+      const digest = { ...settings, digestMode: 'DAILY' as const };
+
+      expect(evaluatePreference(digest, 'TICKET_CREATED', 'IN_APP', 'NORMAL', night).deliver).toBe(true);
+      expect(evaluatePreference(digest, 'TICKET_CREATED', 'EMAIL', 'NORMAL', morning)).toEqual({
+        deliver: false,
+        reason: 'Held for daily digest',
+      });
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  NotificationChannelType,
+  NotificationDigestMode,
+  NotificationType,
+  UrgencyLevel,
+} from '@prisma/client';
+
+// Quiet hours are entered in Thai local time (UTC+7, no DST)
+const LOCAL_OFFSET_MINUTES = 7 * 60;
+
+export interface PreferenceSettings {
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+  digestMode: NotificationDigestMode;
+  optOuts: { type: NotificationType; channel: NotificationChannelType }[];
+}
+
+export type PreferenceDecision = { deliver: true } | { deliver: false; reason: string };
+
+function toMinutes(hhmm: string) {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+export function isInQuietHours(start: string | null, end: string | null, now: Date): boolean {
+  if (!start || !end) return false;
+
+  const local = new Date(now.getTime() + LOCAL_OFFSET_MINUTES * 60 * 1000);
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  if (from === to) return false;
+  // Overnight windows (e.g. 22:00-07:00) wrap past midnight
+  return from < to ? minutes >= from && minutes < to : minutes >= from || minutes < to;
+}
+
+/**
+ * Whether a notification may go out on a channel right now. Opt-outs apply everywhere;
+ * quiet hours and digest mode only hold back pushes (LINE, email), never the in-app
+ * inbox, and never anything CRITICAL. No settings means deliver everything.
+ */
+export function evaluatePreference(
+  settings: PreferenceSettings | null | undefined,
+  type: NotificationType,
+  channel: NotificationChannelType,
+  urgency?: UrgencyLevel,
+  now = new Date(),
+): PreferenceDecision {
+  if (!settings) return { deliver: true };
+
+  if (settings.optOuts.some((o) => o.type === type && o.channel === channel)) {
+    return { deliver: false, reason: `Opted out of ${type} on ${channel}` };
+  }
+  if (channel === NotificationChannelType.IN_APP || urgency === UrgencyLevel.CRITICAL) {
+    return { deliver: true };
+  }
+  if (isInQuietHours(settings.quietHoursStart, settings.quietHoursEnd, now)) {
+    return { deliver: false, reason: 'Quiet hours' };
+  }
+  if (settings.digestMode !== NotificationDigestMode.OFF) {
+    return { deliver: false, reason: `Held for ${settings.digestMode.toLowerCase()} digest` };
+  }
+  return { deliver: true };
+}
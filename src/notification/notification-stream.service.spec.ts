@@ -0,0 +1,46 @@
+import { MessageEvent } from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { NotificationStreamService } from './notification-stream.service';
+
+describe('NotificationStreamService', () => {
+  let service: NotificationStreamService;
+
+  const collect = (user: { id: number; role: Role }) => {
+    const received: MessageEvent[] = [];
+    const subscription = service.streamFor(user).subscribe((e) => received.push(e));
+    return { received, subscription };
+  };
+
+  beforeEach(() => {
+    service = new NotificationStreamService();
+  });
+
+  it('should only deliver events addressed to the user', () => {
+    const alice = collect({ id: 1, role: Role.USER });
+    const bob = collect({ id: 2, role: Role.USER });
+
+    service.publish({ type: 'notification', data: { id: 9 }, userIds: [1] });
+
+    expect(alice.received).toEqual([{ type: 'notification', data: { id: 9 } }]);
+    expect(bob.received).toEqual([]);
+    alice.subscription.unsubscribe();
+    bob.subscription.unsubscribe();
+  });
+
+  it('should send repair events to IT staff, the reporter and the assignees', () => {
+    const it1 = collect({ id: 3, role: Role.IT });
+    const reporter = collect({ id: 10, role: Role.USER });
+    const stranger = collect({ id: 11, role: Role.USER });
+
+    service.publishRepairEvent(
+      'repair.created',
+      { id: 1, ticketCode: 'REP-1', problemTitle: 'Printer jam', status: 'PENDING', urgency: 'NORMAL', userId: 10 },
+    );
+
+    expect(it1.received).toHaveLength(1);
+    expect(it1.received[0]).toEqual(expect.objectContaining({ type: 'repair.created' }));
+    expect(reporter.received).toHaveLength(1);
+    expect(stranger.received).toHaveLength(0);
+    [it1, reporter, stranger].forEach((c) => c.subscription.unsubscribe());
+  });
+});
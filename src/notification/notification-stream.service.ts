@@ -0,0 +1,70 @@
+import { Injectable, MessageEvent } from '@nestjs/common';
+import { RepairTicketStatus, Role, UrgencyLevel } from '@prisma/client';
+import { filter, interval, map, merge, Observable, Subject } from 'rxjs';
+
+// Keeps proxies and load balancers from closing an idle stream
+const HEARTBEAT_MS = 25 * 1000;
+
+export type StreamEventType = 'notification' | 'repair.created' | 'repair.updated' | 'repair.assigned';
+
+export interface StreamEvent {
+  type: StreamEventType;
+  data: object;
+  // Delivered to these users and to everyone holding one of these roles
+  userIds?: number[];
+  roles?: Role[];
+}
+
+export interface StreamRepairTicket {
+  id: number;
+  ticketCode: string;
+  problemTitle: string;
+  status: RepairTicketStatus;
+  urgency: UrgencyLevel;
+  userId: number;
+}
+
+/**
+ * Server-Sent Events fan-out for connected clients. Events live in this process only,
+ * so with several instances a client sees what happens on the instance it is connected to.
+ */
+@Injectable()
+export class NotificationStreamService {
+  private readonly events$ = new Subject<StreamEvent>();
+
+  publish(event: StreamEvent) {
+    this.events$.next(event);
+  }
+
+  /**
+   * Repair ticket changes go to the IT dashboards, the reporter and the assignees
+   */
+  publishRepairEvent(type: Exclude<StreamEventType, 'notification'>, ticket: StreamRepairTicket, assigneeIds: number[] = []) {
+    this.publish({
+      type,
+      data: {
+        id: ticket.id,
+        ticketCode: ticket.ticketCode,
+        problemTitle: ticket.problemTitle,
+        status: ticket.status,
+        urgency: ticket.urgency,
+        assigneeIds,
+      },
+      userIds: [ticket.userId, ...assigneeIds],
+      roles: [Role.ADMIN, Role.IT],
+    });
+  }
+
+  /**
+   * Events visible to one authenticated user, plus a heartbeat
+   */
+  streamFor(user: { id: number; role: Role }): Observable<MessageEvent> {
+    const events = this.events$.pipe(
+      filter((e) => !!e.userIds?.includes(user.id) || !!e.roles?.includes(user.role)),
+      map((e): MessageEvent => ({ type: e.type, data: e.data })),
+    );
+    const heartbeat = interval(HEARTBEAT_MS).pipe(map((): MessageEvent => ({ type: 'ping', data: {} })));
+
+    return merge(events, heartbeat);
+  }
+}
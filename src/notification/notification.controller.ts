@@ -1,9 +1,21 @@
-import { Controller, Get, Post, Param, ParseIntPipe, Request, Patch, Delete, Query } from '@nestjs/common';
+import { Controller, Get, Post, Put, Body, Param, ParseIntPipe, Request, Patch, Delete, Query, UseGuards, Sse, MessageEvent } from '@nestjs/common';
+import { concat, from, map, Observable } from 'rxjs';
 import { NotificationService } from './notification.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationStreamService } from './notification-stream.service';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
 
 @Controller('notifications')
 export class NotificationController {
-  constructor(private notificationService: NotificationService) {}
+  constructor(
+    private notificationService: NotificationService,
+    private dispatcherService: NotificationDispatcherService,
+    private preferencesService: NotificationPreferencesService,
+    private streamService: NotificationStreamService,
+  ) {}
 
   @Get()
   async getMyNotifications(
@@ -24,6 +36,41 @@ export class NotificationController {
     };
   }
 
+  // EventSource cannot send headers, so this route also takes the JWT as ?access_token=
+  @Sse('stream')
+  stream(@Request() req): Observable<MessageEvent> {
+    const unreadCount = from(this.notificationService.getUnreadCount(req.user.id)).pipe(
+      map((count): MessageEvent => ({ type: 'unread-count', data: { count } })),
+    );
+    return concat(unreadCount, this.streamService.streamFor(req.user));
+  }
+
+  @Get('preferences')
+  async getMyPreferences(@Request() req) {
+    return this.preferencesService.getPreferences(req.user.id);
+  }
+
+  @Put('preferences')
+  async updateMyPreferences(@Request() req, @Body() dto: UpdateNotificationPreferencesDto) {
+    return this.preferencesService.updatePreferences(req.user.id, dto);
+  }
+
+  // Per-channel delivery results of dispatched events
+  @Get('deliveries')
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN')
+  async getDeliveries(
+    @Query('userId') userId?: string,
+    @Query('event') event?: string,
+    @Query('limit') limit: string = '50',
+  ) {
+    return this.dispatcherService.findDeliveries({
+      userId: userId ? parseInt(userId) : undefined,
+      event,
+      limit: parseInt(limit) || 50,
+    });
+  }
+
   @Get('unread-count')
   async getUnreadCount(@Request() req) {
     const userId = req.user.id;
@@ -1,12 +1,33 @@
 import { Module } from '@nestjs/common';
 import { NotificationController } from './notification.controller';
 import { NotificationService } from './notification.service';
+import { NotificationDispatcherService } from './notification-dispatcher.service';
+import { NotificationStreamService } from './notification-stream.service';
+import { NOTIFICATION_CHANNELS } from './notification-channel.interface';
+import { InAppChannel } from './channels/in-app.channel';
+import { LineChannel } from './channels/line.channel';
+import { EmailChannel } from './channels/email.channel';
 import { PrismaModule } from '../prisma/prisma.module';
+import { LineOAModule } from '../line-oa/line-oa.module';
+import { NotificationPreferencesModule } from './notification-preferences.module';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, LineOAModule, NotificationPreferencesModule],
   controllers: [NotificationController],
-  providers: [NotificationService],
-  exports: [NotificationService],
+  providers: [
+    NotificationService,
+    NotificationDispatcherService,
+    NotificationStreamService,
+    InAppChannel,
+    LineChannel,
+    EmailChannel,
+    {
+      // Add new channels here; every dispatched event goes to all of them
+      provide: NOTIFICATION_CHANNELS,
+      useFactory: (...channels) => channels,
+      inject: [InAppChannel, LineChannel, EmailChannel],
+    },
+  ],
+  exports: [NotificationService, NotificationDispatcherService, NotificationStreamService],
 })
 export class NotificationModule {}
@@ -1,5 +1,8 @@
 import { Injectable } from '@nestjs/common';
+import { NotificationChannelType, NotificationType } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
+import { NotificationPreferencesService } from './notification-preferences.service';
+import { NotificationStreamService } from './notification-stream.service';
 
 export interface CreateNotificationDto {
   userId: number;
@@ -12,10 +15,24 @@ export interface CreateNotificationDto {
 
 @Injectable()
 export class NotificationService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private preferencesService: NotificationPreferencesService,
+    private streamService: NotificationStreamService,
+  ) {}
 
+  /**
+   * Returns null when the user opted out of this type in the app
+   */
   async createNotification(data: CreateNotificationDto) {
-    return await this.prisma.notification.create({
+    const decision = await this.preferencesService.check(
+      data.userId,
+      data.type as NotificationType,
+      NotificationChannelType.IN_APP,
+    );
+    if (!decision.deliver) return null;
+
+    const notification = await this.prisma.notification.create({
       data: {
         userId: data.userId,
         type: data.type as any,
@@ -25,6 +42,9 @@ export class NotificationService {
         actionUrl: data.actionUrl,
       },
     });
+
+    this.streamService.publish({ type: 'notification', data: notification, userIds: [data.userId] });
+    return notification;
   }
 
   async getUserNotifications(userId: number, limit: number = 20) {
@@ -80,47 +100,38 @@ export class NotificationService {
     });
 
     for (const admin of admins) {
-      await this.prisma.notification.create({
-        data: {
-          userId: admin.id,
-          type: 'TICKET_CREATED' as any,
-          title: 'งานใหม่ได้รับการสร้าง',
-          message: `${userName} ได้สร้างงานใหม่ ${ticketCode}`,
-          ticketId,
-          actionUrl: `/admin/repairs?ticket=${ticketCode}`,
-          status: 'UNREAD' as any,
-        },
+      await this.createNotification({
+        userId: admin.id,
+        type: 'TICKET_CREATED',
+        title: 'งานใหม่ได้รับการสร้าง',
+        message: `${userName} ได้สร้างงานใหม่ ${ticketCode}`,
+        ticketId,
+        actionUrl: `/admin/repairs?ticket=${ticketCode}`,
       });
     }
   }
 
   // Helper method to notify user when ticket is assigned
   async notifyTicketAssigned(ticketId: number, userId: number, assignedBy: string) {
-    await this.prisma.notification.create({
-      data: {
-        userId,
-        type: 'TICKET_ASSIGNED' as any,
-        title: 'มีงานถูกมอบหมายให้คุณ',
-        message: `${assignedBy} ได้มอบหมายงานให้คุณ`,
-        ticketId,
-        actionUrl: `/tickets/${ticketId}`,
-        status: 'UNREAD' as any,
-      },
+    await this.createNotification({
+      userId,
+      type: 'TICKET_ASSIGNED',
+      title: 'มีงานถูกมอบหมายให้คุณ',
+      message: `${assignedBy} ได้มอบหมายงานให้คุณ`,
+      ticketId,
+      actionUrl: `/tickets/${ticketId}`,
     });
   }
 
   // Helper method to notify user when ticket status changed
   async notifyTicketStatusChanged(ticketId: number, userId: number, newStatus: string) {
-    await this.prisma.notification.create({
-      data: {
-        userId,
-        type: 'STATUS_CHANGED' as any,
-        title: 'สถานะงานเปลี่ยนแปลง',
-        message: `สถานะของงานของคุณเปลี่ยนเป็น ${newStatus}`,
-        ticketId,
-        actionUrl: `/tickets/${ticketId}`,
-        status: 'UNREAD' as any,
-      },
+    await this.createNotification({
+      userId,
+      type: 'STATUS_CHANGED',
+      title: 'สถานะงานเปลี่ยนแปลง',
+      message: `สถานะของงานของคุณเปลี่ยนเป็น ${newStatus}`,
+      ticketId,
+      actionUrl: `/tickets/${ticketId}`,
     });
   }
 }
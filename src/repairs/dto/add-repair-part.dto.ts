@@ -0,0 +1,14 @@
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
+
+export class AddRepairPartDto {
+  @IsInt()
+  stockItemId: number;
+
+  @IsInt()
+  @Min(1)
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
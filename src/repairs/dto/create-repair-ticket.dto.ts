@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsNumber, IsEnum } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsEnum, IsInt } from 'class-validator';
 import { ProblemCategory, UrgencyLevel } from '@prisma/client';
 
 export class CreateRepairTicketDto {
@@ -9,6 +9,11 @@ export class CreateRepairTicketDto {
   @IsString()
   reporterDepartment?: string;
 
+  // Takes precedence over reporterDepartment, which is then filled from the department
+  @IsOptional()
+  @IsInt()
+  departmentId?: number;
+
   @IsOptional()
   @IsString()
   reporterPhone?: string;
@@ -30,6 +35,11 @@ export class CreateRepairTicketDto {
   @IsString()
   location: string;
 
+  // Registered asset the problem is about
+  @IsOptional()
+  @IsInt()
+  assetId?: number;
+
   @IsOptional()
   @IsEnum(UrgencyLevel)
   urgency?: UrgencyLevel;
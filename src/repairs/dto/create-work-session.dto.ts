@@ -0,0 +1,21 @@
+import { IsDateString, IsInt, IsOptional, IsString } from 'class-validator';
+
+/**
+ * A session entered after the fact, e.g. when the technician forgot to press start
+ */
+export class CreateWorkSessionDto {
+  // Admins may record time for another technician; defaults to the caller
+  @IsOptional()
+  @IsInt()
+  userId?: number;
+
+  @IsDateString()
+  startedAt: string;
+
+  @IsDateString()
+  endedAt: string;
+
+  @IsOptional()
+  @IsString()
+  note?: string;
+}
@@ -1,6 +1,6 @@
 import { PartialType } from '@nestjs/mapped-types';
 import { CreateRepairTicketDto } from './create-repair-ticket.dto';
-import { IsOptional, IsEnum, IsNumber, IsArray } from 'class-validator';
+import { IsOptional, IsEnum, IsNumber, IsArray, IsString } from 'class-validator';
 import { RepairTicketStatus } from '@prisma/client';
 
 export class UpdateRepairTicketDto extends PartialType(CreateRepairTicketDto) {
@@ -21,4 +21,9 @@ export class UpdateRepairTicketDto extends PartialType(CreateRepairTicketDto) {
 
   @IsOptional()
   completedAt?: Date;
+
+  // Reason recorded in the ticket timeline (RepairTicketLog.comment)
+  @IsOptional()
+  @IsString()
+  comment?: string;
 }
@@ -0,0 +1,4 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateWorkSessionDto } from './create-work-session.dto';
+
+export class UpdateWorkSessionDto extends PartialType(OmitType(CreateWorkSessionDto, ['userId'] as const)) {}
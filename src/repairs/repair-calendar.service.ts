@@ -0,0 +1,105 @@
+import { ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { Prisma, RepairTicketStatus, Role } from '@prisma/client';
+import crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { CalendarEvent, buildCalendar } from './repair-calendar';
+
+// Past visits stay in the feed for a while so calendars keep recent history
+const HISTORY_DAYS = 60;
+const VISIT_MINUTES = 60;
+
+const EVENT_STATUS: Record<RepairTicketStatus, CalendarEvent['status']> = {
+  [RepairTicketStatus.PENDING]: 'TENTATIVE',
+  [RepairTicketStatus.IN_PROGRESS]: 'CONFIRMED',
+  [RepairTicketStatus.WAITING_PARTS]: 'CONFIRMED',
+  [RepairTicketStatus.COMPLETED]: 'CONFIRMED',
+  [RepairTicketStatus.CANCELLED]: 'CANCELLED',
+};
+
+const STATUS_LABEL: Record<RepairTicketStatus, string> = {
+  [RepairTicketStatus.PENDING]: 'รอดำเนินการ',
+  [RepairTicketStatus.IN_PROGRESS]: 'กำลังดำเนินการ',
+  [RepairTicketStatus.WAITING_PARTS]: 'รออะไหล่',
+  [RepairTicketStatus.COMPLETED]: 'เสร็จสิ้น',
+  [RepairTicketStatus.CANCELLED]: 'ยกเลิก',
+};
+
+export type CalendarScope = 'mine' | 'team';
+
+/**
+ * Read-only iCalendar feeds of scheduled repair visits. The URL carries a per-user
+ * secret instead of a JWT because calendar apps cannot send auth headers.
+ * Cancelled tickets stay in the feed as STATUS:CANCELLED so subscribers drop them.
+ */
+@Injectable()
+export class RepairCalendarService {
+  private readonly frontendUrl = process.env.FRONTEND_URL || 'http://localhost:3000';
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  async getToken(userId: number) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { calendarToken: true } });
+    if (!user) throw new NotFoundException(`User #${userId} not found`);
+    return user.calendarToken ?? this.resetToken(userId);
+  }
+
+  /**
+   * Issue a new secret; subscriptions using the old URL stop working
+   */
+  async resetToken(userId: number) {
+    const calendarToken = crypto.randomBytes(24).toString('hex');
+    await this.prisma.user.update({ where: { id: userId }, data: { calendarToken } });
+    return calendarToken;
+  }
+
+  async renderFeed(token: string, scope: CalendarScope, now = new Date()) {
+    const user = await this.prisma.user.findUnique({
+      where: { calendarToken: token },
+      select: { id: true, name: true, role: true },
+    });
+    if (!user) throw new NotFoundException('Calendar feed not found');
+    // Checked on every fetch, so losing the ADMIN role also ends the team feed
+    if (scope === 'team' && user.role !== Role.ADMIN) {
+      throw new ForbiddenException('The team calendar is only available to admins');
+    }
+
+    const where: Prisma.RepairTicketWhereInput = {
+      scheduledAt: { gte: new Date(now.getTime() - HISTORY_DAYS * 24 * 60 * 60 * 1000) },
+      ...(scope === 'mine' && { assignees: { some: { userId: user.id } } }),
+    };
+    const tickets = await this.prisma.repairTicket.findMany({
+      where,
+      include: { assignees: { include: { user: { select: { name: true } } } } },
+      orderBy: { scheduledAt: 'asc' },
+    });
+
+    const events = tickets.map((ticket): CalendarEvent => {
+      const assignees = ticket.assignees.map((a) => a.user.name).join(', ');
+      return {
+        uid: `repair-${ticket.id}@repair-system`,
+        sequence: ticket.calendarSequence,
+        start: ticket.scheduledAt,
+        end: new Date(ticket.scheduledAt.getTime() + VISIT_MINUTES * 60 * 1000),
+        lastModified: ticket.updatedAt,
+        summary:
+          scope === 'team' && assignees
+            ? `[${ticket.ticketCode}] ${ticket.problemTitle} (${assignees})`
+            : `[${ticket.ticketCode}] ${ticket.problemTitle}`,
+        location: ticket.location,
+        description: [
+          `สถานะ: ${STATUS_LABEL[ticket.status]}`,
+          `ผู้แจ้ง: ${ticket.reporterName}${ticket.reporterDepartment ? ` (${ticket.reporterDepartment})` : ''}`,
+          assignees && `ผู้รับผิดชอบ: ${assignees}`,
+          ticket.problemDescription,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        status: EVENT_STATUS[ticket.status],
+        url: `${this.frontendUrl}/admin/repairs?ticket=${ticket.ticketCode}`,
+      };
+    });
+
+    const name = scope === 'team' ? 'งานซ่อมทั้งหมด' : `งานซ่อมของ ${user.name}`;
+    return buildCalendar(name, events, now);
+  }
+}
@@ -0,0 +1,46 @@
+import { buildCalendar, escapeText, foldLine } from './repair-calendar';
+
+describe('repair-calendar', () => {
+  const event = {
+    uid: 'repair-7@repair-system',
+    sequence: 2,
+    start: new Date('2026-11-02T02:00:00.000Z'),
+    end: new Date('2026-11-02T03:00:00.000Z'),
+    lastModified: new Date('2026-10-19T08:30:00.000Z'),
+    summary: '[REP-7] Printer jam',
+    location: 'ชั้น 2, ห้องบัญชี',
+    status: 'CANCELLED' as const,
+  };
+
+  it('should write a VCALENDAR with CRLF line endings', () => {
+    const ics = buildCalendar('Repairs', [event], new Date('2026-10-19T09:00:00.000Z'));
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.split('\r\n')).toEqual(
+      expect.arrayContaining([
+        'UID:repair-7@repair-system',
+        'DTSTAMP:20261019T090000Z',
+        'SEQUENCE:2',
+        'DTSTART:20261102T020000Z',
+        'DTEND:20261102T030000Z',
+        'LOCATION:ชั้น 2\\, ห้องบัญชี',
+        'STATUS:CANCELLED',
+      ]),
+    );
+  });
+
+  it('should escape text values', () => {
+    expect(escapeText('a;b,c\\d\ne')).toBe('a\\;b\\,c\\\\d\\ne');
+  });
+
+  it('should fold long lines at 75 octets without splitting Thai characters', () => {
+    const line = `SUMMARY:${'ซ่อมเครื่องพิมพ์'.repeat(6)}`;
+    const folded = foldLine(line).split('\r\n');
+
+    expect(folded.length).toBeGreaterThan(1);
+    for (const part of folded) expect(Buffer.byteLength(part)).toBeLessThanOrEqual(75);
+    expect(folded.slice(1).every((part) => part.startsWith(' '))).toBe(true);
+    expect(folded.map((part, i) => (i === 0 ? part : part.slice(1))).join('')).toBe(line);
+  });
+});
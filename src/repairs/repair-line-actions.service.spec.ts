@@ -0,0 +1,122 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RepairTicketStatus } from '@prisma/client';
+import { RepairLineActionsService } from './repair-line-actions.service';
+import { RepairsService } from './repairs.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LineOAWebhookService } from '../line-oa/line-oa-webhook.service';
+import { LineOANotificationService } from '../line-oa/line-oa-notification.service';
+import { LineConversationService } from '../line-oa/line-conversation.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import { NotificationStreamService } from '../notification/notification-stream.service';
+import { UsersService } from '../users/users.service';
+import { AssignmentService } from '../assignment/assignment.service';
+
+describe('RepairLineActionsService', () => {
+  let postbacks: Map<string, Function>;
+  let messageHandler: Function;
+  let conversations: Map<string, { flow: string; data: any }>;
+  let prisma: any;
+  let repairsService: { update: jest.Mock; addStatusComment: jest.Mock };
+  let dispatcher: { dispatch: jest.Mock };
+  let client: { pushMessage: jest.Mock };
+
+  const lineUserId = 'U-tech';
+  const setStatus = (status: string) =>
+    postbacks.get('set_status')!(lineUserId, new URLSearchParams({ code: 'REP-1', status }), client);
+
+  beforeEach(async () => {
+    postbacks = new Map();
+    conversations = new Map();
+    prisma = {
+      lineOALink: { findFirst: jest.fn().mockResolvedValue({ user: { id: 2, role: 'IT' } }) },
+      repairTicket: {
+        findUnique: jest.fn().mockResolvedValue({
+          id: 1,
+          status: RepairTicketStatus.IN_PROGRESS,
+          assignees: [{ userId: 2 }],
+        }),
+      },
+    };
+    repairsService = {
+      update: jest.fn(async (id: number, dto: any) => ({ id, ticketCode: 'REP-1', status: dto.status })),
+      addStatusComment: jest.fn(),
+    };
+    dispatcher = { dispatch: jest.fn().mockResolvedValue({}) };
+    client = { pushMessage: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RepairLineActionsService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RepairsService, useValue: repairsService },
+        { provide: UsersService, useValue: {} },
+        {
+          provide: LineOAWebhookService,
+          useValue: {
+            registerPostbackHandler: (action: string, handler: Function) => postbacks.set(action, handler),
+            registerMessageHandler: (handler: Function) => (messageHandler = handler),
+          },
+        },
+        { provide: LineOANotificationService, useValue: {} },
+        {
+          provide: LineConversationService,
+          useValue: {
+            get: jest.fn(async (id: string, flow: string) => {
+              const c = conversations.get(id);
+              return c && c.flow === flow ? c : null;
+            }),
+            set: jest.fn(async (id: string, flow: string, data: any) => conversations.set(id, { flow, data })),
+            clear: jest.fn(async (id: string) => conversations.delete(id)),
+          },
+        },
+        { provide: AssignmentService, useValue: {} },
+        { provide: NotificationDispatcherService, useValue: dispatcher },
+        { provide: NotificationStreamService, useValue: {} },
+      ],
+    }).compile();
+
+    module.get(RepairLineActionsService).onModuleInit();
+  });
+
+  describe('set_status', () => {
+    it('should update, notify the reporter and ask for a comment', async () => {
+      await setStatus('COMPLETED');
+
+      expect(repairsService.update).toHaveBeenCalledWith(1, { status: 'COMPLETED' }, { id: 2, role: 'IT' });
+      expect(dispatcher.dispatch).toHaveBeenCalledWith({
+        type: 'REPAIR_STATUS_CHANGED',
+        ticketId: 1,
+        status: 'COMPLETED',
+      });
+      expect(conversations.get(lineUserId)!.data).toEqual({ ticketId: 1, ticketCode: 'REP-1', status: 'COMPLETED' });
+    });
+
+    it('should ignore a replayed button for the status the ticket already has', async () => {
+      await setStatus('IN_PROGRESS');
+
+      expect(repairsService.update).not.toHaveBeenCalled();
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+      expect(conversations.has(lineUserId)).toBe(false);
+      expect(client.pushMessage).toHaveBeenCalledWith(lineUserId, {
+        type: 'text',
+        text: 'งาน REP-1 อยู่ในสถานะ "กำลังดำเนินการ" อยู่แล้ว',
+      });
+    });
+  });
+
+  it('should save the follow-up comment and pass it on to the reporter', async () => {
+    await setStatus('WAITING_PARTS');
+    dispatcher.dispatch.mockClear();
+
+    await expect(messageHandler(lineUserId, { type: 'text', text: 'รออะไหล่จากร้าน' }, client)).resolves.toBe(true);
+
+    expect(repairsService.addStatusComment).toHaveBeenCalledWith(1, { id: 2, role: 'IT' }, 'รออะไหล่จากร้าน');
+    expect(dispatcher.dispatch).toHaveBeenCalledWith({
+      type: 'REPAIR_STATUS_CHANGED',
+      ticketId: 1,
+      status: 'WAITING_PARTS',
+      remark: 'รออะไหล่จากร้าน',
+    });
+    expect(conversations.has(lineUserId)).toBe(false);
+  });
+});
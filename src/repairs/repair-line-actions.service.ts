@@ -0,0 +1,374 @@
+import { HttpException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { RepairTicket, RepairTicketStatus, Role } from '@prisma/client';
+import * as line from '@line/bot-sdk';
+import { PrismaService } from '../prisma/prisma.service';
+import { LineOAWebhookService } from '../line-oa/line-oa-webhook.service';
+import { LineOANotificationService } from '../line-oa/line-oa-notification.service';
+import { LineConversationService } from '../line-oa/line-conversation.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import { NotificationStreamService } from '../notification/notification-stream.service';
+import { UsersService } from '../users/users.service';
+import { AssignmentService } from '../assignment/assignment.service';
+import { RepairsService } from './repairs.service';
+import { REPAIR_STATUS_LABELS, REPAIR_STATUS_TRANSITIONS } from './repair-status-transitions';
+
+// LINE allows at most 13 quick reply items, and 20 characters per label
+const MAX_QUICK_REPLY_ITEMS = 13;
+const MAX_LABEL_LENGTH = 20;
+
+const STATUS_COMMENT_FLOW = 'repair_status_comment';
+
+
+/**
+ * Repair ticket actions that technicians trigger from LINE postback buttons
+ */
+@Injectable()
+export class RepairLineActionsService implements OnModuleInit {
+  private readonly logger = new Logger(RepairLineActionsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly repairsService: RepairsService,
+    private readonly usersService: UsersService,
+    private readonly webhookService: LineOAWebhookService,
+    private readonly lineNotificationService: LineOANotificationService,
+    private readonly conversationService: LineConversationService,
+    private readonly assignmentService: AssignmentService,
+    private readonly dispatcherService: NotificationDispatcherService,
+    private readonly streamService: NotificationStreamService,
+  ) {}
+
+  onModuleInit() {
+    this.webhookService.registerPostbackHandler('claim_repair', (lineUserId, params, client) =>
+      this.handleClaim(lineUserId, params.get('code'), client),
+    );
+    this.webhookService.registerPostbackHandler('transfer_repair', (lineUserId, params, client) =>
+      this.handleTransferPicker(lineUserId, params.get('code'), client),
+    );
+    this.webhookService.registerPostbackHandler('transfer_repair_to', (lineUserId, params, client) =>
+      this.handleTransfer(lineUserId, params.get('code'), Number(params.get('to')), client),
+    );
+    this.webhookService.registerPostbackHandler('status_menu', (lineUserId, params, client) =>
+      this.handleStatusMenu(lineUserId, params.get('code'), client),
+    );
+    this.webhookService.registerPostbackHandler('set_status', (lineUserId, params, client) =>
+      this.handleSetStatus(lineUserId, params.get('code'), params.get('status'), client),
+    );
+    this.webhookService.registerPostbackHandler('skip_status_comment', async (lineUserId, _params, client) => {
+      await this.conversationService.clear(lineUserId);
+      await this.reply(client, lineUserId, 'รับทราบ ไม่มีหมายเหตุเพิ่มเติม');
+    });
+    this.webhookService.registerMessageHandler((lineUserId, message, client) =>
+      message.type === 'text'
+        ? this.handleStatusComment(lineUserId, message.text, client)
+        : Promise.resolve(false),
+    );
+  }
+
+  /* =======================
+     NEW TICKET
+  ======================= */
+
+  /**
+   * Auto-assign a freshly reported ticket, then notify only the chosen technician;
+   * fall back to the whole IT team (who can claim it) when nobody is available.
+   */
+  async routeNewTicket(ticket: RepairTicket) {
+    const assignment = await this.assignmentService
+      .autoAssign(ticket)
+      .catch((error) => {
+        this.logger.warn(`Auto-assign failed: ${error.message}`);
+        return null;
+      });
+
+    if (assignment) {
+      this.streamService.publishRepairEvent('repair.assigned', ticket, [assignment.technician.id]);
+      this.dispatcherService
+        .dispatch({
+          type: 'REPAIR_ASSIGNED',
+          ticketId: ticket.id,
+          technicianIds: [assignment.technician.id],
+          action: 'ASSIGNED',
+        })
+        .catch(() => this.logger.warn('Technician notify failed'));
+    } else {
+      // Notify IT (fire & forget)
+      this.lineNotificationService
+        .notifyRepairTicketToITTeam({
+          ticketCode: ticket.ticketCode,
+          reporterName: ticket.reporterName,
+          department: ticket.reporterDepartment || 'ไม่ระบุ',
+          problemTitle: ticket.problemTitle,
+          location: ticket.location,
+          urgency: ticket.urgency,
+          createdAt: new Date().toLocaleString('th-TH'),
+        })
+        .catch(() => this.logger.warn('IT notify failed'));
+    }
+
+    return assignment;
+  }
+
+  /* =======================
+     CLAIM
+  ======================= */
+
+  private async handleClaim(lineUserId: string, ticketCode: string | null, client: line.Client) {
+    const staff = await this.findVerifiedStaff(lineUserId);
+    if (!staff) return this.reply(client, lineUserId, 'เฉพาะเจ้าหน้าที่ IT ที่ยืนยันบัญชี LINE แล้วเท่านั้นที่รับงานได้');
+    if (!ticketCode) return;
+
+    try {
+      const ticket = await this.repairsService.claim(ticketCode, staff);
+
+      await this.lineNotificationService.notifyTechnicianTaskAssignment(staff.id, {
+        ticketCode: ticket.ticketCode,
+        problemTitle: ticket.problemTitle,
+        reporterName: ticket.reporterName,
+        urgency: ticket.urgency,
+        action: 'CLAIMED',
+      });
+    } catch (error) {
+      await this.replyError(client, lineUserId, error);
+    }
+  }
+
+  /* =======================
+     TRANSFER
+  ======================= */
+
+  /**
+   * Offer the colleagues who can take work right now as quick replies
+   */
+  private async handleTransferPicker(lineUserId: string, ticketCode: string | null, client: line.Client) {
+    const staff = await this.findVerifiedStaff(lineUserId);
+    if (!staff || !ticketCode) return;
+
+    const colleagues = (await this.usersService.getITStaff({ availableNow: true }))
+      .filter((u) => u.id !== staff.id)
+      .slice(0, MAX_QUICK_REPLY_ITEMS);
+
+    if (colleagues.length === 0) {
+      return this.reply(client, lineUserId, 'ขณะนี้ไม่มีเพื่อนร่วมทีมที่ว่างรับงาน');
+    }
+
+    await client.pushMessage(lineUserId, {
+      type: 'text',
+      text: `เลือกเพื่อนร่วมทีมที่จะรับงาน ${ticketCode} ต่อ`,
+      quickReply: {
+        items: colleagues.map((u) => ({
+          type: 'action' as const,
+          action: {
+            type: 'postback' as const,
+            label: u.name.slice(0, MAX_LABEL_LENGTH),
+            data: `action=transfer_repair_to&code=${ticketCode}&to=${u.id}`,
+            displayText: `โอนงาน ${ticketCode} ให้ ${u.name}`,
+          },
+        })),
+      },
+    });
+  }
+
+  private async handleTransfer(
+    lineUserId: string,
+    ticketCode: string | null,
+    toUserId: number,
+    client: line.Client,
+  ) {
+    const staff = await this.findVerifiedStaff(lineUserId);
+    if (!staff || !ticketCode || !Number.isInteger(toUserId)) return;
+
+    try {
+      const ticket = await this.repairsService.transfer(ticketCode, toUserId, staff);
+      const colleague = ticket.assignees.find((a) => a.userId === toUserId);
+
+      await this.dispatcherService.dispatch({
+        type: 'REPAIR_ASSIGNED',
+        ticketId: ticket.id,
+        technicianIds: [toUserId],
+        action: 'TRANSFERRED',
+      });
+      await this.reply(client, lineUserId, `โอนงาน ${ticket.ticketCode} ให้ ${colleague?.user.name ?? 'เพื่อนร่วมทีม'} แล้ว`);
+    } catch (error) {
+      await this.replyError(client, lineUserId, error);
+    }
+  }
+
+  /* =======================
+     STATUS UPDATE
+  ======================= */
+
+  /**
+   * Quick replies for every status the ticket can move to next
+   */
+  private async handleStatusMenu(lineUserId: string, ticketCode: string | null, client: line.Client) {
+    if (!ticketCode) return;
+    const assignment = await this.findAssignedTicket(lineUserId, ticketCode, client);
+    if (!assignment) return;
+
+    const next = REPAIR_STATUS_TRANSITIONS[assignment.ticket.status];
+    if (next.length === 0) {
+      return this.reply(client, lineUserId, `งาน ${ticketCode} ปิดไปแล้ว (${REPAIR_STATUS_LABELS[assignment.ticket.status]})`);
+    }
+
+    await client.pushMessage(lineUserId, {
+      type: 'text',
+      text: `งาน ${ticketCode}\nสถานะปัจจุบัน: ${REPAIR_STATUS_LABELS[assignment.ticket.status]}\nเลือกสถานะใหม่`,
+      quickReply: {
+        items: next.map((status) => ({
+          type: 'action' as const,
+          action: {
+            type: 'postback' as const,
+            label: REPAIR_STATUS_LABELS[status],
+            data: `action=set_status&code=${ticketCode}&status=${status}`,
+            displayText: `${ticketCode}: ${REPAIR_STATUS_LABELS[status]}`,
+          },
+        })),
+      },
+    });
+  }
+
+  /**
+   * Same path as PUT /api/repairs/:id, then ask for an optional comment
+   */
+  private async handleSetStatus(
+    lineUserId: string,
+    ticketCode: string | null,
+    status: string | null,
+    client: line.Client,
+  ) {
+    if (!ticketCode || !status) return;
+    if (!Object.values(RepairTicketStatus).includes(status as RepairTicketStatus)) {
+      return this.reply(client, lineUserId, `สถานะ "${status}" ไม่ถูกต้อง`);
+    }
+
+    const assignment = await this.findAssignedTicket(lineUserId, ticketCode, client);
+    if (!assignment) return;
+
+    // A replayed or double-tapped button: nothing changes, so nobody is notified and no
+    // comment is asked for (it would land on an earlier status change)
+    if (status === assignment.ticket.status) {
+      return this.reply(
+        client,
+        lineUserId,
+        `งาน ${ticketCode} อยู่ในสถานะ "${REPAIR_STATUS_LABELS[status as RepairTicketStatus]}" อยู่แล้ว`,
+      );
+    }
+
+    try {
+      const updated = await this.repairsService.update(
+        assignment.ticket.id,
+        { status },
+        assignment.staff,
+      );
+
+      this.dispatcherService
+        .dispatch({ type: 'REPAIR_STATUS_CHANGED', ticketId: updated.id, status: status as RepairTicketStatus })
+        .catch(() => this.logger.warn('User notify failed'));
+
+      await this.conversationService.set(lineUserId, STATUS_COMMENT_FLOW, {
+        ticketId: updated.id,
+        ticketCode: updated.ticketCode,
+        status,
+      });
+
+      await client.pushMessage(lineUserId, {
+        type: 'text',
+        text: `อัปเดตงาน ${updated.ticketCode} เป็น "${REPAIR_STATUS_LABELS[status as RepairTicketStatus]}" แล้ว\n\nพิมพ์หมายเหตุเพิ่มเติมได้ภายใน 10 นาที`,
+        quickReply: {
+          items: [
+            {
+              type: 'action',
+              action: { type: 'postback', label: 'ไม่มีหมายเหตุ', data: 'action=skip_status_comment', displayText: 'ไม่มีหมายเหตุ' },
+            },
+          ],
+        },
+      });
+    } catch (error) {
+      await this.replyError(client, lineUserId, error);
+    }
+  }
+
+  private async handleStatusComment(lineUserId: string, text: string, client: line.Client) {
+    const conversation = await this.conversationService.get<{
+      ticketId: number;
+      ticketCode: string;
+      status: RepairTicketStatus;
+    }>(lineUserId, STATUS_COMMENT_FLOW);
+    if (!conversation) return false;
+
+    const staff = await this.findVerifiedStaff(lineUserId);
+    await this.conversationService.clear(lineUserId);
+    if (!staff) return false;
+
+    try {
+      await this.repairsService.addStatusComment(conversation.data.ticketId, staff, text);
+
+      // The status notification went out before the comment was typed; follow up with it
+      this.dispatcherService
+        .dispatch({
+          type: 'REPAIR_STATUS_CHANGED',
+          ticketId: conversation.data.ticketId,
+          status: conversation.data.status,
+          remark: text,
+        })
+        .catch(() => this.logger.warn('User notify failed'));
+
+      await this.reply(client, lineUserId, `บันทึกหมายเหตุของงาน ${conversation.data.ticketCode} แล้ว`);
+    } catch (error) {
+      await this.replyError(client, lineUserId, error);
+    }
+    return true;
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  private async findVerifiedStaff(lineUserId: string) {
+    const link = await this.prisma.lineOALink.findFirst({
+      where: { lineUserId, status: 'VERIFIED' },
+      include: { user: { select: { id: true, role: true } } },
+    });
+    if (!link || link.user.role === Role.USER) return null;
+    return link.user;
+  }
+
+  /**
+   * The ticket, provided the LINE user is a verified staff member assigned to it
+   */
+  private async findAssignedTicket(lineUserId: string, ticketCode: string, client: line.Client) {
+    const staff = await this.findVerifiedStaff(lineUserId);
+    if (!staff) {
+      await this.reply(client, lineUserId, 'เฉพาะเจ้าหน้าที่ IT ที่ยืนยันบัญชี LINE แล้วเท่านั้น');
+      return null;
+    }
+
+    const ticket = await this.prisma.repairTicket.findUnique({
+      where: { ticketCode },
+      select: { id: true, status: true, assignees: { select: { userId: true } } },
+    });
+    if (!ticket) {
+      await this.reply(client, lineUserId, `ไม่พบงานซ่อม ${ticketCode}`);
+      return null;
+    }
+    if (!ticket.assignees.some((a) => a.userId === staff.id)) {
+      await this.reply(client, lineUserId, `คุณไม่ได้เป็นผู้รับผิดชอบงาน ${ticketCode}`);
+      return null;
+    }
+
+    return { staff, ticket };
+  }
+
+  private async reply(client: line.Client, lineUserId: string, text: string) {
+    await client.pushMessage(lineUserId, { type: 'text', text });
+  }
+
+  private async replyError(client: line.Client, lineUserId: string, error: unknown) {
+    if (error instanceof HttpException) {
+      return this.reply(client, lineUserId, error.message);
+    }
+    this.logger.error('LINE repair action failed', error as any);
+    return this.reply(client, lineUserId, 'เกิดข้อผิดพลาด กรุณาลองใหม่อีกครั้ง');
+  }
+}
@@ -0,0 +1,148 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RepairLineChatService } from './repair-line-chat.service';
+import { RepairsService } from './repairs.service';
+import { RepairLineActionsService } from './repair-line-actions.service';
+import { UsersService } from '../users/users.service';
+import { LineOAService } from '../line-oa/line-oa.service';
+import { LineOAWebhookService } from '../line-oa/line-oa-webhook.service';
+import { LineConversationService } from '../line-oa/line-conversation.service';
+
+describe('RepairLineChatService', () => {
+  let service: RepairLineChatService;
+  let conversations: Map<string, { flow: string; data: any }>;
+  let postbacks: Map<string, Function>;
+  let messageHandler: Function;
+  let repairsService: any;
+  let repairLineActions: { routeNewTicket: jest.Mock };
+  let client: any;
+
+  const lineUserId = 'U123';
+
+  const sendText = (text: string) => messageHandler(lineUserId, { type: 'text', text }, client);
+  const postback = (data: string) => {
+    const params = new URLSearchParams(data);
+    return postbacks.get(params.get('action')!)!(lineUserId, params, client);
+  };
+
+  beforeEach(async () => {
+    conversations = new Map();
+    postbacks = new Map();
+    repairsService = {
+      create: jest.fn().mockResolvedValue({
+        ticketCode: 'REP-1',
+        problemTitle: 'จอไม่ติด',
+        location: 'ห้องบัญชี',
+        urgency: 'URGENT',
+      }),
+      attachmentSizeLimit: jest.fn().mockReturnValue(5 * 1024 * 1024),
+    };
+    repairLineActions = { routeNewTicket: jest.fn().mockResolvedValue(undefined) };
+    client = {
+      pushMessage: jest.fn(),
+      getProfile: jest.fn().mockResolvedValue({ displayName: 'Somchai' }),
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RepairLineChatService,
+        { provide: RepairsService, useValue: repairsService },
+        { provide: RepairLineActionsService, useValue: repairLineActions },
+        {
+          provide: UsersService,
+          useValue: { getOrCreateUserFromLine: jest.fn().mockResolvedValue({ id: 7, name: 'Somchai' }) },
+        },
+        {
+          provide: LineOAService,
+          useValue: { getMessageContent: jest.fn().mockResolvedValue(Buffer.from('img')) },
+        },
+        {
+          provide: LineOAWebhookService,
+          useValue: {
+            registerPostbackHandler: (action: string, handler: Function) => postbacks.set(action, handler),
+            registerMessageHandler: (handler: Function) => (messageHandler = handler),
+          },
+        },
+        {
+          provide: LineConversationService,
+          useValue: {
+            get: jest.fn(async (id: string, flow: string) => {
+              const c = conversations.get(id);
+              return c && c.flow === flow ? { flow: c.flow, data: JSON.parse(JSON.stringify(c.data)) } : null;
+            }),
+            set: jest.fn(async (id: string, flow: string, data: any) => conversations.set(id, { flow, data })),
+            clear: jest.fn(async (id: string) => conversations.delete(id)),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get(RepairLineChatService);
+    service.onModuleInit();
+  });
+
+  it('should ignore ordinary text when no dialog is active', async () => {
+    await expect(sendText('สวัสดี')).resolves.toBe(false);
+  });
+
+  it('should walk through the steps and create the ticket with the image', async () => {
+    await expect(sendText('แจ้งซ่อม')).resolves.toBe(true);
+    await postback('action=chat_repair_category&value=HARDWARE');
+    await sendText('จอไม่ติด');
+    await sendText('ห้องบัญชี');
+    await postback('action=chat_repair_urgency&value=URGENT');
+
+    expect(conversations.get(lineUserId)!.data).toEqual({
+      step: 'image',
+      problemCategory: 'HARDWARE',
+      problemTitle: 'จอไม่ติด',
+      location: 'ห้องบัญชี',
+      urgency: 'URGENT',
+    });
+
+    await messageHandler(lineUserId, { type: 'image', id: 'm1' }, client);
+
+    expect(repairsService.create).toHaveBeenCalledWith(
+      7,
+      expect.objectContaining({
+        problemCategory: 'HARDWARE',
+        problemTitle: 'จอไม่ติด',
+        location: 'ห้องบัญชี',
+        urgency: 'URGENT',
+        reporterLineId: lineUserId,
+      }),
+      [expect.objectContaining({ mimetype: 'image/jpeg', size: 3 })],
+    );
+    expect(conversations.has(lineUserId)).toBe(false);
+  });
+
+  it('should still confirm the report when routing the new ticket fails', async () => {
+    repairLineActions.routeNewTicket.mockRejectedValue(new Error('LINE down'));
+    conversations.set(lineUserId, {
+      flow: 'repair_create',
+      data: { step: 'image', problemCategory: 'HARDWARE', problemTitle: 'จอไม่ติด', location: 'ห้องบัญชี' },
+    });
+
+    await messageHandler(lineUserId, { type: 'image', id: 'm1' }, client);
+
+    expect(client.pushMessage).toHaveBeenLastCalledWith(lineUserId, {
+      type: 'text',
+      text: expect.stringContaining('รับแจ้งซ่อมเรียบร้อย'),
+    });
+  });
+
+  it('should repeat the question when the answer does not fit the step', async () => {
+    await postback('action=chat_repair');
+    await sendText('ไม่ได้กดปุ่ม');
+
+    expect(conversations.get(lineUserId)!.data.step).toBe('category');
+    expect(client.pushMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop the draft on cancel', async () => {
+    await postback('action=chat_repair');
+    await sendText('ยกเลิก');
+
+    expect(conversations.has(lineUserId)).toBe(false);
+    expect(repairsService.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,310 @@
+import { BadRequestException, Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ProblemCategory, UrgencyLevel } from '@prisma/client';
+import * as line from '@line/bot-sdk';
+import { LineOAService } from '../line-oa/line-oa.service';
+import { LineOAWebhookService } from '../line-oa/line-oa-webhook.service';
+import { LineConversationService } from '../line-oa/line-conversation.service';
+import { UsersService } from '../users/users.service';
+import { RepairsService } from './repairs.service';
+import { RepairLineActionsService } from './repair-line-actions.service';
+import { CreateRepairTicketDto } from './dto/create-repair-ticket.dto';
+
+const FLOW = 'repair_create';
+const TTL_MINUTES = 30;
+const START_KEYWORD = 'แจ้งซ่อม';
+const CANCEL_KEYWORD = 'ยกเลิก';
+const MAX_TITLE_LENGTH = 200;
+
+const CATEGORY_LABELS: Record<ProblemCategory, string> = {
+  HARDWARE: 'ฮาร์ดแวร์',
+  SOFTWARE: 'ซอฟต์แวร์',
+  NETWORK: 'เครือข่าย/อินเทอร์เน็ต',
+  PERIPHERAL: 'อุปกรณ์ต่อพ่วง',
+  EMAIL_OFFICE365: 'อีเมล/Office 365',
+  ACCOUNT_PASSWORD: 'บัญชี/รหัสผ่าน',
+  OTHER: 'อื่นๆ',
+};
+
+const URGENCY_LABELS: Record<UrgencyLevel, string> = {
+  NORMAL: 'ปกติ',
+  URGENT: 'ด่วน',
+  CRITICAL: 'ด่วนที่สุด',
+};
+
+type DraftStep = 'category' | 'title' | 'location' | 'urgency' | 'image';
+
+interface RepairDraft {
+  step: DraftStep;
+  problemCategory?: ProblemCategory;
+  problemTitle?: string;
+  location?: string;
+  urgency?: UrgencyLevel;
+}
+
+/**
+ * Step-by-step repair report inside the LINE chat, for users who cannot open the LIFF form.
+ * The draft is kept in LineConversation so the dialog survives restarts.
+ */
+@Injectable()
+export class RepairLineChatService implements OnModuleInit {
+  private readonly logger = new Logger(RepairLineChatService.name);
+
+  constructor(
+    private readonly repairsService: RepairsService,
+    private readonly usersService: UsersService,
+    private readonly lineOAService: LineOAService,
+    private readonly webhookService: LineOAWebhookService,
+    private readonly conversationService: LineConversationService,
+    private readonly repairLineActions: RepairLineActionsService,
+  ) {}
+
+  onModuleInit() {
+    this.webhookService.registerPostbackHandler('chat_repair', (lineUserId, _params, client) =>
+      this.start(lineUserId, client),
+    );
+    this.webhookService.registerPostbackHandler('chat_repair_category', (lineUserId, params, client) =>
+      this.handleChoice(lineUserId, 'category', params.get('value'), client),
+    );
+    this.webhookService.registerPostbackHandler('chat_repair_urgency', (lineUserId, params, client) =>
+      this.handleChoice(lineUserId, 'urgency', params.get('value'), client),
+    );
+    this.webhookService.registerPostbackHandler('chat_repair_skip_image', async (lineUserId, _params, client) => {
+      const draft = await this.getDraft(lineUserId);
+      if (draft?.step === 'image') await this.submit(lineUserId, draft, client);
+    });
+    this.webhookService.registerPostbackHandler('chat_repair_cancel', (lineUserId, _params, client) =>
+      this.cancel(lineUserId, client),
+    );
+    this.webhookService.registerMessageHandler((lineUserId, message, client) =>
+      this.handleMessage(lineUserId, message, client),
+    );
+  }
+
+  /* =======================
+     DIALOG
+  ======================= */
+
+  private async start(lineUserId: string, client: line.Client) {
+    const draft: RepairDraft = { step: 'category' };
+    await this.saveDraft(lineUserId, draft);
+    await this.prompt(lineUserId, draft, client);
+  }
+
+  private async cancel(lineUserId: string, client: line.Client) {
+    await this.conversationService.clear(lineUserId);
+    await client.pushMessage(lineUserId, { type: 'text', text: 'ยกเลิกการแจ้งซ่อมแล้ว' });
+  }
+
+  /**
+   * Quick-reply answers for category and urgency
+   */
+  private async handleChoice(
+    lineUserId: string,
+    step: 'category' | 'urgency',
+    value: string | null,
+    client: line.Client,
+  ) {
+    const draft = await this.getDraft(lineUserId);
+    if (!draft) return this.start(lineUserId, client);
+    if (draft.step !== step) return this.prompt(lineUserId, draft, client);
+
+    if (step === 'category' && Object.values(ProblemCategory).includes(value as ProblemCategory)) {
+      draft.problemCategory = value as ProblemCategory;
+      draft.step = 'title';
+    }
+    if (step === 'urgency' && Object.values(UrgencyLevel).includes(value as UrgencyLevel)) {
+      draft.urgency = value as UrgencyLevel;
+      draft.step = 'image';
+    }
+
+    await this.saveDraft(lineUserId, draft);
+    await this.prompt(lineUserId, draft, client);
+  }
+
+  private async handleMessage(lineUserId: string, message: line.EventMessage, client: line.Client) {
+    const draft = await this.getDraft(lineUserId);
+
+    if (!draft) {
+      if (message.type === 'text' && message.text.trim() === START_KEYWORD) {
+        await this.start(lineUserId, client);
+        return true;
+      }
+      return false;
+    }
+
+    if (message.type === 'text') {
+      const text = message.text.trim();
+      if (text === CANCEL_KEYWORD) {
+        await this.cancel(lineUserId, client);
+        return true;
+      }
+
+      if (draft.step === 'title' && text) {
+        draft.problemTitle = text.slice(0, MAX_TITLE_LENGTH);
+        draft.step = 'location';
+      } else if (draft.step === 'location' && text) {
+        draft.location = text;
+        draft.step = 'urgency';
+      }
+    }
+
+    if (message.type === 'image' && draft.step === 'image') {
+      let buffer: Buffer;
+      try {
+        buffer = await this.lineOAService.getMessageContent(
+          message.id,
+          this.repairsService.attachmentSizeLimit('image/jpeg'),
+        );
+      } catch (error: any) {
+        if (!(error instanceof BadRequestException)) throw error;
+        // Image too large; stay on the image step so the user can send a smaller one
+        await client.pushMessage(lineUserId, { type: 'text', text: error.message });
+        return true;
+      }
+      await this.submit(lineUserId, draft, client, {
+        fieldname: 'files',
+        originalname: `line-${message.id}.jpg`,
+        encoding: '7bit',
+        mimetype: 'image/jpeg',
+        size: buffer.length,
+        buffer,
+      } as Express.Multer.File);
+      return true;
+    }
+
+    // Anything that did not answer the current question just repeats it
+    await this.saveDraft(lineUserId, draft);
+    await this.prompt(lineUserId, draft, client);
+    return true;
+  }
+
+  private async submit(
+    lineUserId: string,
+    draft: RepairDraft,
+    client: line.Client,
+    image?: Express.Multer.File,
+  ) {
+    try {
+      const profile = await client.getProfile(lineUserId).catch(() => null);
+      const user = await this.usersService.getOrCreateUserFromLine(
+        lineUserId,
+        profile?.displayName,
+        profile?.pictureUrl,
+      );
+
+      const dto = new CreateRepairTicketDto();
+      dto.reporterName = profile?.displayName || user.name;
+      dto.reporterDepartment = user.department ?? undefined;
+      dto.departmentId = user.departmentId ?? undefined;
+      dto.reporterPhone = user.phoneNumber ?? undefined;
+      dto.reporterLineId = lineUserId;
+      dto.problemCategory = draft.problemCategory ?? ProblemCategory.OTHER;
+      dto.problemTitle = draft.problemTitle!;
+      dto.location = draft.location!;
+      dto.urgency = draft.urgency ?? UrgencyLevel.NORMAL;
+
+      const ticket = await this.repairsService.create(user.id, dto, image ? [image] : undefined);
+      await this.conversationService.clear(lineUserId);
+      await this.repairLineActions
+        .routeNewTicket(ticket)
+        .catch((error) => this.logger.warn(`Routing ${ticket.ticketCode} failed: ${error.message}`));
+
+      await client.pushMessage(lineUserId, {
+        type: 'text',
+        text:
+          `✅ รับแจ้งซ่อมเรียบร้อย\n\n` +
+          `เลขที่: ${ticket.ticketCode}\n` +
+          `ปัญหา: ${ticket.problemTitle}\n` +
+          `สถานที่: ${ticket.location}\n` +
+          `ความเร่งด่วน: ${URGENCY_LABELS[ticket.urgency]}\n\n` +
+          `ติดตามสถานะได้จากเมนู "ตรวจสอบสถานะ"`,
+      });
+    } catch (error: any) {
+      if (error instanceof BadRequestException) {
+        // e.g. image too large; stay on the image step so the user can retry
+        await client.pushMessage(lineUserId, { type: 'text', text: error.message });
+        return;
+      }
+      this.logger.error(`Chat repair creation failed: ${error.message}`, error.stack);
+      await client.pushMessage(lineUserId, {
+        type: 'text',
+        text: 'สร้างรายการแจ้งซ่อมไม่สำเร็จ กรุณาลองใหม่อีกครั้ง',
+      });
+    }
+  }
+
+  /**
+   * Ask the question for the draft's current step
+   */
+  private async prompt(lineUserId: string, draft: RepairDraft, client: line.Client) {
+    const cancel = this.quickReply('ยกเลิก', 'action=chat_repair_cancel');
+
+    const messages: Record<DraftStep, line.TextMessage> = {
+      category: {
+        type: 'text',
+        text: '🔧 แจ้งซ่อมผ่านแชท (1/5)\nเลือกประเภทปัญหา',
+        quickReply: {
+          items: [
+            ...Object.values(ProblemCategory).map((c) =>
+              this.quickReply(CATEGORY_LABELS[c], `action=chat_repair_category&value=${c}`),
+            ),
+            cancel,
+          ],
+        },
+      },
+      title: {
+        type: 'text',
+        text: '(2/5) พิมพ์อาการหรือหัวข้อปัญหา\nเช่น "คอมพิวเตอร์เปิดไม่ติด"',
+        quickReply: { items: [cancel] },
+      },
+      location: {
+        type: 'text',
+        text: '(3/5) พิมพ์สถานที่ที่พบปัญหา\nเช่น "อาคาร 1 ชั้น 2 ห้องบัญชี"',
+        quickReply: { items: [cancel] },
+      },
+      urgency: {
+        type: 'text',
+        text: '(4/5) เลือกระดับความเร่งด่วน',
+        quickReply: {
+          items: [
+            ...Object.values(UrgencyLevel).map((u) =>
+              this.quickReply(URGENCY_LABELS[u], `action=chat_repair_urgency&value=${u}`),
+            ),
+            cancel,
+          ],
+        },
+      },
+      image: {
+        type: 'text',
+        text: '(5/5) ส่งรูปภาพประกอบ 1 รูป หรือกด "ข้าม"',
+        quickReply: {
+          items: [
+            { type: 'action', action: { type: 'camera', label: 'ถ่ายรูป' } },
+            { type: 'action', action: { type: 'cameraRoll', label: 'เลือกรูป' } },
+            this.quickReply('ข้าม', 'action=chat_repair_skip_image'),
+            cancel,
+          ],
+        },
+      },
+    };
+
+    await client.pushMessage(lineUserId, messages[draft.step]);
+  }
+
+  /* =======================
+     HELPERS
+  ======================= */
+
+  private quickReply(label: string, data: string): line.QuickReplyItem {
+    return { type: 'action', action: { type: 'postback', label, data, displayText: label } };
+  }
+
+  private async getDraft(lineUserId: string) {
+    const conversation = await this.conversationService.get<RepairDraft>(lineUserId, FLOW);
+    return conversation?.data ?? null;
+  }
+
+  private async saveDraft(lineUserId: string, draft: RepairDraft) {
+    await this.conversationService.set(lineUserId, FLOW, draft, TTL_MINUTES);
+  }
+}
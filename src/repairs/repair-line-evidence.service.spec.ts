@@ -0,0 +1,143 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RepairLineEvidenceService } from './repair-line-evidence.service';
+import { RepairsService } from './repairs.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { LineOAService } from '../line-oa/line-oa.service';
+import { FALLBACK_MESSAGE_HANDLER_PRIORITY, LineOAWebhookService } from '../line-oa/line-oa-webhook.service';
+import { LineConversationService } from '../line-oa/line-conversation.service';
+
+describe('RepairLineEvidenceService', () => {
+  let postbacks: Map<string, Function>;
+  let messageHandler: Function;
+  let messagePriority: number | undefined;
+  let conversations: Map<string, { flow: string; data: any }>;
+  let prisma: any;
+  let repairsService: any;
+  let client: { pushMessage: jest.Mock };
+
+  const lineUserId = 'U-reporter';
+  const reporter = { id: 10, role: 'USER' };
+  const ticketA = { id: 1, ticketCode: 'REP-1', problemTitle: 'จอไม่ติด' };
+  const ticketB = { id: 2, ticketCode: 'REP-2', problemTitle: 'เน็ตช้า' };
+
+  const image = { type: 'image', id: 'm1', contentProvider: { type: 'line' } };
+  const location = { type: 'location', title: 'ห้องบัญชี', address: '', latitude: 13.75, longitude: 100.5 };
+  const send = (message: any) => messageHandler(lineUserId, message, client);
+  const lastReply = () => client.pushMessage.mock.calls.at(-1)[1].text;
+
+  beforeEach(async () => {
+    postbacks = new Map();
+    conversations = new Map();
+    prisma = {
+      repairTicket: {
+        findMany: jest.fn().mockResolvedValue([ticketA]),
+        findFirst: jest.fn().mockResolvedValue(ticketB),
+      },
+    };
+    repairsService = {
+      findUserByLineId: jest.fn().mockResolvedValue(reporter),
+      addAttachment: jest.fn(),
+      update: jest.fn(),
+      attachmentSizeLimit: jest.fn().mockReturnValue(5 * 1024 * 1024),
+    };
+    client = { pushMessage: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RepairLineEvidenceService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: RepairsService, useValue: repairsService },
+        { provide: LineOAService, useValue: { getMessageContent: jest.fn().mockResolvedValue(Buffer.from('img')) } },
+        {
+          provide: LineOAWebhookService,
+          useValue: {
+            registerPostbackHandler: (action: string, handler: Function) => postbacks.set(action, handler),
+            registerMessageHandler: (handler: Function, priority?: number) => {
+              messageHandler = handler;
+              messagePriority = priority;
+            },
+          },
+        },
+        {
+          provide: LineConversationService,
+          useValue: {
+            get: jest.fn(async (id: string, flow: string) => {
+              const c = conversations.get(id);
+              return c && c.flow === flow ? { flow: c.flow, data: JSON.parse(JSON.stringify(c.data)) } : null;
+            }),
+            set: jest.fn(async (id: string, flow: string, data: any) => conversations.set(id, { flow, data })),
+            clear: jest.fn(async (id: string) => conversations.delete(id)),
+          },
+        },
+      ],
+    }).compile();
+
+    module.get(RepairLineEvidenceService).onModuleInit();
+  });
+
+  it('should yield photos to conversations that are waiting for one', () => {
+    expect(messagePriority).toBe(FALLBACK_MESSAGE_HANDLER_PRIORITY);
+  });
+
+  it('should attach straight away to the only open ticket', async () => {
+    await expect(send(image)).resolves.toBe(true);
+
+    expect(repairsService.addAttachment).toHaveBeenCalledWith(
+      1,
+      { filename: 'line-m1.jpg', mimeType: 'image/jpeg', buffer: Buffer.from('img') },
+      reporter,
+    );
+    expect(lastReply()).toBe('แนบไฟล์ 1 รายการ ในงาน REP-1 แล้ว');
+  });
+
+  it('should hold everything sent until a ticket is picked when several are open', async () => {
+    prisma.repairTicket.findMany.mockResolvedValue([ticketA, ticketB]);
+
+    await send(image);
+    await send(location);
+
+    expect(repairsService.addAttachment).not.toHaveBeenCalled();
+    // Asked once, not once per file
+    expect(client.pushMessage).toHaveBeenCalledTimes(1);
+    expect(conversations.get(lineUserId)!.data.items).toHaveLength(2);
+
+    await postbacks.get('attach_evidence')!(lineUserId, new URLSearchParams({ code: 'REP-2' }), client);
+
+    expect(prisma.repairTicket.findFirst).toHaveBeenCalledWith(
+      expect.objectContaining({ where: expect.objectContaining({ ticketCode: 'REP-2', userId: 10 }) }),
+    );
+    expect(repairsService.addAttachment).toHaveBeenCalledWith(2, expect.anything(), reporter);
+    expect(repairsService.update).toHaveBeenCalledWith(
+      2,
+      { location: 'ห้องบัญชี (13.750000, 100.500000)' },
+      reporter,
+    );
+    expect(conversations.has(lineUserId)).toBe(false);
+  });
+
+  it('should tell the user to resend when the pick comes after the wait expired', async () => {
+    await postbacks.get('attach_evidence')!(lineUserId, new URLSearchParams({ code: 'REP-2' }), client);
+
+    expect(repairsService.addAttachment).not.toHaveBeenCalled();
+    expect(lastReply()).toBe('หมดเวลาเลือกงานแล้ว กรุณาส่งไฟล์ใหม่อีกครั้ง');
+  });
+
+  it('should update the location from a shared pin', async () => {
+    await send(location);
+
+    expect(repairsService.update).toHaveBeenCalledWith(1, { location: 'ห้องบัญชี (13.750000, 100.500000)' }, reporter);
+    expect(lastReply()).toBe('อัปเดตสถานที่เป็น "ห้องบัญชี (13.750000, 100.500000)" ในงาน REP-1 แล้ว');
+  });
+
+  it('should still confirm the files when the location update fails', async () => {
+    prisma.repairTicket.findMany.mockResolvedValue([ticketA, ticketB]);
+    repairsService.update.mockRejectedValue(new Error('db down'));
+    await send(image);
+    await send(location);
+
+    await postbacks.get('attach_evidence')!(lineUserId, new URLSearchParams({ code: 'REP-2' }), client);
+
+    expect(repairsService.addAttachment).toHaveBeenCalledTimes(1);
+    expect(lastReply()).toBe('แนบไฟล์ 1 รายการ ในงาน REP-2 แล้ว\nแต่อัปเดตสถานที่ไม่สำเร็จ กรุณาส่งตำแหน่งอีกครั้ง');
+  });
+});
@@ -0,0 +1,233 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { RepairTicketStatus } from '@prisma/client';
+import * as line from '@line/bot-sdk';
+import { PrismaService } from '../prisma/prisma.service';
+import { LineOAService } from '../line-oa/line-oa.service';
+import { FALLBACK_MESSAGE_HANDLER_PRIORITY, LineOAWebhookService } from '../line-oa/line-oa-webhook.service';
+import { LineConversationService } from '../line-oa/line-conversation.service';
+import { RepairsService } from './repairs.service';
+import { RepairActor } from './repair-status-transitions';
+
+const FLOW = 'repair_evidence';
+const TTL_MINUTES = 10;
+// One quick reply slot is kept for "cancel"
+const MAX_TICKET_CHOICES = 12;
+const MAX_LABEL_LENGTH = 20;
+
+const OPEN_STATUSES: RepairTicketStatus[] = [
+  RepairTicketStatus.PENDING,
+  RepairTicketStatus.IN_PROGRESS,
+  RepairTicketStatus.WAITING_PARTS,
+];
+
+type EvidenceItem =
+  | { type: 'image' | 'video'; messageId: string; externalUrl?: string }
+  | { type: 'location'; location: string };
+
+/**
+ * Photos, videos and locations a reporter sends after filing a ticket.
+ * With a single open ticket they are attached right away; otherwise they wait
+ * in LineConversation until the user picks the ticket from a quick reply.
+ */
+@Injectable()
+export class RepairLineEvidenceService implements OnModuleInit {
+  private readonly logger = new Logger(RepairLineEvidenceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly repairsService: RepairsService,
+    private readonly lineOAService: LineOAService,
+    private readonly webhookService: LineOAWebhookService,
+    private readonly conversationService: LineConversationService,
+  ) {}
+
+  onModuleInit() {
+    // Any photo is evidence unless a conversation (e.g. the chat report's image step) asked for it
+    this.webhookService.registerMessageHandler(
+      (lineUserId, message, client) => this.handleMessage(lineUserId, message, client),
+      FALLBACK_MESSAGE_HANDLER_PRIORITY,
+    );
+    this.webhookService.registerPostbackHandler('attach_evidence', (lineUserId, params, client) =>
+      this.handlePick(lineUserId, params.get('code'), client),
+    );
+    this.webhookService.registerPostbackHandler('attach_evidence_cancel', async (lineUserId, _params, client) => {
+      await this.conversationService.clear(lineUserId);
+      await this.reply(client, lineUserId, 'ยกเลิกการแนบไฟล์แล้ว');
+    });
+  }
+
+  private async handleMessage(lineUserId: string, message: line.EventMessage, client: line.Client) {
+    const item = this.toEvidence(message);
+    if (!item) return false;
+
+    const user = await this.repairsService.findUserByLineId(lineUserId);
+    const tickets = user
+      ? await this.prisma.repairTicket.findMany({
+          where: { userId: user.id, status: { in: OPEN_STATUSES } },
+          select: { id: true, ticketCode: true, problemTitle: true },
+          orderBy: { createdAt: 'desc' },
+          take: MAX_TICKET_CHOICES,
+        })
+      : [];
+
+    if (!user || tickets.length === 0) {
+      await this.reply(client, lineUserId, 'ไม่พบงานซ่อมที่เปิดอยู่ของคุณ หากต้องการแจ้งปัญหาใหม่ พิมพ์ "แจ้งซ่อม"');
+      return true;
+    }
+
+    if (tickets.length === 1) {
+      await this.attach(lineUserId, { id: user.id, role: user.role }, tickets[0], [item], client);
+      return true;
+    }
+
+    // Several open tickets: collect everything sent until the user picks one
+    const pending = await this.conversationService.get<{ items: EvidenceItem[] }>(lineUserId, FLOW);
+    const items = [...(pending?.data.items ?? []), item];
+    await this.conversationService.set(lineUserId, FLOW, { items }, TTL_MINUTES);
+    if (pending) return true;
+
+    await client.pushMessage(lineUserId, {
+      type: 'text',
+      text: 'คุณมีงานซ่อมที่เปิดอยู่หลายรายการ\nเลือกงานที่ต้องการแนบข้อมูลนี้',
+      quickReply: {
+        items: [
+          ...tickets.map((t, i) => ({
+            type: 'action' as const,
+            action: {
+              type: 'postback' as const,
+              label: (i === 0 ? `ล่าสุด: ${t.problemTitle}` : t.problemTitle).slice(0, MAX_LABEL_LENGTH),
+              data: `action=attach_evidence&code=${t.ticketCode}`,
+              displayText: `แนบกับงาน ${t.ticketCode}`,
+            },
+          })),
+          {
+            type: 'action' as const,
+            action: {
+              type: 'postback' as const,
+              label: 'ยกเลิก',
+              data: 'action=attach_evidence_cancel',
+              displayText: 'ยกเลิก',
+            },
+          },
+        ],
+      },
+    });
+    return true;
+  }
+
+  private async handlePick(lineUserId: string, ticketCode: string | null, client: line.Client) {
+    const pending = await this.conversationService.get<{ items: EvidenceItem[] }>(lineUserId, FLOW);
+    if (!pending || !ticketCode) {
+      return this.reply(client, lineUserId, 'หมดเวลาเลือกงานแล้ว กรุณาส่งไฟล์ใหม่อีกครั้ง');
+    }
+
+    const user = await this.repairsService.findUserByLineId(lineUserId);
+    const ticket = user
+      ? await this.prisma.repairTicket.findFirst({
+          where: { ticketCode, userId: user.id, status: { in: OPEN_STATUSES } },
+          select: { id: true, ticketCode: true, problemTitle: true },
+        })
+      : null;
+    if (!user || !ticket) {
+      return this.reply(client, lineUserId, `ไม่พบงานซ่อม ${ticketCode} ที่เปิดอยู่ของคุณ`);
+    }
+
+    await this.conversationService.clear(lineUserId);
+    await this.attach(lineUserId, { id: user.id, role: user.role }, ticket, pending.data.items, client);
+  }
+
+  private async attach(
+    lineUserId: string,
+    actor: RepairActor,
+    ticket: { id: number; ticketCode: string },
+    items: EvidenceItem[],
+    client: line.Client,
+  ) {
+    let files = 0;
+    let location: string | undefined;
+
+    for (const item of items) {
+      try {
+        if (item.type === 'location') {
+          location = item.location;
+          continue;
+        }
+
+        const extension = item.type === 'image' ? 'jpg' : 'mp4';
+        const mimeType = item.type === 'image' ? 'image/jpeg' : 'video/mp4';
+        await this.repairsService.addAttachment(
+          ticket.id,
+          {
+            filename: `line-${item.messageId}.${extension}`,
+            mimeType,
+            ...(item.externalUrl
+              ? { fileUrl: item.externalUrl }
+              : {
+                  buffer: await this.lineOAService.getMessageContent(
+                    item.messageId,
+                    this.repairsService.attachmentSizeLimit(mimeType),
+                  ),
+                }),
+          },
+          actor,
+        );
+        files++;
+      } catch (error: any) {
+        this.logger.error(`Failed to attach LINE ${item.type} to ${ticket.ticketCode}: ${error.message}`);
+      }
+    }
+
+    let locationFailed = false;
+    if (location) {
+      try {
+        await this.repairsService.update(ticket.id, { location }, actor);
+      } catch (error: any) {
+        this.logger.error(`Failed to update location of ${ticket.ticketCode}: ${error.message}`);
+        locationFailed = true;
+      }
+    }
+
+    const parts = [
+      ...(files > 0 ? [`แนบไฟล์ ${files} รายการ`] : []),
+      ...(location && !locationFailed ? [`อัปเดตสถานที่เป็น "${location}"`] : []),
+    ];
+    // Whatever was attached stays attached, so report it alongside the failed location
+    const text =
+      parts.length > 0
+        ? `${parts.join(' และ ')} ในงาน ${ticket.ticketCode} แล้ว`
+        : `แนบข้อมูลกับงาน ${ticket.ticketCode} ไม่สำเร็จ กรุณาลองใหม่อีกครั้ง`;
+    await this.reply(
+      client,
+      lineUserId,
+      locationFailed && parts.length > 0 ? `${text}
+แต่อัปเดตสถานที่ไม่สำเร็จ กรุณาส่งตำแหน่งอีกครั้ง` : text,
+    );
+  }
+
+  private toEvidence(message: line.EventMessage): EvidenceItem | null {
+    switch (message.type) {
+      case 'image':
+      case 'video':
+        return {
+          type: message.type,
+          messageId: message.id,
+          // Content sent from another service is not stored by LINE; keep its URL
+          externalUrl:
+            message.contentProvider.type === 'external'
+              ? message.contentProvider.originalContentUrl
+              : undefined,
+        };
+      case 'location': {
+        const place = [message.title, message.address].filter(Boolean).join(' ');
+        const coordinates = `${message.latitude.toFixed(6)}, ${message.longitude.toFixed(6)}`;
+        return { type: 'location', location: place ? `${place} (${coordinates})` : coordinates };
+      }
+      default:
+        return null;
+    }
+  }
+
+  private async reply(client: line.Client, lineUserId: string, text: string) {
+    await client.pushMessage(lineUserId, { type: 'text', text });
+  }
+}
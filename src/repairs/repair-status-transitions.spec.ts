@@ -0,0 +1,76 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { RepairTicketStatus } from '@prisma/client';
+import {
+  assertRepairStatusTransition,
+  canTransition,
+} from './repair-status-transitions';
+
+describe('Repair status transitions', () => {
+  const ticket = (status: RepairTicketStatus) => ({
+    status,
+    userId: 10,
+    assigneeIds: [2],
+  });
+
+  const admin = { id: 1, role: 'ADMIN' };
+  const assignedTech = { id: 2, role: 'IT' };
+  const otherTech = { id: 3, role: 'IT' };
+  const reporter = { id: 10, role: 'USER' };
+  const stranger = { id: 11, role: 'USER' };
+
+  describe('canTransition', () => {
+    it('should follow the declared graph', () => {
+      expect(canTransition('PENDING', 'IN_PROGRESS')).toBe(true);
+      expect(canTransition('IN_PROGRESS', 'WAITING_PARTS')).toBe(true);
+      expect(canTransition('WAITING_PARTS', 'IN_PROGRESS')).toBe(true);
+      expect(canTransition('WAITING_PARTS', 'COMPLETED')).toBe(true);
+    });
+
+    it('should treat COMPLETED and CANCELLED as terminal', () => {
+      expect(canTransition('COMPLETED', 'PENDING')).toBe(false);
+      expect(canTransition('CANCELLED', 'PENDING')).toBe(false);
+      expect(canTransition('CANCELLED', 'IN_PROGRESS')).toBe(false);
+    });
+  });
+
+  describe('assertRepairStatusTransition', () => {
+    it('should reject moves outside the graph with 409', () => {
+      expect(() =>
+        assertRepairStatusTransition(ticket('COMPLETED'), 'PENDING', admin),
+      ).toThrow(ConflictException);
+      expect(() =>
+        assertRepairStatusTransition(ticket('PENDING'), 'COMPLETED', admin),
+      ).toThrow(ConflictException);
+    });
+
+    it('should allow assigned technicians and ADMIN to work the ticket', () => {
+      expect(() =>
+        assertRepairStatusTransition(ticket('PENDING'), 'IN_PROGRESS', assignedTech),
+      ).not.toThrow();
+      expect(() =>
+        assertRepairStatusTransition(ticket('IN_PROGRESS'), 'COMPLETED', admin),
+      ).not.toThrow();
+    });
+
+    it('should forbid unassigned staff and reporters from work statuses', () => {
+      expect(() =>
+        assertRepairStatusTransition(ticket('PENDING'), 'IN_PROGRESS', otherTech),
+      ).toThrow(ForbiddenException);
+      expect(() =>
+        assertRepairStatusTransition(ticket('IN_PROGRESS'), 'COMPLETED', reporter),
+      ).toThrow(ForbiddenException);
+    });
+
+    it('should let reporters cancel only their own PENDING tickets', () => {
+      expect(() =>
+        assertRepairStatusTransition(ticket('PENDING'), 'CANCELLED', reporter),
+      ).not.toThrow();
+      expect(() =>
+        assertRepairStatusTransition(ticket('IN_PROGRESS'), 'CANCELLED', reporter),
+      ).toThrow(ForbiddenException);
+      expect(() =>
+        assertRepairStatusTransition(ticket('PENDING'), 'CANCELLED', stranger),
+      ).toThrow(ForbiddenException);
+    });
+  });
+});
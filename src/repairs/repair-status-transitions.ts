@@ -0,0 +1,89 @@
+import { ConflictException, ForbiddenException } from '@nestjs/common';
+import { RepairTicketStatus, Role } from '@prisma/client';
+
+export interface RepairActor {
+  id: number;
+  role: Role | string;
+}
+
+export interface RepairTransitionTarget {
+  status: RepairTicketStatus;
+  userId: number;
+  assigneeIds: number[];
+}
+
+export const REPAIR_STATUS_LABELS: Record<RepairTicketStatus, string> = {
+  PENDING: 'รอดำเนินการ',
+  IN_PROGRESS: 'กำลังดำเนินการ',
+  WAITING_PARTS: 'รออะไหล่',
+  COMPLETED: 'เสร็จสิ้น',
+  CANCELLED: 'ยกเลิก',
+};
+
+/**
+ * Allowed status moves. COMPLETED and CANCELLED are terminal.
+ */
+export const REPAIR_STATUS_TRANSITIONS: Record<RepairTicketStatus, RepairTicketStatus[]> = {
+  PENDING: [RepairTicketStatus.IN_PROGRESS, RepairTicketStatus.CANCELLED],
+  IN_PROGRESS: [
+    RepairTicketStatus.WAITING_PARTS,
+    RepairTicketStatus.COMPLETED,
+    RepairTicketStatus.CANCELLED,
+  ],
+  WAITING_PARTS: [
+    RepairTicketStatus.IN_PROGRESS,
+    RepairTicketStatus.COMPLETED,
+    RepairTicketStatus.CANCELLED,
+  ],
+  COMPLETED: [],
+  CANCELLED: [],
+};
+
+// Work statuses only the people doing the job (or an admin) may set
+const TECHNICIAN_STATUSES: RepairTicketStatus[] = [
+  RepairTicketStatus.IN_PROGRESS,
+  RepairTicketStatus.WAITING_PARTS,
+  RepairTicketStatus.COMPLETED,
+];
+
+export function canTransition(from: RepairTicketStatus, to: RepairTicketStatus): boolean {
+  return REPAIR_STATUS_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * Throws 409 when the move is not in the graph, 403 when the actor may not make it.
+ */
+export function assertRepairStatusTransition(
+  ticket: RepairTransitionTarget,
+  to: RepairTicketStatus,
+  actor: RepairActor,
+) {
+  if (!canTransition(ticket.status, to)) {
+    throw new ConflictException(
+      `Cannot change repair ticket status from ${ticket.status} to ${to}`,
+    );
+  }
+
+  const isAdmin = actor.role === Role.ADMIN;
+  const isAssignee = ticket.assigneeIds.includes(actor.id);
+
+  if (TECHNICIAN_STATUSES.includes(to)) {
+    if (!isAdmin && !isAssignee) {
+      throw new ForbiddenException(
+        `Permission denied: Only assigned technicians or ADMIN can set status ${to}`,
+      );
+    }
+    return;
+  }
+
+  if (to === RepairTicketStatus.CANCELLED) {
+    if (isAdmin || actor.role === Role.IT || isAssignee) return;
+
+    const isReporter = ticket.userId === actor.id;
+    if (!isReporter || ticket.status !== RepairTicketStatus.PENDING) {
+      throw new ForbiddenException(
+        'Permission denied: Reporters can only cancel their own PENDING tickets',
+      );
+    }
+  }
+}
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, ForbiddenException } from '@nestjs/common';
+import { RepairTicketStatus } from '@prisma/client';
+import { RepairWorkSessionsService, summarizeWorkSessions } from './repair-work-sessions.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('RepairWorkSessionsService', () => {
+  let service: RepairWorkSessionsService;
+  let prisma: any;
+
+  const technician = { id: 2, role: 'IT' };
+  const ticket = {
+    id: 1,
+    ticketCode: 'REP-1',
+    status: RepairTicketStatus.IN_PROGRESS,
+    assignees: [{ userId: 2 }],
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      repairTicket: { findUnique: jest.fn().mockResolvedValue(ticket) },
+      repairWorkSession: {
+        findFirst: jest.fn().mockResolvedValue(null),
+        findMany: jest.fn().mockResolvedValue([]),
+        create: jest.fn(async ({ data }: any) => ({ id: 9, ...data })),
+        update: jest.fn(async ({ data }: any) => ({ id: 9, ...data })),
+        delete: jest.fn(),
+      },
+      $queryRaw: jest.fn().mockResolvedValue([{ id: 2 }]),
+    };
+    prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [RepairWorkSessionsService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get(RepairWorkSessionsService);
+  });
+
+  describe('start', () => {
+    it('should open a session for an assignee', async () => {
+      const session = await service.start(1, technician);
+
+      expect(session).toEqual(expect.objectContaining({ repairTicketId: 1, userId: 2, startedAt: expect.any(Date) }));
+    });
+
+    it('should only let assignees track time', async () => {
+      await expect(service.start(1, { id: 5, role: 'IT' })).rejects.toThrow(ForbiddenException);
+    });
+
+    it("should check for a running timer under a lock on the technician's row", async () => {
+      await service.start(1, technician);
+
+      expect(prisma.$queryRaw).toHaveBeenCalled();
+      expect(prisma.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        prisma.repairWorkSession.findFirst.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('should refuse a second running timer', async () => {
+      prisma.repairWorkSession.findFirst.mockResolvedValue({ id: 4, repairTicket: { ticketCode: 'REP-7' } });
+
+      await expect(service.start(1, technician)).rejects.toThrow(
+        new ConflictException('A work session is already running on REP-7'),
+      );
+    });
+
+    it('should refuse a finished ticket', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ ...ticket, status: RepairTicketStatus.COMPLETED });
+
+      await expect(service.start(1, technician)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  it('should close the running session with its duration on pause', async () => {
+    const startedAt = new Date(Date.now() - 90 * 60 * 1000);
+    prisma.repairWorkSession.findFirst.mockResolvedValue({ id: 9, startedAt });
+
+    const session = await service.pause(1, technician);
+
+    expect(session.endReason).toBe('PAUSED');
+    expect(session.durationSeconds).toBeGreaterThanOrEqual(90 * 60);
+  });
+
+  describe('corrections', () => {
+    it('should reject a manual entry that ends before it starts', async () => {
+      await expect(
+        service.create(1, { startedAt: '2026-10-19T10:00:00.000Z', endedAt: '2026-10-19T09:00:00.000Z' }, technician),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should only let assignees enter their own time', async () => {
+      await expect(
+        service.create(
+          1,
+          { startedAt: '2026-10-19T09:00:00.000Z', endedAt: '2026-10-19T10:00:00.000Z' },
+          { id: 5, role: 'IT' },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not let a technician enter time on a cancelled ticket', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ ...ticket, status: RepairTicketStatus.CANCELLED });
+
+      await expect(
+        service.create(1, { startedAt: '2026-10-19T09:00:00.000Z', endedAt: '2026-10-19T10:00:00.000Z' }, technician),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it("should reject an entry that overlaps the technician's other sessions", async () => {
+      prisma.repairWorkSession.findFirst.mockResolvedValue({ id: 4, repairTicket: { ticketCode: 'REP-7' } });
+
+      await expect(
+        service.create(1, { startedAt: '2026-10-19T09:00:00.000Z', endedAt: '2026-10-19T10:00:00.000Z' }, technician),
+      ).rejects.toThrow(new ConflictException('The time overlaps a work session on REP-7'));
+      expect(prisma.repairWorkSession.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: 2,
+            startedAt: { lt: new Date('2026-10-19T10:00:00.000Z') },
+            OR: [{ endedAt: null }, { endedAt: { gt: new Date('2026-10-19T09:00:00.000Z') } }],
+          },
+        }),
+      );
+      expect(prisma.repairWorkSession.create).not.toHaveBeenCalled();
+    });
+
+    it('should record who entered time for another technician', async () => {
+      const session = await service.create(
+        1,
+        { userId: 2, startedAt: '2026-10-19T09:00:00.000Z', endedAt: '2026-10-19T10:30:00.000Z' },
+        { id: 1, role: 'ADMIN' },
+      );
+
+      expect(session).toEqual(expect.objectContaining({ userId: 2, durationSeconds: 5400, correctedById: 1 }));
+    });
+
+    it("should not let a technician edit a colleague's session", async () => {
+      prisma.repairWorkSession.findFirst.mockResolvedValue({ id: 9, userId: 3, endedAt: new Date() });
+
+      await expect(service.update(1, 9, { note: 'fix' }, technician)).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  it('should total minutes per technician, counting running sessions up to now', () => {
+    const now = new Date('2026-10-19T12:00:00.000Z');
+    const summary = summarizeWorkSessions(
+      [
+        { userId: 2, startedAt: new Date('2026-10-19T08:00:00.000Z'), endedAt: new Date('2026-10-19T09:00:00.000Z'), durationSeconds: 3600, user: { name: 'Alice' } },
+        { userId: 2, startedAt: new Date('2026-10-19T11:30:00.000Z'), endedAt: null, durationSeconds: null, user: { name: 'Alice' } },
+        { userId: 3, startedAt: new Date('2026-10-19T10:00:00.000Z'), endedAt: new Date('2026-10-19T10:45:00.000Z'), durationSeconds: 2700, user: { name: 'Bob' } },
+      ],
+      now,
+    );
+
+    expect(summary).toEqual({
+      totalMinutes: 135,
+      running: true,
+      byTechnician: [
+        { userId: 2, name: 'Alice', running: true, minutes: 90 },
+        { userId: 3, name: 'Bob', running: false, minutes: 45 },
+      ],
+    });
+  });
+});
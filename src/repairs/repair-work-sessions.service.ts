@@ -0,0 +1,281 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, RepairTicketStatus, Role, WorkSessionEndReason } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RepairActor } from './repair-status-transitions';
+import { CreateWorkSessionDto } from './dto/create-work-session.dto';
+import { UpdateWorkSessionDto } from './dto/update-work-session.dto';
+
+const CLOSED_STATUSES: RepairTicketStatus[] = [RepairTicketStatus.COMPLETED, RepairTicketStatus.CANCELLED];
+
+const sessionInclude = { user: { select: { id: true, name: true } } } as const;
+
+export interface WorkSessionLike {
+  userId: number;
+  startedAt: Date;
+  endedAt: Date | null;
+  durationSeconds: number | null;
+  user?: { name: string };
+}
+
+function secondsBetween(from: Date, to: Date) {
+  return Math.max(0, Math.round((to.getTime() - from.getTime()) / 1000));
+}
+
+/**
+ * Total and per-technician minutes; running sessions count up to `now`
+ */
+export function summarizeWorkSessions(sessions: WorkSessionLike[], now = new Date()) {
+  const byUser = new Map<number, { userId: number; name: string | null; seconds: number; running: boolean }>();
+
+  for (const session of sessions) {
+    const seconds = session.durationSeconds ?? secondsBetween(session.startedAt, session.endedAt ?? now);
+    const entry = byUser.get(session.userId) ?? {
+      userId: session.userId,
+      name: session.user?.name ?? null,
+      seconds: 0,
+      running: false,
+    };
+    entry.seconds += seconds;
+    entry.running ||= !session.endedAt;
+    byUser.set(session.userId, entry);
+  }
+
+  const technicians = [...byUser.values()];
+  return {
+    totalMinutes: Math.round(technicians.reduce((sum, t) => sum + t.seconds, 0) / 60),
+    running: technicians.some((t) => t.running),
+    byTechnician: technicians.map(({ seconds, ...t }) => ({ ...t, minutes: Math.round(seconds / 60) })),
+  };
+}
+
+/**
+ * Close every running session on a ticket, inside the caller's transaction.
+ * Used when a ticket is completed or cancelled.
+ */
+export async function closeRunningWorkSessions(tx: Prisma.TransactionClient, repairTicketId: number, now = new Date()) {
+  const running = await tx.repairWorkSession.findMany({ where: { repairTicketId, endedAt: null } });
+  for (const session of running) {
+    await tx.repairWorkSession.update({
+      where: { id: session.id },
+      data: {
+        endedAt: now,
+        durationSeconds: secondsBetween(session.startedAt, now),
+        endReason: WorkSessionEndReason.STOPPED,
+      },
+    });
+  }
+}
+
+/**
+ * Start/pause/stop timers for the technicians assigned to a repair ticket, plus
+ * manual entries and corrections. Technicians may only touch their own sessions;
+ * admins may correct anyone's.
+ */
+@Injectable()
+export class RepairWorkSessionsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  async findAll(repairTicketId: number) {
+    await this.findTicket(repairTicketId);
+    const sessions = await this.prisma.repairWorkSession.findMany({
+      where: { repairTicketId },
+      include: sessionInclude,
+      orderBy: { startedAt: 'asc' },
+    });
+    return { sessions, summary: summarizeWorkSessions(sessions) };
+  }
+
+  async start(repairTicketId: number, actor: RepairActor, note?: string) {
+    const ticket = await this.findTicket(repairTicketId);
+    this.assertCanTrack(ticket, actor);
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockTechnician(tx, actor.id);
+
+      // One timer per technician, so the same minutes are never counted twice
+      const running = await tx.repairWorkSession.findFirst({
+        where: { userId: actor.id, endedAt: null },
+        include: { repairTicket: { select: { ticketCode: true } } },
+      });
+      if (running) {
+        throw new ConflictException(`A work session is already running on ${running.repairTicket.ticketCode}`);
+      }
+
+      return tx.repairWorkSession.create({
+        data: { repairTicketId, userId: actor.id, startedAt: new Date(), note: note ?? null },
+        include: sessionInclude,
+      });
+    });
+  }
+
+  async pause(repairTicketId: number, actor: RepairActor) {
+    return this.close(repairTicketId, actor, WorkSessionEndReason.PAUSED);
+  }
+
+  async stop(repairTicketId: number, actor: RepairActor) {
+    return this.close(repairTicketId, actor, WorkSessionEndReason.STOPPED);
+  }
+
+  async create(repairTicketId: number, dto: CreateWorkSessionDto, actor: RepairActor) {
+    const ticket = await this.findTicket(repairTicketId);
+
+    const userId = dto.userId ?? actor.id;
+    if (actor.role !== Role.ADMIN) {
+      if (userId !== actor.id) {
+        throw new ForbiddenException('Only ADMIN can record time for another technician');
+      }
+      this.assertCanTrack(ticket, actor);
+    }
+    const { startedAt, endedAt } = this.parseRange(dto.startedAt, dto.endedAt);
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockTechnician(tx, userId);
+      await this.assertNoOverlap(tx, userId, startedAt, endedAt);
+
+      return tx.repairWorkSession.create({
+        data: {
+          repairTicketId,
+          userId,
+          startedAt,
+          endedAt,
+          durationSeconds: secondsBetween(startedAt, endedAt),
+          endReason: WorkSessionEndReason.STOPPED,
+          note: dto.note ?? null,
+          correctedById: actor.id,
+          correctedAt: new Date(),
+        },
+        include: sessionInclude,
+      });
+    });
+  }
+
+  async update(repairTicketId: number, sessionId: number, dto: UpdateWorkSessionDto, actor: RepairActor) {
+    const session = await this.findSession(repairTicketId, sessionId, actor);
+    if (!session.endedAt && dto.endedAt === undefined) {
+      throw new BadRequestException('Pause or stop a running session before correcting it');
+    }
+
+    const { startedAt, endedAt } = this.parseRange(
+      dto.startedAt ?? session.startedAt.toISOString(),
+      dto.endedAt ?? session.endedAt!.toISOString(),
+    );
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.lockTechnician(tx, session.userId);
+      await this.assertNoOverlap(tx, session.userId, startedAt, endedAt, sessionId);
+
+      return tx.repairWorkSession.update({
+        where: { id: sessionId },
+        data: {
+          startedAt,
+          endedAt,
+          durationSeconds: secondsBetween(startedAt, endedAt),
+          endReason: session.endReason ?? WorkSessionEndReason.STOPPED,
+          ...(dto.note !== undefined && { note: dto.note }),
+          correctedById: actor.id,
+          correctedAt: new Date(),
+        },
+        include: sessionInclude,
+      });
+    });
+  }
+
+  async remove(repairTicketId: number, sessionId: number, actor: RepairActor) {
+    await this.findSession(repairTicketId, sessionId, actor);
+    return this.prisma.repairWorkSession.delete({ where: { id: sessionId } });
+  }
+
+  private async close(repairTicketId: number, actor: RepairActor, endReason: WorkSessionEndReason) {
+    const session = await this.prisma.repairWorkSession.findFirst({
+      where: { repairTicketId, userId: actor.id, endedAt: null },
+    });
+    if (!session) throw new BadRequestException('No work session is running on this ticket');
+
+    const endedAt = new Date();
+    return this.prisma.repairWorkSession.update({
+      where: { id: session.id },
+      data: { endedAt, durationSeconds: secondsBetween(session.startedAt, endedAt), endReason },
+      include: sessionInclude,
+    });
+  }
+
+  private async findTicket(id: number) {
+    const ticket = await this.prisma.repairTicket.findUnique({
+      where: { id },
+      select: { id: true, ticketCode: true, status: true, assignees: { select: { userId: true } } },
+    });
+    if (!ticket) throw new NotFoundException(`Repair ticket #${id} not found`);
+    return ticket;
+  }
+
+  private assertCanTrack(
+    ticket: { ticketCode: string; status: RepairTicketStatus; assignees: { userId: number }[] },
+    actor: RepairActor,
+  ) {
+    if (CLOSED_STATUSES.includes(ticket.status)) {
+      throw new BadRequestException(`Repair ticket ${ticket.ticketCode} is ${ticket.status.toLowerCase()}`);
+    }
+    if (!ticket.assignees.some((a) => a.userId === actor.id)) {
+      throw new ForbiddenException('Only technicians assigned to the ticket can track time on it');
+    }
+  }
+
+  /**
+   * Lock the technician's row so concurrent starts and entries for the same person queue
+   * up; otherwise two requests could both pass the running and overlap checks
+   */
+  private async lockTechnician(tx: Prisma.TransactionClient, userId: number) {
+    const [user] = await tx.$queryRaw<{ id: number }[]>`
+      SELECT "id" FROM "User" WHERE "id" = ${userId} FOR UPDATE
+    `;
+    if (!user) throw new BadRequestException(`User #${userId} not found`);
+  }
+
+  /**
+   * A technician cannot work two stretches at once; overlapping entries would count
+   * the same minutes twice in the totals
+   */
+  private async assertNoOverlap(
+    tx: Prisma.TransactionClient,
+    userId: number,
+    startedAt: Date,
+    endedAt: Date,
+    exceptSessionId?: number,
+  ) {
+    const overlapping = await tx.repairWorkSession.findFirst({
+      where: {
+        userId,
+        ...(exceptSessionId && { id: { not: exceptSessionId } }),
+        startedAt: { lt: endedAt },
+        OR: [{ endedAt: null }, { endedAt: { gt: startedAt } }],
+      },
+      include: { repairTicket: { select: { ticketCode: true } } },
+    });
+    if (overlapping) {
+      throw new ConflictException(`The time overlaps a work session on ${overlapping.repairTicket.ticketCode}`);
+    }
+  }
+
+  private async findSession(repairTicketId: number, sessionId: number, actor: RepairActor) {
+    const session = await this.prisma.repairWorkSession.findFirst({ where: { id: sessionId, repairTicketId } });
+    if (!session) throw new NotFoundException(`Work session #${sessionId} not found on repair ticket #${repairTicketId}`);
+    if (session.userId !== actor.id && actor.role !== Role.ADMIN) {
+      throw new ForbiddenException('Only ADMIN can change work sessions of another technician');
+    }
+    return session;
+  }
+
+  private parseRange(start: string, end: string) {
+    const startedAt = new Date(start);
+    const endedAt = new Date(end);
+    if (endedAt <= startedAt) throw new BadRequestException('endedAt must be after startedAt');
+    if (endedAt > new Date()) throw new BadRequestException('Work sessions cannot end in the future');
+    return { startedAt, endedAt };
+  }
+}
@@ -17,20 +17,29 @@ import {
   ParseIntPipe,
   UseGuards,
   ForbiddenException,
+  Res,
 } from '@nestjs/common';
+import type { Response } from 'express';
 import { FilesInterceptor } from '@nestjs/platform-express';
 import { RepairsService } from './repairs.service';
 import { CreateRepairTicketDto } from './dto/create-repair-ticket.dto';
 import { UpdateRepairTicketDto } from './dto/update-repair-ticket.dto';
+import { AddRepairPartDto } from './dto/add-repair-part.dto';
 import {
   RepairTicketStatus,
   UrgencyLevel,
   ProblemCategory,
   Role
 } from '@prisma/client';
-import { LineOANotificationService } from '../line-oa/line-oa-notification.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
 import { UsersService } from '../users/users.service';
 import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RepairLineActionsService } from './repair-line-actions.service';
+import { AssetsService } from '../assets/assets.service';
+import { RepairCalendarService } from './repair-calendar.service';
+import { RepairWorkSessionsService } from './repair-work-sessions.service';
+import { CreateWorkSessionDto } from './dto/create-work-session.dto';
+import { UpdateWorkSessionDto } from './dto/update-work-session.dto';
 
 @Controller('api/repairs')
 export class RepairsController {
@@ -38,8 +47,12 @@ export class RepairsController {
 
   constructor(
     private readonly repairsService: RepairsService,
-    private readonly lineNotificationService: LineOANotificationService,
+    private readonly dispatcherService: NotificationDispatcherService,
     private readonly usersService: UsersService,
+    private readonly repairLineActions: RepairLineActionsService,
+    private readonly assetsService: AssetsService,
+    private readonly calendarService: RepairCalendarService,
+    private readonly workSessionsService: RepairWorkSessionsService,
   ) {}
 
   /* =====================================================
@@ -57,10 +70,21 @@ export class RepairsController {
     try {
       const dto = new CreateRepairTicketDto();
 
+      // Scanned from an asset label: the asset fills in whatever the reporter left blank
+      const asset = body.assetCode ? await this.assetsService.findByCode(body.assetCode) : null;
+      // Reports already open on the asset are returned as a warning; the form prompts
+      // before submitting from GET liff/asset/:assetCode, so the report itself still goes in
+      const openAssetTickets = asset ? await this.assetsService.findOpenRepairTickets(asset.id) : [];
+
       dto.reporterName = body.reporterName || 'ไม่ได้ระบุ';
       dto.reporterDepartment = body.reporterDepartment;
+      dto.departmentId =
+        parseInt(body.departmentId, 10) ||
+        (!body.reporterDepartment && asset?.departmentId) ||
+        undefined;
+      dto.assetId = asset?.id ?? (parseInt(body.assetId, 10) || undefined);
       dto.reporterPhone = body.reporterPhone;
-      dto.location = body.location || 'ไม่ได้ระบุ';
+      dto.location = body.location || asset?.location || 'ไม่ได้ระบุ';
       dto.problemTitle = body.problemTitle || 'ไม่มีหัวข้อ';
 
       dto.reporterLineId =
@@ -72,7 +96,7 @@ export class RepairsController {
         body.problemCategory,
       )
         ? body.problemCategory
-        : ProblemCategory.OTHER;
+        : asset?.category ?? ProblemCategory.OTHER;
 
       dto.urgency = Object.values(UrgencyLevel).includes(body.urgency)
         ? body.urgency
@@ -92,23 +116,16 @@ export class RepairsController {
         files,
       );
 
-      // Notify IT (fire & forget)
-      if (ticket) {
-        this.lineNotificationService
-          .notifyRepairTicketToITTeam({
-            ticketCode: ticket.ticketCode,
-            reporterName: ticket.reporterName,
-            department: ticket.reporterDepartment || 'ไม่ระบุ',
-            problemTitle: ticket.problemTitle,
-            location: ticket.location,
-            urgency: ticket.urgency,
-            createdAt: new Date().toLocaleString('th-TH'),
-          })
-          .catch(() => this.logger.warn('IT notify failed'));
-      }
+      // The ticket is saved; a failed notification must not report the submission as failed
+      await this.repairLineActions
+        .routeNewTicket(ticket)
+        .catch((error) => this.logger.warn(`Routing ${ticket.ticketCode} failed: ${error.message}`));
 
-      return ticket;
+      return { ...ticket, openAssetTickets };
     } catch (error: any) {
+      // Unknown asset codes and invalid uploads go back to the form as they are
+      if (error instanceof HttpException) throw error;
+
       this.logger.error(error.message, error.stack);
       throw new HttpException(
         'สร้างรายการแจ้งซ่อมไม่สำเร็จ',
@@ -121,6 +138,15 @@ export class RepairsController {
       LIFF : Read
   ===================================================== */
 
+  /**
+   * Scan-to-report: the asset behind a QR label and any repair still open on it
+   */
+  @SetMetadata('isPublic', true)
+  @Get('liff/asset/:assetCode')
+  async getAssetForLiff(@Param('assetCode') assetCode: string) {
+    return this.assetsService.getReportInfo(assetCode);
+  }
+
   @SetMetadata('isPublic', true)
   @Get('liff/ticket/:code')
   async getTicketForLiff(
@@ -173,6 +199,39 @@ export class RepairsController {
     return this.repairsService.getUserTickets(user.id);
   }
 
+  /* =====================================================
+      Calendar Feeds (token in the URL, no JWT)
+  ===================================================== */
+
+  @SetMetadata('isPublic', true)
+  @Get('calendar/team/:token.ics')
+  async getTeamCalendar(@Param('token') token: string, @Res() res: Response) {
+    return this.sendCalendar(res, await this.calendarService.renderFeed(token, 'team'));
+  }
+
+  @SetMetadata('isPublic', true)
+  @Get('calendar/:token.ics')
+  async getCalendar(@Param('token') token: string, @Res() res: Response) {
+    return this.sendCalendar(res, await this.calendarService.renderFeed(token, 'mine'));
+  }
+
+  /**
+   * Subscription URLs for the signed-in technician; admins also get the team feed
+   */
+  @Get('calendar/feed')
+  @UseGuards(JwtAuthGuard)
+  async getCalendarFeed(@Req() req: any) {
+    this.assertTechnician(req.user, 'subscribe to repair calendars');
+    return this.calendarUrls(req, await this.calendarService.getToken(req.user.id));
+  }
+
+  @Post('calendar/feed/reset')
+  @UseGuards(JwtAuthGuard)
+  async resetCalendarFeed(@Req() req: any) {
+    this.assertTechnician(req.user, 'subscribe to repair calendars');
+    return this.calendarUrls(req, await this.calendarService.resetToken(req.user.id));
+  }
+
   /* =====================================================
       Protected APIs
   ===================================================== */
@@ -233,6 +292,12 @@ export class RepairsController {
     return this.repairsService.findByCode(code);
   }
 
+  @Get(':id/timeline')
+  @UseGuards(JwtAuthGuard)
+  async getTimeline(@Param('id', ParseIntPipe) id: number) {
+    return this.repairsService.getTimeline(id);
+  }
+
   @Get(':id')
   @UseGuards(JwtAuthGuard)
   async findOne(@Param('id', ParseIntPipe) id: number) {
@@ -250,19 +315,16 @@ export class RepairsController {
       const updated = await this.repairsService.update(
         id,
         dto,
-        req.user.id,
+        req.user,
       );
 
-      if (dto.status && updated?.userId) {
-        const technicianNames = (updated as any).assignees?.map((a: any) => a.user.name) || [];
-        this.lineNotificationService
-          .notifyRepairTicketStatusUpdate(updated.userId, {
-            ticketCode: updated.ticketCode,
-            problemTitle: updated.problemTitle,
-            status: dto.status,
-            remark: dto.notes,
-            updatedAt: new Date(),
-            technicianNames: technicianNames,
+      if (updated.statusChanged) {
+        this.dispatcherService
+          .dispatch({
+            type: 'REPAIR_STATUS_CHANGED',
+            ticketId: updated.id,
+            status: updated.status,
+            remark: dto.comment ?? dto.notes,
           })
           .catch(() => this.logger.warn('User notify failed'));
       }
@@ -274,6 +336,101 @@ export class RepairsController {
     }
   }
 
+  @Post(':id/parts')
+  @UseGuards(JwtAuthGuard)
+  async addPart(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: AddRepairPartDto,
+    @Req() req: any,
+  ) {
+    if (req.user.role !== Role.ADMIN && req.user.role !== Role.IT) {
+      throw new ForbiddenException('Permission denied: Only ADMIN or IT can record parts');
+    }
+    return this.repairsService.addPart(id, dto, req.user);
+  }
+
+  @Delete(':id/parts/:partId')
+  @UseGuards(JwtAuthGuard)
+  async removePart(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('partId', ParseIntPipe) partId: number,
+    @Req() req: any,
+  ) {
+    if (req.user.role !== Role.ADMIN && req.user.role !== Role.IT) {
+      throw new ForbiddenException('Permission denied: Only ADMIN or IT can record parts');
+    }
+    return this.repairsService.removePart(id, partId, req.user);
+  }
+
+  /* =====================================================
+      Work Sessions (time spent per technician)
+  ===================================================== */
+
+  @Get(':id/work-sessions')
+  @UseGuards(JwtAuthGuard)
+  async getWorkSessions(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+    this.assertTechnician(req.user, 'view work sessions');
+    return this.workSessionsService.findAll(id);
+  }
+
+  @Post(':id/work-sessions/start')
+  @UseGuards(JwtAuthGuard)
+  async startWorkSession(@Param('id', ParseIntPipe) id: number, @Body('note') note: string, @Req() req: any) {
+    this.assertTechnician(req.user, 'track work time');
+    return this.workSessionsService.start(id, req.user, note);
+  }
+
+  @Post(':id/work-sessions/pause')
+  @UseGuards(JwtAuthGuard)
+  async pauseWorkSession(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+    this.assertTechnician(req.user, 'track work time');
+    return this.workSessionsService.pause(id, req.user);
+  }
+
+  @Post(':id/work-sessions/stop')
+  @UseGuards(JwtAuthGuard)
+  async stopWorkSession(@Param('id', ParseIntPipe) id: number, @Req() req: any) {
+    this.assertTechnician(req.user, 'track work time');
+    return this.workSessionsService.stop(id, req.user);
+  }
+
+  /**
+   * Manual entry for time that was not tracked live
+   */
+  @Post(':id/work-sessions')
+  @UseGuards(JwtAuthGuard)
+  async createWorkSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateWorkSessionDto,
+    @Req() req: any,
+  ) {
+    this.assertTechnician(req.user, 'track work time');
+    return this.workSessionsService.create(id, dto, req.user);
+  }
+
+  @Put(':id/work-sessions/:sessionId')
+  @UseGuards(JwtAuthGuard)
+  async updateWorkSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+    @Body() dto: UpdateWorkSessionDto,
+    @Req() req: any,
+  ) {
+    this.assertTechnician(req.user, 'track work time');
+    return this.workSessionsService.update(id, sessionId, dto, req.user);
+  }
+
+  @Delete(':id/work-sessions/:sessionId')
+  @UseGuards(JwtAuthGuard)
+  async removeWorkSession(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('sessionId', ParseIntPipe) sessionId: number,
+    @Req() req: any,
+  ) {
+    this.assertTechnician(req.user, 'track work time');
+    return this.workSessionsService.remove(id, sessionId, req.user);
+  }
+
   @Delete(':id')
   @UseGuards(JwtAuthGuard)
   async remove(
@@ -284,6 +441,27 @@ export class RepairsController {
     if (req.user.role !== Role.ADMIN && req.user.role !== Role.IT) {
       throw new ForbiddenException('Permission denied: Only ADMIN or IT can delete repair tickets');
     }
-    return this.repairsService.remove(id);
+    return this.repairsService.remove(id, req.user);
+  }
+
+  private assertTechnician(user: any, action: string) {
+    if (user.role !== Role.ADMIN && user.role !== Role.IT) {
+      throw new ForbiddenException(`Permission denied: Only ADMIN or IT can ${action}`);
+    }
+  }
+
+  private calendarUrls(req: any, token: string) {
+    const base = `${req.protocol}://${req.get('host')}/api/repairs/calendar`;
+    return {
+      url: `${base}/${token}.ics`,
+      ...(req.user.role === Role.ADMIN && { teamUrl: `${base}/team/${token}.ics` }),
+    };
+  }
+
+  private sendCalendar(res: Response, body: string) {
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', 'inline; filename="repairs.ics"');
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    return res.status(HttpStatus.OK).send(body);
   }
 }
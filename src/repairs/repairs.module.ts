@@ -5,11 +5,40 @@ import { PrismaModule } from '../prisma/prisma.module';
 import { LineOAModule } from '../line-oa/line-oa.module';
 import { UsersModule } from '../users/users.module';
 import { CloudinaryModule } from '../cloudinary/cloudinary.module';
+import { SlaModule } from '../sla/sla.module';
+import { AssignmentModule } from '../assignment/assignment.module';
+import { NotificationModule } from '../notification/notification.module';
+import { DepartmentsModule } from '../departments/departments.module';
+import { StockModule } from '../stock/stock.module';
+import { AssetsModule } from '../assets/assets.module';
+import { RepairLineActionsService } from './repair-line-actions.service';
+import { RepairLineChatService } from './repair-line-chat.service';
+import { RepairLineEvidenceService } from './repair-line-evidence.service';
+import { RepairCalendarService } from './repair-calendar.service';
+import { RepairWorkSessionsService } from './repair-work-sessions.service';
 
 @Module({
-  imports: [PrismaModule, LineOAModule, UsersModule, CloudinaryModule],
+  imports: [
+    PrismaModule,
+    LineOAModule,
+    UsersModule,
+    CloudinaryModule,
+    SlaModule,
+    AssignmentModule,
+    NotificationModule,
+    DepartmentsModule,
+    StockModule,
+    AssetsModule,
+  ],
   controllers: [RepairsController],
-  providers: [RepairsService],
+  providers: [
+    RepairsService,
+    RepairLineActionsService,
+    RepairLineChatService,
+    RepairLineEvidenceService,
+    RepairCalendarService,
+    RepairWorkSessionsService,
+  ],
   exports: [RepairsService],
 })
 export class RepairsModule {}
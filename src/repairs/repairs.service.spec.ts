@@ -0,0 +1,515 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { RepairLogAction, RepairTicketStatus, UrgencyLevel } from '@prisma/client';
+import { RepairsService } from './repairs.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CloudinaryService } from '../cloudinary/cloudinary.service';
+import { SlaService } from '../sla/sla.service';
+import { NotificationStreamService } from '../notification/notification-stream.service';
+import { DepartmentsService } from '../departments/departments.service';
+import { StockService } from '../stock/stock.service';
+
+describe('RepairsService', () => {
+  let service: RepairsService;
+  let prisma: any;
+  let stream: NotificationStreamService;
+  let stockService: { applyMovement: jest.Mock; checkReorderLevels: jest.Mock };
+
+  const admin = { id: 5, role: 'ADMIN' };
+
+  const existingTicket = {
+    id: 1,
+    ticketCode: 'REP-1',
+    status: RepairTicketStatus.PENDING,
+    urgency: UrgencyLevel.NORMAL,
+    scheduledAt: new Date('2026-01-01T09:00:00.000Z'),
+    problemTitle: 'Printer jam',
+    problemDescription: null,
+    location: 'Room 101',
+    notes: null,
+    userId: 10,
+    assignees: [{ userId: 2, user: { name: 'Alice' } }],
+  };
+
+  beforeEach(async () => {
+    prisma = {
+      repairTicket: {
+        findUnique: jest.fn(),
+        findUniqueOrThrow: jest.fn(),
+        update: jest.fn(),
+      },
+      repairTicketAssignee: {
+        findMany: jest.fn(),
+        create: jest.fn(),
+        deleteMany: jest.fn(),
+        createMany: jest.fn(),
+      },
+      repairTicketLog: {
+        create: jest.fn(),
+        createMany: jest.fn(),
+        findMany: jest.fn(),
+        findFirst: jest.fn(),
+        update: jest.fn(),
+      },
+      user: {
+        findMany: jest.fn(),
+        findUnique: jest.fn(),
+      },
+      repairAttachment: {
+        create: jest.fn(),
+      },
+      repairWorkSession: {
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+      },
+      repairTicketPart: {
+        findMany: jest.fn().mockResolvedValue([]),
+        findFirst: jest.fn(),
+        create: jest.fn(),
+        updateMany: jest.fn(),
+        delete: jest.fn(),
+      },
+      $queryRaw: jest.fn(),
+    };
+    stockService = { applyMovement: jest.fn(), checkReorderLevels: jest.fn() };
+    prisma.$transaction = jest.fn((arg: any) =>
+      typeof arg === 'function' ? arg(prisma) : Promise.all(arg),
+    );
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RepairsService,
+        { provide: PrismaService, useValue: prisma },
+        {
+          provide: CloudinaryService,
+          useValue: { uploadFile: jest.fn().mockResolvedValue({ url: 'https://cdn/x.jpg' }) },
+        },
+        {
+          provide: SlaService,
+          useValue: {
+            computeDueDates: jest.fn().mockResolvedValue({}),
+            statusChangeData: jest.fn().mockReturnValue({}),
+          },
+        },
+        NotificationStreamService,
+        { provide: DepartmentsService, useValue: { resolve: jest.fn() } },
+        { provide: StockService, useValue: stockService },
+      ],
+    }).compile();
+
+    service = module.get<RepairsService>(RepairsService);
+    stream = module.get(NotificationStreamService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('update', () => {
+    it('should write one log row per changed field', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicket.update.mockResolvedValue({ ...existingTicket, status: 'IN_PROGRESS' });
+
+      await service.update(
+        1,
+        {
+          status: RepairTicketStatus.IN_PROGRESS,
+          urgency: UrgencyLevel.URGENT,
+          scheduledAt: '2026-01-02T09:00:00.000Z',
+          comment: 'on my way',
+        },
+        admin,
+      );
+
+      const { data } = prisma.repairTicketLog.createMany.mock.calls[0][0];
+      expect(data).toEqual([
+        expect.objectContaining({
+          action: RepairLogAction.STATUS_CHANGED,
+          oldValue: 'PENDING',
+          newValue: 'IN_PROGRESS',
+          comment: 'on my way',
+          updatedBy: 5,
+        }),
+        expect.objectContaining({
+          action: RepairLogAction.URGENCY_CHANGED,
+          oldValue: 'NORMAL',
+          newValue: 'URGENT',
+        }),
+        expect.objectContaining({
+          action: RepairLogAction.RESCHEDULED,
+          oldValue: '2026-01-01T09:00:00.000Z',
+          newValue: '2026-01-02T09:00:00.000Z',
+        }),
+      ]);
+    });
+
+    it('should log reassignment with old and new assignee names', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicket.update.mockResolvedValue(existingTicket);
+      prisma.user.findMany.mockResolvedValue([{ name: 'Bob' }]);
+
+      await service.update(1, { assigneeIds: [3] }, admin);
+
+      expect(prisma.repairTicketAssignee.createMany).toHaveBeenCalledWith({
+        data: [{ repairTicketId: 1, userId: 3 }],
+      });
+      const { data } = prisma.repairTicketLog.createMany.mock.calls[0][0];
+      expect(data).toEqual([
+        expect.objectContaining({
+          action: RepairLogAction.ASSIGNEE_CHANGED,
+          oldValue: 'Alice',
+          newValue: 'Bob',
+        }),
+      ]);
+    });
+
+    it('should announce reassignment on the live stream', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicket.update.mockResolvedValue({ ...existingTicket, assignees: [{ userId: 3 }] });
+      prisma.user.findMany.mockResolvedValue([{ name: 'Bob' }]);
+      const publish = jest.spyOn(stream, 'publish');
+
+      await service.update(1, { assigneeIds: [3] }, admin);
+
+      expect(publish).toHaveBeenCalledWith(
+        expect.objectContaining({
+          type: 'repair.assigned',
+          userIds: [10, 3],
+          roles: ['ADMIN', 'IT'],
+        }),
+      );
+    });
+
+    it('should report whether the status actually changed', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicket.update.mockResolvedValue(existingTicket);
+
+      const resent = await service.update(1, { status: RepairTicketStatus.PENDING, notes: 'x' }, admin);
+      expect(resent.statusChanged).toBe(false);
+
+      const moved = await service.update(1, { status: RepairTicketStatus.IN_PROGRESS }, admin);
+      expect(moved.statusChanged).toBe(true);
+    });
+
+    it('should not write logs when nothing changed', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicket.update.mockResolvedValue(existingTicket);
+
+      await service.update(1, { status: RepairTicketStatus.PENDING, assigneeIds: [2] }, admin);
+
+      expect(prisma.repairTicketLog.createMany).not.toHaveBeenCalled();
+    });
+
+    it('should stamp completedAt when a ticket is completed', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({
+        ...existingTicket,
+        status: RepairTicketStatus.IN_PROGRESS,
+      });
+      prisma.repairTicket.update.mockResolvedValue(existingTicket);
+
+      await service.update(1, { status: RepairTicketStatus.COMPLETED }, { id: 2, role: 'IT' });
+
+      expect(prisma.repairTicket.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: RepairTicketStatus.COMPLETED,
+            completedAt: expect.any(Date),
+          }),
+        }),
+      );
+    });
+
+    it('should bump the calendar sequence only when the visit changes', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicket.update.mockResolvedValue(existingTicket);
+
+      await service.update(1, { scheduledAt: new Date('2026-01-02T09:00:00.000Z') }, admin);
+      expect(prisma.repairTicket.update.mock.calls[0][0].data.calendarSequence).toEqual({ increment: 1 });
+
+      await service.update(1, { scheduledAt: existingTicket.scheduledAt, notes: 'Called the reporter' }, admin);
+      expect(prisma.repairTicket.update.mock.calls[1][0].data.calendarSequence).toBeUndefined();
+    });
+
+    it('should reject reopening a completed ticket with 409', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({
+        ...existingTicket,
+        status: RepairTicketStatus.COMPLETED,
+      });
+
+      await expect(
+        service.update(1, { status: RepairTicketStatus.PENDING }, admin),
+      ).rejects.toThrow(ConflictException);
+      expect(prisma.repairTicket.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let a reporter assign themselves to complete a ticket', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ ...existingTicket, status: RepairTicketStatus.IN_PROGRESS });
+
+      await expect(
+        service.update(1, { assigneeIds: [10], status: RepairTicketStatus.COMPLETED }, { id: 10, role: 'USER' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.repairTicketAssignee.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should check a status change against the current assignees', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ ...existingTicket, status: RepairTicketStatus.IN_PROGRESS });
+
+      await expect(
+        service.update(1, { assigneeIds: [7], status: RepairTicketStatus.COMPLETED }, { id: 7, role: 'IT' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prisma.repairTicket.update).not.toHaveBeenCalled();
+    });
+
+    it('should measure a new urgency on a maintenance ticket from its scheduled visit', async () => {
+      const sla = (service as any).slaService;
+      prisma.repairTicket.findUnique.mockResolvedValue({
+        ...existingTicket,
+        problemCategory: 'HARDWARE',
+        createdAt: new Date('2025-12-25T09:00:00.000Z'),
+        maintenanceOccurrenceId: 3,
+        slaPausedMinutes: 0,
+      });
+      prisma.repairTicket.update.mockResolvedValue(existingTicket);
+
+      await service.update(1, { urgency: UrgencyLevel.URGENT }, admin);
+
+      expect(sla.computeDueDates).toHaveBeenCalledWith(
+        UrgencyLevel.URGENT,
+        'HARDWARE',
+        existingTicket.scheduledAt,
+        0,
+      );
+    });
+
+    it('should throw NotFoundException for unknown ticket', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(null);
+
+      await expect(service.update(99, { status: 'IN_PROGRESS' }, admin)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('remove', () => {
+    it('should record the cancellation in the log', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicket.update.mockResolvedValue({ ...existingTicket, status: 'CANCELLED' });
+
+      await service.remove(1, admin);
+
+      expect(prisma.repairTicketLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: RepairLogAction.CANCELLED,
+          oldValue: 'PENDING',
+          newValue: 'CANCELLED',
+          updatedBy: 5,
+        }),
+      });
+    });
+  });
+
+  describe('parts', () => {
+    it('should take the part from stock and log it', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ id: 1, ticketCode: 'REP-1', status: RepairTicketStatus.WAITING_PARTS });
+      prisma.repairTicketPart.create.mockResolvedValue({ id: 3, quantity: 2, stockItem: { code: 'RAM-8G' } });
+
+      await service.addPart(1, { stockItemId: 7, quantity: 2 }, admin);
+
+      expect(stockService.applyMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ stockItemId: 7, type: 'OUT', quantity: -2, repairTicketId: 1, userId: 5 }),
+      );
+      expect(prisma.repairTicketLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: RepairLogAction.DETAILS_UPDATED, newValue: 'RAM-8G x2', comment: 'parts' }),
+      });
+    });
+
+    it('should return unreturned parts to stock when the ticket is cancelled', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicketPart.findMany.mockResolvedValue([{ id: 3, stockItemId: 7, quantity: 2 }]);
+
+      await service.remove(1, admin);
+
+      expect(prisma.repairTicketPart.findMany).toHaveBeenCalledWith({ where: { repairTicketId: 1, returnedAt: null } });
+      expect(stockService.applyMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ stockItemId: 7, type: 'IN', quantity: 2, repairTicketId: 1 }),
+      );
+      expect(prisma.repairTicketPart.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [3] } },
+        data: { returnedAt: expect.any(Date) },
+      });
+    });
+
+    it('should also return parts when the ticket is cancelled through update', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.repairTicket.update.mockResolvedValue({ ...existingTicket, status: RepairTicketStatus.CANCELLED });
+      prisma.repairTicketPart.findMany.mockResolvedValue([{ id: 3, stockItemId: 7, quantity: 2 }]);
+
+      await service.update(1, { status: RepairTicketStatus.CANCELLED }, admin);
+
+      expect(stockService.applyMovement).toHaveBeenCalledWith(
+        prisma,
+        expect.objectContaining({ stockItemId: 7, type: 'IN', quantity: 2, reason: 'Returned from cancelled REP-1' }),
+      );
+      expect(prisma.repairTicketPart.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [3] } },
+        data: { returnedAt: expect.any(Date) },
+      });
+      expect(stockService.checkReorderLevels).toHaveBeenCalledWith([7]);
+    });
+  });
+
+  describe('getTimeline', () => {
+    it('should return logs oldest first', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ id: 1, ticketCode: 'REP-1' });
+      prisma.repairTicketLog.findMany.mockResolvedValue([]);
+
+      const result = await service.getTimeline(1);
+
+      expect(result.timeline).toEqual([]);
+      expect(prisma.repairTicketLog.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { repairTicketId: 1 },
+          orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+        }),
+      );
+    });
+  });
+
+  describe('claim', () => {
+    const technician = { id: 2, role: 'IT' };
+
+    it('should assign the first claimer and log it', async () => {
+      prisma.$queryRaw.mockResolvedValue([{ id: 1, status: RepairTicketStatus.PENDING }]);
+      prisma.repairTicketAssignee.findMany.mockResolvedValue([]);
+      prisma.user.findUnique.mockResolvedValue({ name: 'Alice' });
+      prisma.repairTicket.findUniqueOrThrow.mockResolvedValue(existingTicket);
+
+      await service.claim('REP-1', technician);
+
+      expect(prisma.repairTicketAssignee.create).toHaveBeenCalledWith({
+        data: { repairTicketId: 1, userId: 2 },
+      });
+      expect(prisma.repairTicketLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          action: RepairLogAction.ASSIGNEE_CHANGED,
+          oldValue: null,
+          newValue: 'Alice',
+          updatedBy: 2,
+        }),
+      });
+    });
+
+    it('should reject a ticket that already has an assignee', async () => {
+      prisma.$queryRaw.mockResolvedValue([{ id: 1, status: RepairTicketStatus.PENDING }]);
+      prisma.repairTicketAssignee.findMany.mockResolvedValue([{ userId: 3, user: { name: 'Bob' } }]);
+
+      await expect(service.claim('REP-1', technician)).rejects.toThrow(ConflictException);
+      expect(prisma.repairTicketAssignee.create).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFound for an unknown code', async () => {
+      prisma.$queryRaw.mockResolvedValue([]);
+
+      await expect(service.claim('REP-404', technician)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('transfer', () => {
+    it('should swap the actor for the colleague', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+      prisma.user.findUnique.mockResolvedValue({ id: 3, name: 'Bob', role: 'IT' });
+      prisma.repairTicketAssignee.deleteMany.mockResolvedValue({ count: 1 });
+      prisma.repairTicket.findUniqueOrThrow.mockResolvedValue(existingTicket);
+
+      await service.transfer('REP-1', 3, { id: 2, role: 'IT' });
+
+      expect(prisma.repairTicketAssignee.deleteMany).toHaveBeenCalledWith({
+        where: { repairTicketId: 1, userId: 2 },
+      });
+      expect(prisma.repairTicketAssignee.create).toHaveBeenCalledWith({
+        data: { repairTicketId: 1, userId: 3 },
+      });
+      expect(prisma.repairTicketLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ oldValue: 'Alice', newValue: 'Bob' }),
+      });
+    });
+
+    it('should only let an assignee transfer', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue(existingTicket);
+
+      await expect(service.transfer('REP-1', 3, { id: 9, role: 'IT' })).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('addStatusComment', () => {
+    it("should annotate the actor's latest status change", async () => {
+      prisma.repairTicketLog.findFirst.mockResolvedValue({ id: 42 });
+
+      await service.addStatusComment(1, { id: 2, role: 'IT' }, 'รออะไหล่จากร้าน');
+
+      expect(prisma.repairTicketLog.findFirst).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { repairTicketId: 1, action: RepairLogAction.STATUS_CHANGED, updatedBy: 2 },
+        }),
+      );
+      expect(prisma.repairTicketLog.update).toHaveBeenCalledWith({
+        where: { id: 42 },
+        data: { comment: 'รออะไหล่จากร้าน' },
+      });
+    });
+  });
+
+  describe('addAttachment', () => {
+    it('should upload the buffer and log the new file', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ id: 1, status: RepairTicketStatus.PENDING });
+
+      await service.addAttachment(
+        1,
+        { filename: 'line-1.jpg', mimeType: 'image/jpeg', buffer: Buffer.from('abc') },
+        { id: 10, role: 'USER' },
+      );
+
+      expect(prisma.repairAttachment.create).toHaveBeenCalledWith({
+        data: {
+          repairTicketId: 1,
+          filename: 'line-1.jpg',
+          fileUrl: 'https://cdn/x.jpg',
+          fileSize: 3,
+          mimeType: 'image/jpeg',
+        },
+      });
+      expect(prisma.repairTicketLog.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ action: RepairLogAction.DETAILS_UPDATED, newValue: 'line-1.jpg' }),
+      });
+    });
+
+    it('should reject file types other than images and MP4 videos', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ id: 1, status: RepairTicketStatus.PENDING });
+
+      await expect(
+        service.addAttachment(
+          1,
+          { filename: 'run.exe', mimeType: 'application/octet-stream', buffer: Buffer.from('abc') },
+          { id: 10, role: 'USER' },
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(prisma.repairAttachment.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject an image over the 5MB limit', async () => {
+      prisma.repairTicket.findUnique.mockResolvedValue({ id: 1, status: RepairTicketStatus.PENDING });
+
+      await expect(
+        service.addAttachment(
+          1,
+          { filename: 'big.jpg', mimeType: 'image/jpeg', buffer: Buffer.alloc(5 * 1024 * 1024 + 1) },
+          { id: 10, role: 'USER' },
+        ),
+      ).rejects.toThrow('File size exceeds 5MB limit');
+    });
+  });
+});
@@ -1,12 +1,39 @@
-import { Injectable, NotFoundException, BadRequestException, Logger } from '@nestjs/common';
+import {
+  Injectable,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { RepairTicketStatus, UrgencyLevel } from '@prisma/client';
+import {
+  Prisma,
+  RepairLogAction,
+  RepairTicketStatus,
+  Role,
+  StockMovementType,
+  UrgencyLevel,
+} from '@prisma/client';
 import { CloudinaryService } from '../cloudinary/cloudinary.service';
+import { SlaService, slaStartOf } from '../sla/sla.service';
+import { NotificationStreamService } from '../notification/notification-stream.service';
+import { DepartmentsService } from '../departments/departments.service';
+import { StockService } from '../stock/stock.service';
+import { AddRepairPartDto } from './dto/add-repair-part.dto';
+import { closeRunningWorkSessions, summarizeWorkSessions } from './repair-work-sessions.service';
+import { RepairActor, assertRepairStatusTransition } from './repair-status-transitions';
 import * as path from 'path';
 
 // Security: Allowed file types and size limits
 const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/gif', 'image/webp'];
 const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+// Evidence sent from LINE may also be a short video
+const ALLOWED_VIDEO_MIME_TYPES = ['video/mp4'];
+const MAX_VIDEO_SIZE = 20 * 1024 * 1024; // 20MB
+
+// Fields shown on the iCalendar event
+const CALENDAR_FIELDS = ['status', 'scheduledAt', 'location', 'problemTitle', 'problemDescription'];
 
 @Injectable()
 export class RepairsService {
@@ -15,6 +42,10 @@ export class RepairsService {
   constructor(
     private readonly prisma: PrismaService,
     private readonly cloudinaryService: CloudinaryService,
+    private readonly slaService: SlaService,
+    private readonly streamService: NotificationStreamService,
+    private readonly departmentsService: DepartmentsService,
+    private readonly stockService: StockService,
   ) {}
 
   /**
@@ -25,7 +56,12 @@ export class RepairsService {
     return basename.replace(/[^a-zA-Z0-9.-]/g, '_');
   }
 
-  async create(userId: number, dto: any, files?: Express.Multer.File[]) {
+  async create(
+    userId: number,
+    dto: any,
+    files?: Express.Multer.File[],
+    options: { assigneeIds?: number[]; maintenanceOccurrenceId?: number } = {},
+  ) {
     const ticketCode = `REP-${Date.now()}`;
     
     const attachmentData: any[] = [];
@@ -71,26 +107,58 @@ export class RepairsService {
       }
     }
 
+    const urgency = dto.urgency || UrgencyLevel.NORMAL;
+    const createdAt = new Date();
+    const scheduledAt = dto.scheduledAt ? new Date(dto.scheduledAt) : createdAt;
+    const dueDates = await this.slaService.computeDueDates(
+      urgency,
+      dto.problemCategory,
+      slaStartOf({ createdAt, scheduledAt, maintenanceOccurrenceId: options.maintenanceOccurrenceId ?? null }),
+    );
+
+    const department = await this.departmentsService.resolve({
+      departmentId: dto.departmentId,
+      name: dto.reporterDepartment,
+    });
+    if (dto.assetId) await this.assertAssetExists(dto.assetId);
+
     const ticket = await this.prisma.repairTicket.create({
       data: {
         ticketCode,
         reporterName: dto.reporterName,
-        reporterDepartment: dto.reporterDepartment || null,
+        reporterDepartment: department.name || null,
+        departmentId: department.departmentId,
         reporterPhone: dto.reporterPhone || null,
         reporterLineId: dto.reporterLineId || null,
         problemCategory: dto.problemCategory,
         problemTitle: dto.problemTitle,
         problemDescription: dto.problemDescription || null,
         location: dto.location,
-        urgency: dto.urgency || UrgencyLevel.NORMAL,
+        assetId: dto.assetId || null,
+        maintenanceOccurrenceId: options.maintenanceOccurrenceId ?? null,
+        urgency,
         userId,
+        createdAt,
+        ...dueDates,
         notes: dto.notes || null,
-        scheduledAt: dto.scheduledAt ? new Date(dto.scheduledAt) : new Date(),
+        scheduledAt,
         attachments: {
           create: attachmentData,
         },
+        ...(options.assigneeIds?.length && {
+          assignees: { create: options.assigneeIds.map((assigneeId) => ({ userId: assigneeId })) },
+        }),
+        logs: {
+          create: {
+            action: RepairLogAction.CREATED,
+            status: RepairTicketStatus.PENDING,
+            updatedBy: userId,
+          },
+        },
       },
     });
+
+    this.streamService.publishRepairEvent('repair.created', ticket, options.assigneeIds);
     return ticket;
   }
 
@@ -102,10 +170,16 @@ export class RepairsService {
         assignees: { include: { user: true } },
         attachments: true,
         logs: { include: { user: true }, orderBy: { createdAt: 'desc' } },
+        parts: {
+          include: { stockItem: { select: { id: true, code: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        asset: { select: { id: true, assetCode: true, name: true, serialNumber: true, model: true } },
+        workSessions: { include: { user: { select: { id: true, name: true } } }, orderBy: { startedAt: 'asc' } },
       },
     });
     if (!ticket) throw new NotFoundException(`Repair ticket #${id} not found`);
-    return ticket;
+    return { ...ticket, workTime: summarizeWorkSessions(ticket.workSessions) };
   }
 
   async findByCode(ticketCode: string) {
@@ -116,54 +190,170 @@ export class RepairsService {
         assignees: { include: { user: true } },
         attachments: true,
         logs: { include: { user: true }, orderBy: { createdAt: 'desc' } },
+        parts: {
+          include: { stockItem: { select: { id: true, code: true, name: true } } },
+          orderBy: { createdAt: 'asc' },
+        },
+        asset: { select: { id: true, assetCode: true, name: true, serialNumber: true, model: true } },
+        workSessions: { include: { user: { select: { id: true, name: true } } }, orderBy: { startedAt: 'asc' } },
       },
     });
     if (!ticket) throw new NotFoundException(`Ticket ${ticketCode} not found`);
-    return ticket;
+    return { ...ticket, workTime: summarizeWorkSessions(ticket.workSessions) };
   }
 
-  async update(id: number, dto: any, updatedById: number) {
+  async update(id: number, dto: any, actor: RepairActor) {
+    const updatedById = actor.id;
+    const existing = await this.prisma.repairTicket.findUnique({
+      where: { id },
+      include: { assignees: { include: { user: { select: { name: true } } } } },
+    });
+    if (!existing) throw new NotFoundException(`Repair ticket #${id} not found`);
+
+    if (dto.assigneeIds !== undefined && actor.role !== Role.ADMIN && actor.role !== Role.IT) {
+      throw new ForbiddenException('Permission denied: Only IT or ADMIN can change assignees');
+    }
+
     // Build update data with only valid fields
     const updateData: any = {};
 
-    if (dto.status !== undefined) updateData.status = dto.status;
+    if (dto.status !== undefined && dto.status !== existing.status) {
+      // Checked against the current assignees, so a request cannot assign its sender and
+      // use that assignment to change the status in the same call
+      assertRepairStatusTransition(
+        {
+          status: existing.status,
+          userId: existing.userId,
+          assigneeIds: existing.assignees.map((a) => a.userId),
+        },
+        dto.status,
+        actor,
+      );
+      updateData.status = dto.status;
+
+      // Terminal timestamps are owned by the state machine
+      if (dto.status === RepairTicketStatus.COMPLETED) {
+        updateData.completedAt = dto.completedAt ? new Date(dto.completedAt) : new Date();
+      }
+      if (dto.status === RepairTicketStatus.CANCELLED) {
+        updateData.cancelledAt = new Date();
+      }
+
+      Object.assign(updateData, this.slaService.statusChangeData(existing, dto.status));
+    }
     if (dto.notes !== undefined) updateData.notes = dto.notes;
     // Dates need careful handling
     if (dto.scheduledAt) updateData.scheduledAt = new Date(dto.scheduledAt);
-    if (dto.completedAt) updateData.completedAt = new Date(dto.completedAt);
     
     if (dto.problemTitle !== undefined) updateData.problemTitle = dto.problemTitle;
     if (dto.problemDescription !== undefined) updateData.problemDescription = dto.problemDescription;
     if (dto.location !== undefined) updateData.location = dto.location;
+    if (dto.assetId !== undefined) {
+      if (dto.assetId) await this.assertAssetExists(dto.assetId);
+      updateData.assetId = dto.assetId || null;
+    }
     if (dto.urgency !== undefined) updateData.urgency = dto.urgency;
 
+    // A new urgency means a new SLA target, measured from when the clock started
+    if (updateData.urgency !== undefined && updateData.urgency !== existing.urgency) {
+      const pausedMinutes = updateData.slaPausedMinutes ?? existing.slaPausedMinutes;
+      const dueDates = await this.slaService.computeDueDates(
+        updateData.urgency,
+        existing.problemCategory,
+        slaStartOf({ ...existing, scheduledAt: updateData.scheduledAt ?? existing.scheduledAt }),
+        pausedMinutes,
+      );
+      updateData.responseDueAt = dueDates.responseDueAt;
+      updateData.resolutionDueAt = dueDates.resolutionDueAt;
+    }
+
+    // Calendar clients only replace an event whose SEQUENCE went up
+    const calendarChanged = CALENDAR_FIELDS.some((field) => {
+      const next = updateData[field];
+      const previous = (existing as Record<string, any>)[field];
+      if (next === undefined) return false;
+      return next instanceof Date ? next.getTime() !== previous?.getTime() : next !== previous;
+    });
+    if (calendarChanged) updateData.calendarSequence = { increment: 1 };
+
+    let assigneesChanged = false;
+    let returnedStockItemIds: number[] = [];
     try {
-      // Handle multi-assignee sync
-      if (dto.assigneeIds !== undefined) {
-        // Delete all existing assignees and recreate
-        await this.prisma.repairTicketAssignee.deleteMany({
-          where: { repairTicketId: id },
-        });
-        
-        if (dto.assigneeIds.length > 0) {
-          await this.prisma.repairTicketAssignee.createMany({
-            data: dto.assigneeIds.map((userId: number) => ({
-              repairTicketId: id,
-              userId,
-            })),
+      const ticket = await this.prisma.$transaction(async (tx) => {
+        const logs = this.buildChangeLogs(existing, updateData, updatedById, dto.comment);
+
+        // Handle multi-assignee sync
+        if (dto.assigneeIds !== undefined) {
+          const oldIds = existing.assignees.map((a) => a.userId).sort((a, b) => a - b);
+          const newIds = [...new Set<number>(dto.assigneeIds)].sort((a, b) => a - b);
+
+          // Delete all existing assignees and recreate
+          await tx.repairTicketAssignee.deleteMany({
+            where: { repairTicketId: id },
           });
+
+          if (newIds.length > 0) {
+            await tx.repairTicketAssignee.createMany({
+              data: newIds.map((userId: number) => ({
+                repairTicketId: id,
+                userId,
+              })),
+            });
+          }
+
+          if (oldIds.join(',') !== newIds.join(',')) {
+            assigneesChanged = true;
+            const newUsers = await tx.user.findMany({
+              where: { id: { in: newIds } },
+              select: { name: true },
+              orderBy: { name: 'asc' },
+            });
+            logs.push({
+              repairTicketId: id,
+              action: RepairLogAction.ASSIGNEE_CHANGED,
+              status: updateData.status ?? existing.status,
+              oldValue: existing.assignees.map((a) => a.user.name).join(', ') || null,
+              newValue: newUsers.map((u) => u.name).join(', ') || null,
+              comment: dto.comment ?? null,
+              updatedBy: updatedById,
+            });
+          }
         }
-      }
 
-      const ticket = await this.prisma.repairTicket.update({
-        where: { id },
-        data: updateData,
-        include: {
-          user: true,
-          assignees: { include: { user: true } },
-        },
+        const ticket = await tx.repairTicket.update({
+          where: { id },
+          data: updateData,
+          include: {
+            user: true,
+            assignees: { include: { user: true } },
+          },
+        });
+
+        if (logs.length > 0) {
+          await tx.repairTicketLog.createMany({ data: logs });
+        }
+
+        // Timers still running on a finished ticket stop with it
+        if (updateData.status === RepairTicketStatus.COMPLETED || updateData.status === RepairTicketStatus.CANCELLED) {
+          await closeRunningWorkSessions(tx, id);
+        }
+        if (updateData.status === RepairTicketStatus.CANCELLED) {
+          returnedStockItemIds = await this.returnUnusedParts(tx, existing, updatedById);
+        }
+
+        return ticket;
       });
-      return ticket;
+
+      if (returnedStockItemIds.length > 0) await this.stockService.checkReorderLevels(returnedStockItemIds);
+
+      const assigneeIds = ticket.assignees.map((a) => a.userId);
+      this.streamService.publishRepairEvent(
+        assigneesChanged ? 'repair.assigned' : 'repair.updated',
+        ticket,
+        assigneeIds,
+      );
+      // Callers notify the reporter only when the status really moved
+      return { ...ticket, statusChanged: updateData.status !== undefined };
     } catch (error: any) {
       // Handle "Record not found" error
       if (error.code === 'P2025') {
@@ -177,11 +367,457 @@ export class RepairsService {
     }
   }
 
-  async remove(id: number) {
-    return this.prisma.repairTicket.update({
+  async remove(id: number, actor: RepairActor, comment?: string) {
+    const existing = await this.prisma.repairTicket.findUnique({
+      where: { id },
+      include: { assignees: { select: { userId: true } } },
+    });
+    if (!existing) throw new NotFoundException(`Repair ticket #${id} not found`);
+
+    assertRepairStatusTransition(
+      {
+        status: existing.status,
+        userId: existing.userId,
+        assigneeIds: existing.assignees.map((a) => a.userId),
+      },
+      RepairTicketStatus.CANCELLED,
+      actor,
+    );
+
+    const { ticket, returnedStockItemIds } = await this.prisma.$transaction(async (tx) => {
+      const ticket = await tx.repairTicket.update({
         where: { id },
-        data: { status: RepairTicketStatus.CANCELLED, cancelledAt: new Date() }
+        data: {
+          status: RepairTicketStatus.CANCELLED,
+          cancelledAt: new Date(),
+          calendarSequence: { increment: 1 },
+        },
+      });
+      await tx.repairTicketLog.create({
+        data: {
+          repairTicketId: id,
+          action: RepairLogAction.CANCELLED,
+          status: RepairTicketStatus.CANCELLED,
+          oldValue: existing.status,
+          newValue: RepairTicketStatus.CANCELLED,
+          comment: comment ?? null,
+          updatedBy: actor.id,
+        },
+      });
+      await closeRunningWorkSessions(tx, id);
+      const returnedStockItemIds = await this.returnUnusedParts(tx, existing, actor.id);
+      return { ticket, returnedStockItemIds };
+    });
+
+    if (returnedStockItemIds.length > 0) await this.stockService.checkReorderLevels(returnedStockItemIds);
+    return ticket;
+  }
+
+  /**
+   * Parts taken for a cancelled repair go back on the shelf, in the cancelling transaction.
+   * Returns the stock items touched so the caller can re-check reorder levels after commit.
+   */
+  private async returnUnusedParts(
+    tx: Prisma.TransactionClient,
+    ticket: { id: number; ticketCode: string },
+    userId: number,
+  ) {
+    const parts = await tx.repairTicketPart.findMany({ where: { repairTicketId: ticket.id, returnedAt: null } });
+    for (const part of parts) {
+      await this.stockService.applyMovement(tx, {
+        stockItemId: part.stockItemId,
+        type: StockMovementType.IN,
+        quantity: part.quantity,
+        userId,
+        reason: `Returned from cancelled ${ticket.ticketCode}`,
+        repairTicketId: ticket.id,
+      });
+    }
+    if (parts.length > 0) {
+      await tx.repairTicketPart.updateMany({
+        where: { id: { in: parts.map((p) => p.id) } },
+        data: { returnedAt: new Date() },
+      });
+    }
+    return parts.map((p) => p.stockItemId);
+  }
+
+  /* =======================
+     SPARE PARTS
+  ======================= */
+
+  /**
+   * Take a part from stock for this ticket. The part and its OUT movement are written
+   * together, so a part is never recorded without the stock going down.
+   */
+  async addPart(id: number, dto: AddRepairPartDto, actor: RepairActor) {
+    const ticket = await this.prisma.repairTicket.findUnique({
+      where: { id },
+      select: { id: true, ticketCode: true, status: true },
+    });
+    if (!ticket) throw new NotFoundException(`Repair ticket #${id} not found`);
+    if (ticket.status === RepairTicketStatus.CANCELLED) {
+      throw new BadRequestException('Cannot add parts to a cancelled ticket');
+    }
+
+    const part = await this.prisma.$transaction(async (tx) => {
+      await this.stockService.applyMovement(tx, {
+        stockItemId: dto.stockItemId,
+        type: StockMovementType.OUT,
+        quantity: -dto.quantity,
+        userId: actor.id,
+        reason: `Used on ${ticket.ticketCode}`,
+        repairTicketId: id,
+      });
+      const created = await tx.repairTicketPart.create({
+        data: {
+          repairTicketId: id,
+          stockItemId: dto.stockItemId,
+          quantity: dto.quantity,
+          note: dto.note || null,
+          addedById: actor.id,
+        },
+        include: { stockItem: { select: { id: true, code: true, name: true } } },
+      });
+      await tx.repairTicketLog.create({
+        data: {
+          repairTicketId: id,
+          action: RepairLogAction.DETAILS_UPDATED,
+          status: ticket.status,
+          newValue: `${created.stockItem.code} x${created.quantity}`,
+          comment: 'parts',
+          updatedBy: actor.id,
+        },
+      });
+      return created;
+    });
+
+    await this.stockService.checkReorderLevels([dto.stockItemId]);
+    return part;
+  }
+
+  /**
+   * Undo a part recorded by mistake; the quantity goes back to stock
+   */
+  async removePart(id: number, partId: number, actor: RepairActor) {
+    const part = await this.prisma.repairTicketPart.findFirst({
+      where: { id: partId, repairTicketId: id },
+      include: {
+        repairTicket: { select: { ticketCode: true, status: true } },
+        stockItem: { select: { code: true } },
+      },
+    });
+    if (!part) throw new NotFoundException(`Part #${partId} not found on repair ticket #${id}`);
+    if (part.returnedAt) throw new BadRequestException('Part was already returned to stock');
+
+    const removed = await this.prisma.$transaction(async (tx) => {
+      await this.stockService.applyMovement(tx, {
+        stockItemId: part.stockItemId,
+        type: StockMovementType.IN,
+        quantity: part.quantity,
+        userId: actor.id,
+        reason: `Removed from ${part.repairTicket.ticketCode}`,
+        repairTicketId: id,
+      });
+      await tx.repairTicketLog.create({
+        data: {
+          repairTicketId: id,
+          action: RepairLogAction.DETAILS_UPDATED,
+          status: part.repairTicket.status,
+          oldValue: `${part.stockItem.code} x${part.quantity}`,
+          comment: 'parts',
+          updatedBy: actor.id,
+        },
+      });
+      return tx.repairTicketPart.delete({ where: { id: partId } });
     });
+
+    await this.stockService.checkReorderLevels([part.stockItemId]);
+    return removed;
+  }
+
+  /**
+   * Take an unassigned ticket (first come, first served). The ticket row is locked
+   * for the duration of the transaction so concurrent claims queue up and only the
+   * first one sees it without an assignee.
+   */
+  async claim(ticketCode: string, actor: RepairActor) {
+    const claimed = await this.prisma.$transaction(async (tx) => {
+      const [locked] = await tx.$queryRaw<{ id: number; status: RepairTicketStatus }[]>`
+        SELECT "id", "status" FROM "RepairTicket" WHERE "ticketCode" = ${ticketCode} FOR UPDATE
+      `;
+      if (!locked) throw new NotFoundException(`ไม่พบงานซ่อม ${ticketCode}`);
+
+      if (
+        locked.status === RepairTicketStatus.COMPLETED ||
+        locked.status === RepairTicketStatus.CANCELLED
+      ) {
+        throw new ConflictException(`งาน ${ticketCode} ปิดไปแล้ว`);
+      }
+
+      const holders = await tx.repairTicketAssignee.findMany({
+        where: { repairTicketId: locked.id },
+        include: { user: { select: { name: true } } },
+      });
+      if (holders.length > 0) {
+        throw new ConflictException(
+          `งาน ${ticketCode} มีผู้รับไปแล้ว (${holders.map((h) => h.user.name).join(', ')})`,
+        );
+      }
+
+      await tx.repairTicketAssignee.create({
+        data: { repairTicketId: locked.id, userId: actor.id },
+      });
+
+      const technician = await tx.user.findUnique({
+        where: { id: actor.id },
+        select: { name: true },
+      });
+      await tx.repairTicketLog.create({
+        data: {
+          repairTicketId: locked.id,
+          action: RepairLogAction.ASSIGNEE_CHANGED,
+          status: locked.status,
+          oldValue: null,
+          newValue: technician?.name ?? null,
+          comment: 'Claimed',
+          updatedBy: actor.id,
+        },
+      });
+
+      return tx.repairTicket.findUniqueOrThrow({
+        where: { id: locked.id },
+        include: { user: true, assignees: { include: { user: true } } },
+      });
+    });
+
+    this.streamService.publishRepairEvent('repair.assigned', claimed, claimed.assignees.map((a) => a.userId));
+    return claimed;
+  }
+
+  /**
+   * Hand the actor's assignment over to a colleague. Other assignees are kept.
+   */
+  async transfer(ticketCode: string, toUserId: number, actor: RepairActor) {
+    if (toUserId === actor.id) {
+      throw new BadRequestException('ไม่สามารถโอนงานให้ตัวเองได้');
+    }
+
+    const ticket = await this.prisma.repairTicket.findUnique({
+      where: { ticketCode },
+      include: { assignees: { include: { user: { select: { name: true } } } } },
+    });
+    if (!ticket) throw new NotFoundException(`ไม่พบงานซ่อม ${ticketCode}`);
+
+    if (
+      ticket.status === RepairTicketStatus.COMPLETED ||
+      ticket.status === RepairTicketStatus.CANCELLED
+    ) {
+      throw new ConflictException(`งาน ${ticketCode} ปิดไปแล้ว`);
+    }
+
+    const from = ticket.assignees.find((a) => a.userId === actor.id);
+    if (!from) {
+      throw new ForbiddenException('โอนได้เฉพาะงานที่คุณเป็นผู้รับผิดชอบ');
+    }
+    if (ticket.assignees.some((a) => a.userId === toUserId)) {
+      throw new ConflictException('เพื่อนร่วมทีมคนนี้รับผิดชอบงานนี้อยู่แล้ว');
+    }
+
+    const colleague = await this.prisma.user.findUnique({
+      where: { id: toUserId },
+      select: { id: true, name: true, role: true },
+    });
+    if (!colleague || colleague.role === 'USER') {
+      throw new BadRequestException('ผู้รับโอนต้องเป็นเจ้าหน้าที่ IT');
+    }
+
+    const transferred = await this.prisma.$transaction(async (tx) => {
+      // Guard against the assignment having moved since we read it
+      const { count } = await tx.repairTicketAssignee.deleteMany({
+        where: { repairTicketId: ticket.id, userId: actor.id },
+      });
+      if (count === 0) {
+        throw new ConflictException(`งาน ${ticketCode} ถูกโอนไปแล้ว`);
+      }
+
+      await tx.repairTicketAssignee.create({
+        data: { repairTicketId: ticket.id, userId: toUserId },
+      });
+      await tx.repairTicketLog.create({
+        data: {
+          repairTicketId: ticket.id,
+          action: RepairLogAction.ASSIGNEE_CHANGED,
+          status: ticket.status,
+          oldValue: from.user.name,
+          newValue: colleague.name,
+          comment: 'Transferred',
+          updatedBy: actor.id,
+        },
+      });
+
+      return tx.repairTicket.findUniqueOrThrow({
+        where: { id: ticket.id },
+        include: { user: true, assignees: { include: { user: true } } },
+      });
+    });
+
+    this.streamService.publishRepairEvent('repair.assigned', transferred, transferred.assignees.map((a) => a.userId));
+    return transferred;
+  }
+
+  /**
+   * Evidence sent after the ticket was filed, e.g. a photo from the LINE chat.
+   * `fileUrl` skips the upload for content that is already hosted elsewhere.
+   */
+  async addAttachment(
+    id: number,
+    file: { filename: string; mimeType: string; buffer?: Buffer; fileUrl?: string; size?: number },
+    actor: RepairActor,
+  ) {
+    const ticket = await this.prisma.repairTicket.findUnique({
+      where: { id },
+      select: { id: true, status: true },
+    });
+    if (!ticket) throw new NotFoundException(`Repair ticket #${id} not found`);
+
+    const maxSize = this.attachmentSizeLimit(file.mimeType);
+    const size = file.size ?? file.buffer?.length ?? 0;
+    if (size > maxSize) {
+      this.logger.warn(`Rejected attachment exceeding size limit: ${size} bytes`);
+      throw new BadRequestException(`File size exceeds ${maxSize / 1024 / 1024}MB limit`);
+    }
+
+    const filename = this.sanitizeFilename(file.filename);
+    const fileUrl = file.buffer
+      ? (await this.cloudinaryService.uploadFile(file.buffer, filename, 'repairs')).url
+      : file.fileUrl!;
+
+    const [attachment] = await this.prisma.$transaction([
+      this.prisma.repairAttachment.create({
+        data: {
+          repairTicketId: id,
+          filename,
+          fileUrl,
+          fileSize: size,
+          mimeType: file.mimeType,
+        },
+      }),
+      this.prisma.repairTicketLog.create({
+        data: {
+          repairTicketId: id,
+          action: RepairLogAction.DETAILS_UPDATED,
+          status: ticket.status,
+          newValue: filename,
+          comment: 'attachments',
+          updatedBy: actor.id,
+        },
+      }),
+    ]);
+    return attachment;
+  }
+
+  /**
+   * Largest upload allowed for an attachment type; throws for types we do not accept.
+   * Callers downloading from LINE pass this on so oversized content is never buffered.
+   */
+  attachmentSizeLimit(mimeType: string) {
+    if (ALLOWED_MIME_TYPES.includes(mimeType)) return MAX_FILE_SIZE;
+    if (ALLOWED_VIDEO_MIME_TYPES.includes(mimeType)) return MAX_VIDEO_SIZE;
+    this.logger.warn(`Rejected attachment with invalid MIME type: ${mimeType}`);
+    throw new BadRequestException(`Invalid file type: ${mimeType}. Only images and MP4 videos are allowed.`);
+  }
+
+  /**
+   * Attach a comment sent after the fact (e.g. from LINE) to the actor's latest status change
+   */
+  async addStatusComment(id: number, actor: RepairActor, comment: string) {
+    const log = await this.prisma.repairTicketLog.findFirst({
+      where: { repairTicketId: id, action: RepairLogAction.STATUS_CHANGED, updatedBy: actor.id },
+      orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    });
+    if (!log) throw new NotFoundException(`No status change by user #${actor.id} on ticket #${id}`);
+
+    return this.prisma.repairTicketLog.update({ where: { id: log.id }, data: { comment } });
+  }
+
+  /**
+   * Full change history of a ticket, oldest first
+   */
+  async getTimeline(id: number) {
+    const ticket = await this.prisma.repairTicket.findUnique({
+      where: { id },
+      select: { id: true, ticketCode: true, status: true, createdAt: true },
+    });
+    if (!ticket) throw new NotFoundException(`Repair ticket #${id} not found`);
+
+    const timeline = await this.prisma.repairTicketLog.findMany({
+      where: { repairTicketId: id },
+      include: { user: { select: { id: true, name: true, role: true } } },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+
+    return { ...ticket, timeline };
+  }
+
+  private async assertAssetExists(assetId: number) {
+    const asset = await this.prisma.asset.findUnique({ where: { id: assetId }, select: { id: true } });
+    if (!asset) throw new BadRequestException(`Asset #${assetId} not found`);
+  }
+
+  /**
+   * Compare scalar fields before/after an update and produce one log row per change.
+   * Assignee changes are logged separately since they live in their own table.
+   */
+  private buildChangeLogs(
+    existing: { id: number; status: RepairTicketStatus; urgency: UrgencyLevel; scheduledAt: Date } & Record<string, any>,
+    updateData: Record<string, any>,
+    updatedById: number,
+    comment?: string,
+  ): Prisma.RepairTicketLogCreateManyInput[] {
+    const logs: Prisma.RepairTicketLogCreateManyInput[] = [];
+    const status: RepairTicketStatus = updateData.status ?? existing.status;
+    const push = (
+      action: RepairLogAction,
+      oldValue: string | null,
+      newValue: string | null,
+      fallbackComment?: string,
+    ) =>
+      logs.push({
+        repairTicketId: existing.id,
+        action,
+        status,
+        oldValue,
+        newValue,
+        comment: comment ?? fallbackComment ?? null,
+        updatedBy: updatedById,
+      });
+
+    if (updateData.status !== undefined && updateData.status !== existing.status) {
+      push(RepairLogAction.STATUS_CHANGED, existing.status, updateData.status);
+    }
+    if (updateData.urgency !== undefined && updateData.urgency !== existing.urgency) {
+      push(RepairLogAction.URGENCY_CHANGED, existing.urgency, updateData.urgency);
+    }
+    if (
+      updateData.scheduledAt !== undefined &&
+      updateData.scheduledAt.getTime() !== existing.scheduledAt.getTime()
+    ) {
+      push(
+        RepairLogAction.RESCHEDULED,
+        existing.scheduledAt.toISOString(),
+        updateData.scheduledAt.toISOString(),
+      );
+    }
+
+    // Free-text fields share one action; the field name goes in the comment when none is given
+    for (const field of ['problemTitle', 'problemDescription', 'location', 'notes']) {
+      if (updateData[field] !== undefined && updateData[field] !== existing[field]) {
+        push(RepairLogAction.DETAILS_UPDATED, existing[field] ?? null, updateData[field] ?? null, field);
+      }
+    }
+
+    return logs;
   }
 
   async getStatistics() {
@@ -197,6 +833,18 @@ export class RepairsService {
     const getCount = (status: RepairTicketStatus) => 
       stats.find(s => s.status === status)?._count.status || 0;
 
+    // Labour from finished sessions; running timers are left out until they stop
+    const [labor, completedLabor, runningSessions] = await Promise.all([
+      this.prisma.repairWorkSession.aggregate({ _sum: { durationSeconds: true } }),
+      this.prisma.repairWorkSession.groupBy({
+        by: ['repairTicketId'],
+        where: { repairTicket: { status: RepairTicketStatus.COMPLETED } },
+        _sum: { durationSeconds: true },
+      }),
+      this.prisma.repairWorkSession.count({ where: { endedAt: null } }),
+    ]);
+    const completedSeconds = completedLabor.reduce((sum, t) => sum + (t._sum.durationSeconds ?? 0), 0);
+
     return {
       total,
       pending: getCount(RepairTicketStatus.PENDING),
@@ -204,6 +852,12 @@ export class RepairsService {
       waitingParts: getCount(RepairTicketStatus.WAITING_PARTS),
       completed: getCount(RepairTicketStatus.COMPLETED),
       cancelled: getCount(RepairTicketStatus.CANCELLED),
+      workMinutes: Math.round((labor._sum.durationSeconds ?? 0) / 60),
+      // Averaged over completed tickets that have time logged
+      avgWorkMinutesPerCompleted: completedLabor.length
+        ? Math.round(completedSeconds / completedLabor.length / 60)
+        : null,
+      runningWorkSessions: runningSessions,
     };
   }
 
@@ -221,6 +875,7 @@ export class RepairsService {
         completedAt: true,
         location: true,
         reporterName: true,
+        maintenanceOccurrence: { select: { planId: true, plan: { select: { name: true } } } },
       },
       orderBy: { scheduledAt: 'asc' },
     });
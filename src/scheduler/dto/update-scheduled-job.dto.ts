@@ -0,0 +1,12 @@
+import { IsBoolean, IsOptional, IsString } from 'class-validator';
+
+export class UpdateScheduledJobDto {
+  @IsOptional()
+  @IsBoolean()
+  enabled?: boolean;
+
+  // "every:<minutes>", "daily:HH:mm" or "weekly:D:HH:mm"
+  @IsOptional()
+  @IsString()
+  schedule?: string;
+}
@@ -0,0 +1,50 @@
+import { isValidSchedule, nextRunAfter, parseSchedule } from './job-schedule';
+
+describe('job-schedule', () => {
+  describe('parseSchedule', () => {
+    it('should parse interval and daily specs', () => {
+      expect(parseSchedule('every:15')).toEqual({ kind: 'every', minutes: 15 });
+      expect(parseSchedule('daily:08:30')).toEqual({ kind: 'daily', hour: 8, minute: 30 });
+      expect(parseSchedule('weekly:1:08:00')).toEqual({ kind: 'weekly', dayOfWeek: 1, hour: 8, minute: 0 });
+    });
+
+    it('should reject malformed specs', () => {
+      expect(isValidSchedule('every:0')).toBe(false);
+      expect(isValidSchedule('daily:25:00')).toBe(false);
+      expect(isValidSchedule('weekly:7:08:00')).toBe(false);
+      expect(isValidSchedule('*/5 * * * *')).toBe(false);
+    });
+  });
+
+  describe('nextRunAfter', () => {
+    it('should add the interval for every:N', () => {
+      expect(nextRunAfter('every:60', new Date('2026-03-02T10:00:00.000Z'))).toEqual(
+        new Date('2026-03-02T11:00:00.000Z'),
+      );
+    });
+
+    it('should pick today in Bangkok time when the slot is still ahead', () => {
+      // 00:30 UTC = 07:30 Bangkok
+      expect(nextRunAfter('daily:08:00', new Date('2026-03-02T00:30:00.000Z'))).toEqual(
+        new Date('2026-03-02T01:00:00.000Z'),
+      );
+    });
+
+    it('should roll over to tomorrow once the slot has passed', () => {
+      expect(nextRunAfter('daily:08:00', new Date('2026-03-02T01:00:00.000Z'))).toEqual(
+        new Date('2026-03-03T01:00:00.000Z'),
+      );
+    });
+
+    it('should find the next matching weekday for weekly specs', () => {
+      // Monday 2026-03-02 07:30 Bangkok -> Friday 2026-03-06 08:00 Bangkok
+      expect(nextRunAfter('weekly:5:08:00', new Date('2026-03-02T00:30:00.000Z'))).toEqual(
+        new Date('2026-03-06T01:00:00.000Z'),
+      );
+      // Monday 08:00 already passed -> next Monday
+      expect(nextRunAfter('weekly:1:08:00', new Date('2026-03-02T01:00:00.000Z'))).toEqual(
+        new Date('2026-03-09T01:00:00.000Z'),
+      );
+    });
+  });
+});
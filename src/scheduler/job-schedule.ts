@@ -0,0 +1,82 @@
+/**
+ * Job schedule specs, stored as plain strings on ScheduledJob.schedule:
+ *   every:<minutes>  - fixed interval, e.g. "every:60"
+ *   daily:HH:mm      - once a day at local time (Asia/Bangkok), e.g. "daily:08:00"
+ *   weekly:D:HH:mm   - once a week on day D (0 = Sunday) at local time, e.g. "weekly:1:08:00"
+ */
+
+// Thailand has no DST, so a fixed offset is enough
+const LOCAL_OFFSET_MINUTES = 7 * 60;
+const MINUTE = 60 * 1000;
+const DAY = 24 * 60 * MINUTE;
+
+export type JobSchedule =
+  | { kind: 'every'; minutes: number }
+  | { kind: 'daily'; hour: number; minute: number }
+  | { kind: 'weekly'; dayOfWeek: number; hour: number; minute: number };
+
+export function parseSchedule(spec: string): JobSchedule {
+  const every = /^every:(\d+)$/.exec(spec);
+  if (every) {
+    const minutes = parseInt(every[1], 10);
+    if (minutes > 0) return { kind: 'every', minutes };
+  }
+
+  const daily = /^daily:(\d{2}):(\d{2})$/.exec(spec);
+  if (daily) {
+    const hour = parseInt(daily[1], 10);
+    const minute = parseInt(daily[2], 10);
+    if (hour < 24 && minute < 60) return { kind: 'daily', hour, minute };
+  }
+
+  const weekly = /^weekly:([0-6]):(\d{2}):(\d{2})$/.exec(spec);
+  if (weekly) {
+    const dayOfWeek = parseInt(weekly[1], 10);
+    const hour = parseInt(weekly[2], 10);
+    const minute = parseInt(weekly[3], 10);
+    if (hour < 24 && minute < 60) return { kind: 'weekly', dayOfWeek, hour, minute };
+  }
+
+  throw new Error(`Invalid job schedule "${spec}"`);
+}
+
+export function isValidSchedule(spec: string): boolean {
+  try {
+    parseSchedule(spec);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * First run time strictly after `from`
+ */
+export function nextRunAfter(spec: string, from: Date): Date {
+  const schedule = parseSchedule(spec);
+
+  if (schedule.kind === 'every') {
+    return new Date(from.getTime() + schedule.minutes * MINUTE);
+  }
+
+  // Work in shifted "local" time, then shift back to UTC
+  const local = new Date(from.getTime() + LOCAL_OFFSET_MINUTES * MINUTE);
+  const candidate = Date.UTC(
+    local.getUTCFullYear(),
+    local.getUTCMonth(),
+    local.getUTCDate(),
+    schedule.hour,
+    schedule.minute,
+  );
+
+  if (schedule.kind === 'weekly') {
+    const daysAhead = (schedule.dayOfWeek - local.getUTCDay() + 7) % 7;
+    const sameWeek = candidate + daysAhead * DAY;
+    const next = sameWeek > local.getTime() ? sameWeek : sameWeek + 7 * DAY;
+    return new Date(next - LOCAL_OFFSET_MINUTES * MINUTE);
+  }
+
+  const next = candidate > local.getTime() ? candidate : candidate + DAY;
+
+  return new Date(next - LOCAL_OFFSET_MINUTES * MINUTE);
+}
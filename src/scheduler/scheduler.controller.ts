@@ -0,0 +1,43 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Body,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { SchedulerService } from './scheduler.service';
+import { UpdateScheduledJobDto } from './dto/update-scheduled-job.dto';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('api/scheduler/jobs')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('ADMIN')
+export class SchedulerController {
+  constructor(private readonly schedulerService: SchedulerService) {}
+
+  @Get()
+  async findAll() {
+    return this.schedulerService.findAll();
+  }
+
+  @Get(':name/runs')
+  async findRuns(@Param('name') name: string, @Query('limit') limit: string = '20') {
+    return this.schedulerService.findRuns(name, parseInt(limit) || 20);
+  }
+
+  @Patch(':name')
+  async updateJob(@Param('name') name: string, @Body() dto: UpdateScheduledJobDto) {
+    return this.schedulerService.updateJob(name, dto);
+  }
+
+  @Post(':name/run')
+  async triggerNow(@Param('name') name: string, @Req() req: any) {
+    return this.schedulerService.triggerNow(name, req.user.id);
+  }
+}
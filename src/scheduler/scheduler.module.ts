@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { SchedulerController } from './scheduler.controller';
+import { SchedulerService } from './scheduler.service';
+import { PrismaModule } from '../prisma/prisma.module';
+
+@Module({
+  imports: [PrismaModule],
+  controllers: [SchedulerController],
+  providers: [SchedulerService],
+  exports: [SchedulerService],
+})
+export class SchedulerModule {}
@@ -0,0 +1,139 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
+import { JobRunStatus, JobTrigger } from '@prisma/client';
+import { SchedulerService } from './scheduler.service';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('SchedulerService', () => {
+  let service: SchedulerService;
+  let prisma: any;
+  let handler: jest.Mock;
+
+  const job = { id: 1, name: 'test.job', schedule: 'every:60' };
+
+  beforeEach(async () => {
+    prisma = {
+      scheduledJob: {
+        upsert: jest.fn(),
+        findMany: jest.fn().mockResolvedValue([{ id: job.id, name: job.name }]),
+        findUnique: jest.fn().mockResolvedValue(job),
+        updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+        update: jest.fn(),
+      },
+      scheduledJobRun: {
+        create: jest.fn().mockResolvedValue({ id: 7 }),
+        update: jest.fn(async ({ data }: any) => ({ id: 7, ...data })),
+        updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+        findUnique: jest.fn().mockResolvedValue({ id: 7, status: JobRunStatus.FAILED }),
+      },
+    };
+    prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [SchedulerService, { provide: PrismaService, useValue: prisma }],
+    }).compile();
+
+    service = module.get(SchedulerService);
+    handler = jest.fn().mockResolvedValue({ processed: 3 });
+    await service.register({ name: job.name, schedule: job.schedule, handler });
+  });
+
+  it('should claim the lease only when it is free or expired', async () => {
+    await service.tick();
+
+    const { where, data } = prisma.scheduledJob.updateMany.mock.calls[0][0];
+    expect(where).toEqual(
+      expect.objectContaining({
+        name: job.name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: expect.any(Date) } }],
+        nextRunAt: { lte: expect.any(Date) },
+      }),
+    );
+    expect(data.lockedUntil.getTime()).toBeGreaterThan(Date.now());
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  describe('when another instance holds the lease', () => {
+    beforeEach(() => prisma.scheduledJob.updateMany.mockResolvedValue({ count: 0 }));
+
+    it('should skip the job on a tick', async () => {
+      await service.tick();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(prisma.scheduledJobRun.create).not.toHaveBeenCalled();
+    });
+
+    it('should refuse a manual trigger', async () => {
+      await expect(service.triggerNow(job.name)).rejects.toThrow(ConflictException);
+    });
+  });
+
+  it('should fail runs left RUNNING by an expired lease', async () => {
+    prisma.scheduledJobRun.updateMany.mockResolvedValue({ count: 1 });
+
+    await service.tick();
+
+    expect(prisma.scheduledJobRun.updateMany).toHaveBeenCalledWith({
+      where: { jobId: job.id, status: JobRunStatus.RUNNING },
+      data: expect.objectContaining({ status: JobRunStatus.FAILED, finishedAt: expect.any(Date) }),
+    });
+    expect(prisma.scheduledJobRun.updateMany.mock.invocationCallOrder[0]).toBeLessThan(
+      prisma.scheduledJobRun.create.mock.invocationCallOrder[0],
+    );
+  });
+
+  it('should record a failing handler and release the lease', async () => {
+    handler.mockRejectedValue(new Error('boom'));
+
+    const run = await service.triggerNow(job.name, 5);
+
+    expect(prisma.scheduledJobRun.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ jobId: job.id, trigger: JobTrigger.MANUAL, triggeredBy: 5 }),
+    });
+    expect(run).toEqual(expect.objectContaining({ status: JobRunStatus.FAILED, error: 'boom' }));
+    expect(prisma.scheduledJob.updateMany).toHaveBeenLastCalledWith({
+      where: { id: job.id, lockedBy: expect.any(String) },
+      data: expect.objectContaining({
+        lastStatus: JobRunStatus.FAILED,
+        lastError: 'boom',
+        nextRunAt: expect.any(Date),
+        lockedBy: null,
+        lockedUntil: null,
+      }),
+    });
+  });
+
+  describe('when the lease expires and another instance takes over', () => {
+    it('should neither release the new lease nor overwrite the failed run', async () => {
+      // Our claim succeeds; by the time the handler returns another instance holds the lock
+      prisma.scheduledJob.updateMany.mockResolvedValueOnce({ count: 1 }).mockResolvedValue({ count: 0 });
+
+      const run = await service.triggerNow(job.name);
+
+      expect(prisma.scheduledJobRun.update).not.toHaveBeenCalled();
+      expect(run).toEqual({ id: 7, status: JobRunStatus.FAILED });
+    });
+  });
+
+  it('should renew the lease while a long handler runs', async () => {
+    let finish!: () => void;
+    await service.register({
+      name: 'slow.job',
+      schedule: 'every:60',
+      // 60ms lease, renewed every 30ms
+      leaseMinutes: 0.001,
+      handler: () => new Promise<void>((resolve) => (finish = resolve)),
+    });
+
+    const running = service.triggerNow('slow.job');
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    finish();
+    await running;
+
+    const renewals = prisma.scheduledJob.updateMany.mock.calls.filter(
+      ([args]: any[]) => args.where.lockedBy && args.data.lockedUntil && !('lastStatus' in args.data),
+    );
+    expect(renewals.length).toBeGreaterThan(0);
+    expect(renewals[0][0].where).toEqual({ id: job.id, lockedBy: expect.any(String) });
+  });
+});
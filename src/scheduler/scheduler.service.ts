@@ -0,0 +1,268 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleInit,
+  OnModuleDestroy,
+  NotFoundException,
+  ConflictException,
+  BadRequestException,
+} from '@nestjs/common';
+import { JobRunStatus, JobTrigger, Prisma } from '@prisma/client';
+import { hostname } from 'os';
+import crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { isValidSchedule, nextRunAfter } from './job-schedule';
+
+export interface ScheduledJobDefinition {
+  name: string;
+  description?: string;
+  // Default schedule; admins may change the persisted one later
+  schedule: string;
+  handler: () => Promise<unknown>;
+  // How long a run may hold the lock before another instance can take over
+  leaseMinutes?: number;
+}
+
+const TICK_INTERVAL_MS = 30 * 1000;
+const DEFAULT_LEASE_MINUTES = 10;
+
+@Injectable()
+export class SchedulerService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(SchedulerService.name);
+  private readonly instanceId = `${hostname()}-${process.pid}-${crypto.randomBytes(3).toString('hex')}`;
+  private readonly jobs = new Map<string, ScheduledJobDefinition>();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onModuleInit() {
+    // Serverless deployments should trigger jobs through the API instead
+    if (process.env.SCHEDULER_ENABLED === 'false') {
+      this.logger.log('Scheduler disabled by SCHEDULER_ENABLED=false');
+      return;
+    }
+    this.timer = setInterval(() => void this.tick(), TICK_INTERVAL_MS);
+    this.timer.unref();
+    this.logger.log(`Scheduler started as ${this.instanceId}`);
+  }
+
+  onModuleDestroy() {
+    if (this.timer) clearInterval(this.timer);
+  }
+
+  /**
+   * Register a periodic task. Call from a provider's onModuleInit.
+   */
+  async register(definition: ScheduledJobDefinition) {
+    if (!isValidSchedule(definition.schedule)) {
+      throw new Error(`Job ${definition.name} has invalid schedule "${definition.schedule}"`);
+    }
+    this.jobs.set(definition.name, definition);
+
+    await this.prisma.scheduledJob.upsert({
+      where: { name: definition.name },
+      create: {
+        name: definition.name,
+        description: definition.description,
+        schedule: definition.schedule,
+        nextRunAt: nextRunAfter(definition.schedule, new Date()),
+      },
+      update: { description: definition.description },
+    });
+    this.logger.log(`Registered job ${definition.name} (${definition.schedule})`);
+  }
+
+  /* =======================
+     ADMIN API
+  ======================= */
+
+  async findAll() {
+    const jobs = await this.prisma.scheduledJob.findMany({ orderBy: { name: 'asc' } });
+    return jobs.map((job) => ({ ...job, registered: this.jobs.has(job.name) }));
+  }
+
+  async findRuns(name: string, limit = 20) {
+    const job = await this.findJobOrThrow(name);
+    return this.prisma.scheduledJobRun.findMany({
+      where: { jobId: job.id },
+      orderBy: { startedAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  async updateJob(name: string, data: { enabled?: boolean; schedule?: string }) {
+    const job = await this.findJobOrThrow(name);
+    const updateData: Prisma.ScheduledJobUpdateInput = {};
+
+    if (data.enabled !== undefined) updateData.enabled = data.enabled;
+    if (data.schedule !== undefined) {
+      if (!isValidSchedule(data.schedule)) {
+        throw new BadRequestException(`Invalid schedule "${data.schedule}"`);
+      }
+      updateData.schedule = data.schedule;
+      updateData.nextRunAt = nextRunAfter(data.schedule, new Date());
+    }
+
+    return this.prisma.scheduledJob.update({ where: { id: job.id }, data: updateData });
+  }
+
+  async triggerNow(name: string, triggeredBy?: number) {
+    const job = await this.findJobOrThrow(name);
+    if (!this.jobs.has(name)) {
+      throw new BadRequestException(`Job ${name} is not registered on this instance`);
+    }
+
+    const acquired = await this.acquireLock(name, false);
+    if (!acquired) {
+      throw new ConflictException(`Job ${name} is already running`);
+    }
+    return this.execute(job.id, name, JobTrigger.MANUAL, triggeredBy);
+  }
+
+  /* =======================
+     RUNNER
+  ======================= */
+
+  async tick() {
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      const due = await this.prisma.scheduledJob.findMany({
+        where: {
+          name: { in: [...this.jobs.keys()] },
+          enabled: true,
+          nextRunAt: { lte: new Date() },
+        },
+        select: { id: true, name: true },
+      });
+
+      for (const job of due) {
+        if (await this.acquireLock(job.name, true)) {
+          await this.execute(job.id, job.name, JobTrigger.SCHEDULE);
+        }
+      }
+    } catch (error: any) {
+      this.logger.error(`Scheduler tick failed: ${error.message}`);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Take the job lease with a single conditional UPDATE, so only one instance wins
+   */
+  private async acquireLock(name: string, onlyIfDue: boolean) {
+    const now = new Date();
+
+    const { count } = await this.prisma.scheduledJob.updateMany({
+      where: {
+        name,
+        OR: [{ lockedUntil: null }, { lockedUntil: { lt: now } }],
+        ...(onlyIfDue ? { enabled: true, nextRunAt: { lte: now } } : {}),
+      },
+      data: {
+        lockedBy: this.instanceId,
+        lockedUntil: new Date(now.getTime() + this.leaseMs(name)),
+      },
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Push the lease forward while the handler runs, so a long job is not taken over
+   */
+  private async renewLock(jobId: number, name: string) {
+    try {
+      const { count } = await this.prisma.scheduledJob.updateMany({
+        where: { id: jobId, lockedBy: this.instanceId },
+        data: { lockedUntil: new Date(Date.now() + this.leaseMs(name)) },
+      });
+      if (count === 0) this.logger.warn(`Job ${name} lost its lease while running`);
+    } catch (error: any) {
+      this.logger.warn(`Renewing the lease of job ${name} failed: ${error.message}`);
+    }
+  }
+
+  private leaseMs(name: string) {
+    return (this.jobs.get(name)?.leaseMinutes ?? DEFAULT_LEASE_MINUTES) * 60 * 1000;
+  }
+
+  private async execute(jobId: number, name: string, trigger: JobTrigger, triggeredBy?: number) {
+    const definition = this.jobs.get(name)!;
+    const startedAt = new Date();
+
+    // We hold the lease, so any run still marked RUNNING lost its lease (crash or timeout)
+    await this.prisma.scheduledJobRun.updateMany({
+      where: { jobId, status: JobRunStatus.RUNNING },
+      data: { status: JobRunStatus.FAILED, error: 'Lease expired before the run finished', finishedAt: startedAt },
+    });
+
+    const run = await this.prisma.scheduledJobRun.create({
+      data: { jobId, trigger, triggeredBy, instanceId: this.instanceId, startedAt },
+    });
+
+    let status: JobRunStatus = JobRunStatus.SUCCEEDED;
+    let result: unknown;
+    let error: string | undefined;
+
+    const heartbeat = setInterval(() => void this.renewLock(jobId, name), this.leaseMs(name) / 2);
+    heartbeat.unref();
+    try {
+      result = await definition.handler();
+    } catch (err: any) {
+      status = JobRunStatus.FAILED;
+      error = err?.message || String(err);
+      this.logger.error(`Job ${name} failed: ${error}`, err?.stack);
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    const finishedAt = new Date();
+    const durationMs = finishedAt.getTime() - startedAt.getTime();
+    const job = await this.prisma.scheduledJob.findUnique({ where: { id: jobId } });
+
+    const finishedRun = await this.prisma.$transaction(async (tx) => {
+      // Only the lease holder may finish: an instance that took over an expired lease owns
+      // the job row now and has already failed this run
+      const { count } = await tx.scheduledJob.updateMany({
+        where: { id: jobId, lockedBy: this.instanceId },
+        data: {
+          lastRunAt: startedAt,
+          lastStatus: status,
+          lastError: error ?? null,
+          lastDurationMs: durationMs,
+          nextRunAt: nextRunAfter(job!.schedule, finishedAt),
+          lockedBy: null,
+          lockedUntil: null,
+        },
+      });
+      if (count === 0) return null;
+
+      return tx.scheduledJobRun.update({
+        where: { id: run.id },
+        data: {
+          status,
+          error,
+          finishedAt,
+          durationMs,
+          result: result === undefined ? undefined : (JSON.parse(JSON.stringify(result)) as Prisma.InputJsonValue),
+        },
+      });
+    });
+
+    if (!finishedRun) {
+      this.logger.warn(`Job ${name} finished after another instance took over its lease; result discarded`);
+      return this.prisma.scheduledJobRun.findUnique({ where: { id: run.id } });
+    }
+    return finishedRun;
+  }
+
+  private async findJobOrThrow(name: string) {
+    const job = await this.prisma.scheduledJob.findUnique({ where: { name } });
+    if (!job) throw new NotFoundException(`Scheduled job ${name} not found`);
+    return job;
+  }
+}
@@ -0,0 +1,20 @@
+import { IsEnum, IsInt, IsOptional, Min } from 'class-validator';
+import { ProblemCategory, UrgencyLevel } from '@prisma/client';
+
+export class UpsertSlaPolicyDto {
+  @IsEnum(UrgencyLevel)
+  urgency: UrgencyLevel;
+
+  // Omit for the urgency-wide default
+  @IsOptional()
+  @IsEnum(ProblemCategory)
+  problemCategory?: ProblemCategory;
+
+  @IsInt()
+  @Min(1)
+  responseMinutes: number;
+
+  @IsInt()
+  @Min(1)
+  resolutionMinutes: number;
+}
@@ -0,0 +1,61 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Delete,
+  Body,
+  Param,
+  Query,
+  ParseIntPipe,
+  UseGuards,
+  BadRequestException,
+} from '@nestjs/common';
+import { SlaService } from './sla.service';
+import { UpsertSlaPolicyDto } from './dto/upsert-sla-policy.dto';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('api/sla')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class SlaController {
+  constructor(private readonly slaService: SlaService) {}
+
+  @Get('policies')
+  @Roles('ADMIN', 'IT')
+  async findAllPolicies() {
+    return this.slaService.findAllPolicies();
+  }
+
+  @Put('policies')
+  @Roles('ADMIN')
+  async upsertPolicy(@Body() dto: UpsertSlaPolicyDto) {
+    return this.slaService.upsertPolicy(dto);
+  }
+
+  @Delete('policies/:id')
+  @Roles('ADMIN')
+  async removePolicy(@Param('id', ParseIntPipe) id: number) {
+    return this.slaService.removePolicy(id);
+  }
+
+  @Post('recalculate')
+  @Roles('ADMIN')
+  async recalculate() {
+    return this.slaService.recalculateOpenTickets();
+  }
+
+  /**
+   * Tickets already breached or due within `withinMinutes` (default 4 hours)
+   */
+  @Get('at-risk')
+  @Roles('ADMIN', 'IT')
+  async findAtRisk(@Query('withinMinutes') withinMinutes?: string) {
+    const minutes = withinMinutes !== undefined ? parseInt(withinMinutes, 10) : undefined;
+    if (minutes !== undefined && (isNaN(minutes) || minutes < 0)) {
+      throw new BadRequestException('withinMinutes must be a non-negative number');
+    }
+    return this.slaService.findAtRisk(minutes);
+  }
+}
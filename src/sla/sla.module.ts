@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { SlaController } from './sla.controller';
+import { SlaService } from './sla.service';
+import { PrismaModule } from '../prisma/prisma.module';
+import { SchedulerModule } from '../scheduler/scheduler.module';
+
+@Module({
+  imports: [PrismaModule, SchedulerModule],
+  controllers: [SlaController],
+  providers: [SlaService],
+  exports: [SlaService],
+})
+export class SlaModule {}
@@ -0,0 +1,150 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RepairTicketStatus } from '@prisma/client';
+import { SlaService, DEFAULT_SLA_POLICIES, SlaClockFields } from './sla.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+
+describe('SlaService', () => {
+  let service: SlaService;
+  let prisma: any;
+
+  const created = new Date('2026-03-02T08:00:00.000Z');
+  const hours = (n: number) => new Date(created.getTime() + n * 60 * 60 * 1000);
+
+  const clock = (overrides: Partial<SlaClockFields> = {}): SlaClockFields => ({
+    status: RepairTicketStatus.IN_PROGRESS,
+    createdAt: created,
+    responseDueAt: hours(1),
+    resolutionDueAt: hours(24),
+    respondedAt: hours(0.5),
+    slaPausedAt: null,
+    slaPausedMinutes: 0,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      slaPolicy: { findMany: jest.fn().mockResolvedValue([]) },
+      repairTicket: { findMany: jest.fn(), update: jest.fn() },
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SlaService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: SchedulerService, useValue: { register: jest.fn() } },
+      ],
+    }).compile();
+
+    service = module.get<SlaService>(SlaService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('getEffectivePolicy', () => {
+    it('should fall back to the built-in default', async () => {
+      await expect(service.getEffectivePolicy('CRITICAL', 'NETWORK')).resolves.toEqual(
+        DEFAULT_SLA_POLICIES.CRITICAL,
+      );
+    });
+
+    it('should prefer a category override over the urgency default', async () => {
+      prisma.slaPolicy.findMany.mockResolvedValue([
+        { problemCategory: null, responseMinutes: 60, resolutionMinutes: 600 },
+        { problemCategory: 'NETWORK', responseMinutes: 15, resolutionMinutes: 120 },
+      ]);
+
+      await expect(service.getEffectivePolicy('URGENT', 'NETWORK')).resolves.toEqual({
+        responseMinutes: 15,
+        resolutionMinutes: 120,
+      });
+      await expect(service.getEffectivePolicy('URGENT', 'HARDWARE')).resolves.toEqual({
+        responseMinutes: 60,
+        resolutionMinutes: 600,
+      });
+    });
+  });
+
+  describe('computeDueDates', () => {
+    it('should add the policy targets to the start time', async () => {
+      const due = await service.computeDueDates('CRITICAL', null, created);
+
+      expect(due.responseDueAt).toEqual(hours(1));
+      expect(due.resolutionDueAt).toEqual(hours(24));
+    });
+  });
+
+  describe('statusChangeData', () => {
+    it('should stamp the first response when work starts', () => {
+      const data = service.statusChangeData(
+        clock({ status: 'PENDING', respondedAt: null }),
+        'IN_PROGRESS',
+        hours(0.25),
+      );
+
+      expect(data.respondedAt).toEqual(hours(0.25));
+    });
+
+    it('should pause on WAITING_PARTS and extend the due time on resume', () => {
+      const paused = service.statusChangeData(clock(), 'WAITING_PARTS', hours(2));
+      expect(paused.slaPausedAt).toEqual(hours(2));
+
+      const resumed = service.statusChangeData(
+        clock({ status: 'WAITING_PARTS', slaPausedAt: hours(2) }),
+        'IN_PROGRESS',
+        hours(5),
+      );
+      expect(resumed).toEqual({
+        slaPausedAt: null,
+        slaPausedMinutes: 180,
+        resolutionDueAt: hours(27),
+      });
+    });
+  });
+
+  describe('findAtRisk', () => {
+    it('should classify breached and at-risk tickets and skip paused ones', async () => {
+      prisma.repairTicket.findMany.mockResolvedValue([
+        { id: 1, ...clock({ resolutionDueAt: hours(10) }) },
+        { id: 2, ...clock({ resolutionDueAt: hours(13) }) },
+        {
+          id: 3,
+          ...clock({ status: 'WAITING_PARTS', resolutionDueAt: hours(11), slaPausedAt: hours(1) }),
+        },
+        { id: 4, ...clock({ respondedAt: null, responseDueAt: hours(11), resolutionDueAt: hours(40) }) },
+      ]);
+
+      const result = await service.findAtRisk(4 * 60, hours(12));
+
+      expect(result.map((t) => [t.id, t.slaState])).toEqual([
+        [1, 'BREACHED'],
+        [4, 'BREACHED'],
+        [2, 'AT_RISK'],
+      ]);
+      expect(result[1].breachedTargets).toEqual(['RESPONSE']);
+    });
+  });
+
+  describe('recalculateOpenTickets', () => {
+    it('should measure maintenance tickets from their scheduled visit', async () => {
+      const base = { urgency: 'CRITICAL', problemCategory: null, createdAt: created, slaPausedMinutes: 0 };
+      prisma.repairTicket.findMany.mockResolvedValue([
+        { id: 1, ...base, scheduledAt: hours(168), maintenanceOccurrenceId: null },
+        { id: 2, ...base, scheduledAt: hours(168), maintenanceOccurrenceId: 9 },
+      ]);
+
+      await service.recalculateOpenTickets();
+
+      expect(prisma.repairTicket.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { responseDueAt: hours(1), resolutionDueAt: hours(24) },
+      });
+      expect(prisma.repairTicket.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { responseDueAt: hours(169), resolutionDueAt: hours(192) },
+      });
+    });
+  });
+});
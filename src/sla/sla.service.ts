@@ -0,0 +1,314 @@
+import { Injectable, Logger, NotFoundException, OnModuleInit } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { SchedulerService } from '../scheduler/scheduler.service';
+import {
+  Prisma,
+  ProblemCategory,
+  RepairTicketStatus,
+  UrgencyLevel,
+} from '@prisma/client';
+import { UpsertSlaPolicyDto } from './dto/upsert-sla-policy.dto';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60;
+const DAY = 24 * HOUR;
+
+/**
+ * Built-in targets matching the FAQ promise to reporters:
+ * NORMAL 3-5 days, URGENT 1-2 days, CRITICAL same day.
+ * Used when no SlaPolicy row exists for the urgency level.
+ */
+export const DEFAULT_SLA_POLICIES: Record<
+  UrgencyLevel,
+  { responseMinutes: number; resolutionMinutes: number }
+> = {
+  NORMAL: { responseMinutes: 1 * DAY, resolutionMinutes: 5 * DAY },
+  URGENT: { responseMinutes: 4 * HOUR, resolutionMinutes: 2 * DAY },
+  CRITICAL: { responseMinutes: 1 * HOUR, resolutionMinutes: 1 * DAY },
+};
+
+const OPEN_STATUSES: RepairTicketStatus[] = [
+  RepairTicketStatus.PENDING,
+  RepairTicketStatus.IN_PROGRESS,
+  RepairTicketStatus.WAITING_PARTS,
+];
+
+export type SlaState = 'ON_TRACK' | 'AT_RISK' | 'BREACHED';
+
+export interface SlaClockFields {
+  status: RepairTicketStatus;
+  createdAt: Date;
+  responseDueAt: Date | null;
+  resolutionDueAt: Date | null;
+  respondedAt: Date | null;
+  slaPausedAt: Date | null;
+  slaPausedMinutes: number;
+}
+
+/**
+ * When a ticket's SLA clock starts. Planned maintenance is generated ahead of time,
+ * so its clock runs from the scheduled visit instead of from creation.
+ */
+export function slaStartOf(ticket: { createdAt: Date; scheduledAt: Date; maintenanceOccurrenceId: number | null }) {
+  return ticket.maintenanceOccurrenceId ? ticket.scheduledAt : ticket.createdAt;
+}
+
+@Injectable()
+export class SlaService implements OnModuleInit {
+  private readonly logger = new Logger(SlaService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly schedulerService: SchedulerService,
+  ) {}
+
+  async onModuleInit() {
+    await this.schedulerService.register({
+      name: 'sla.breach-check',
+      description: 'Count open repair tickets that breached or are close to breaching SLA',
+      schedule: 'every:15',
+      handler: async () => {
+        const tickets = await this.findAtRisk();
+        const breached = tickets.filter((t) => t.slaState === 'BREACHED').length;
+        if (breached > 0) {
+          this.logger.warn(`${breached} repair ticket(s) have breached SLA`);
+        }
+        return { breached, atRisk: tickets.length - breached };
+      },
+    });
+  }
+
+  /* =======================
+     POLICIES
+  ======================= */
+
+  async findAllPolicies() {
+    const policies = await this.prisma.slaPolicy.findMany({
+      orderBy: [{ urgency: 'asc' }, { problemCategory: 'asc' }],
+    });
+
+    return { policies, defaults: DEFAULT_SLA_POLICIES };
+  }
+
+  async upsertPolicy(dto: UpsertSlaPolicyDto) {
+    const problemCategory = dto.problemCategory ?? null;
+
+    // Postgres treats NULLs as distinct in unique indexes, so look the row up explicitly
+    const existing = await this.prisma.slaPolicy.findFirst({
+      where: { urgency: dto.urgency, problemCategory },
+    });
+
+    const data = {
+      responseMinutes: dto.responseMinutes,
+      resolutionMinutes: dto.resolutionMinutes,
+    };
+
+    if (existing) {
+      return this.prisma.slaPolicy.update({ where: { id: existing.id }, data });
+    }
+    return this.prisma.slaPolicy.create({
+      data: { ...data, urgency: dto.urgency, problemCategory },
+    });
+  }
+
+  async removePolicy(id: number) {
+    try {
+      return await this.prisma.slaPolicy.delete({ where: { id } });
+    } catch (error: any) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException(`SLA policy #${id} not found`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Category override first, then the urgency default, then the built-in default
+   */
+  async getEffectivePolicy(urgency: UrgencyLevel, problemCategory?: ProblemCategory | null) {
+    const policies = await this.prisma.slaPolicy.findMany({
+      where: {
+        urgency,
+        OR: [{ problemCategory: null }, ...(problemCategory ? [{ problemCategory }] : [])],
+      },
+    });
+
+    const policy =
+      policies.find((p) => problemCategory && p.problemCategory === problemCategory) ??
+      policies.find((p) => p.problemCategory === null);
+
+    return policy
+      ? { responseMinutes: policy.responseMinutes, resolutionMinutes: policy.resolutionMinutes }
+      : DEFAULT_SLA_POLICIES[urgency];
+  }
+
+  /* =======================
+     DUE DATES
+  ======================= */
+
+  async computeDueDates(
+    urgency: UrgencyLevel,
+    problemCategory: ProblemCategory | null | undefined,
+    from: Date,
+    pausedMinutes = 0,
+  ) {
+    const policy = await this.getEffectivePolicy(urgency, problemCategory);
+
+    return {
+      responseDueAt: new Date(from.getTime() + policy.responseMinutes * MINUTE),
+      resolutionDueAt: new Date(
+        from.getTime() + (policy.resolutionMinutes + pausedMinutes) * MINUTE,
+      ),
+    };
+  }
+
+  /**
+   * SLA fields to write alongside a status change: stamps the first response,
+   * pauses the resolution clock on WAITING_PARTS and pushes the due time out on resume.
+   */
+  statusChangeData(
+    ticket: SlaClockFields,
+    to: RepairTicketStatus,
+    now = new Date(),
+  ): Prisma.RepairTicketUpdateInput {
+    const data: Prisma.RepairTicketUpdateInput = {};
+
+    if (
+      !ticket.respondedAt &&
+      to !== RepairTicketStatus.PENDING &&
+      to !== RepairTicketStatus.CANCELLED
+    ) {
+      data.respondedAt = now;
+    }
+
+    if (to === RepairTicketStatus.WAITING_PARTS && !ticket.slaPausedAt) {
+      data.slaPausedAt = now;
+    }
+
+    if (to !== RepairTicketStatus.WAITING_PARTS && ticket.slaPausedAt) {
+      const pausedMinutes = Math.ceil((now.getTime() - ticket.slaPausedAt.getTime()) / MINUTE);
+      data.slaPausedAt = null;
+      data.slaPausedMinutes = ticket.slaPausedMinutes + pausedMinutes;
+      if (ticket.resolutionDueAt) {
+        data.resolutionDueAt = new Date(ticket.resolutionDueAt.getTime() + pausedMinutes * MINUTE);
+      }
+    }
+
+    return data;
+  }
+
+  /**
+   * Resolution due time as of `now`, counting a pause that is still running
+   */
+  effectiveResolutionDueAt(ticket: SlaClockFields, now = new Date()): Date | null {
+    if (!ticket.resolutionDueAt) return null;
+    if (!ticket.slaPausedAt) return ticket.resolutionDueAt;
+    return new Date(
+      ticket.resolutionDueAt.getTime() + (now.getTime() - ticket.slaPausedAt.getTime()),
+    );
+  }
+
+  /* =======================
+     BREACH DETECTION
+  ======================= */
+
+  /**
+   * Open tickets that have breached, or will breach within `withinMinutes`
+   */
+  async findAtRisk(withinMinutes = 4 * HOUR, now = new Date()) {
+    const horizon = new Date(now.getTime() + withinMinutes * MINUTE);
+
+    const candidates = await this.prisma.repairTicket.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        OR: [
+          { resolutionDueAt: { lte: horizon } },
+          { respondedAt: null, responseDueAt: { lte: horizon } },
+        ],
+      },
+      select: {
+        id: true,
+        ticketCode: true,
+        problemTitle: true,
+        problemCategory: true,
+        location: true,
+        reporterDepartment: true,
+        departmentId: true,
+        status: true,
+        urgency: true,
+        createdAt: true,
+        responseDueAt: true,
+        resolutionDueAt: true,
+        respondedAt: true,
+        slaPausedAt: true,
+        slaPausedMinutes: true,
+        assignees: { include: { user: { select: { id: true, name: true } } } },
+      },
+    });
+
+    return candidates
+      .map((ticket) => {
+        const resolutionDueAt = this.effectiveResolutionDueAt(ticket, now);
+        const responsePending = !ticket.respondedAt && !!ticket.responseDueAt;
+
+        const breachedTargets: ('RESPONSE' | 'RESOLUTION')[] = [];
+        if (responsePending && ticket.responseDueAt! <= now) breachedTargets.push('RESPONSE');
+        if (resolutionDueAt && resolutionDueAt <= now) breachedTargets.push('RESOLUTION');
+
+        // The nearest deadline still in play decides how urgent this is
+        const deadlines = [
+          ...(responsePending ? [ticket.responseDueAt!] : []),
+          ...(resolutionDueAt ? [resolutionDueAt] : []),
+        ];
+        const nextDueAt = new Date(Math.min(...deadlines.map((d) => d.getTime())));
+        const minutesRemaining = Math.round((nextDueAt.getTime() - now.getTime()) / MINUTE);
+
+        const slaState: SlaState =
+          breachedTargets.length > 0
+            ? 'BREACHED'
+            : minutesRemaining <= withinMinutes
+              ? 'AT_RISK'
+              : 'ON_TRACK';
+
+        return {
+          ...ticket,
+          resolutionDueAt,
+          slaState,
+          breachedTargets,
+          minutesRemaining,
+        };
+      })
+      .filter((ticket) => ticket.slaState !== 'ON_TRACK')
+      .sort((a, b) => a.minutesRemaining - b.minutesRemaining);
+  }
+
+  /**
+   * Recompute due dates for open tickets, e.g. after policies change
+   */
+  async recalculateOpenTickets() {
+    const tickets = await this.prisma.repairTicket.findMany({
+      where: { status: { in: OPEN_STATUSES } },
+      select: {
+        id: true,
+        urgency: true,
+        problemCategory: true,
+        createdAt: true,
+        scheduledAt: true,
+        maintenanceOccurrenceId: true,
+        slaPausedMinutes: true,
+      },
+    });
+
+    for (const ticket of tickets) {
+      const due = await this.computeDueDates(
+        ticket.urgency,
+        ticket.problemCategory,
+        slaStartOf(ticket),
+        ticket.slaPausedMinutes,
+      );
+      await this.prisma.repairTicket.update({ where: { id: ticket.id }, data: due });
+    }
+
+    return { updated: tickets.length };
+  }
+}
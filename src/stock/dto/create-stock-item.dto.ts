@@ -0,0 +1,38 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsString, Min } from 'class-validator';
+
+export class CreateStockItemDto {
+  @IsString()
+  code: string;
+
+  @IsString()
+  name: string;
+
+  // Opening quantity, recorded as the item's first IN movement
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  quantity?: number;
+
+  @IsOptional()
+  @IsString()
+  category?: string;
+
+  @IsOptional()
+  @IsString()
+  location?: string;
+
+  // Alert admins when quantity drops below this; null turns the alert off
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  reorderPoint?: number | null;
+
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  reorderQuantity?: number | null;
+}
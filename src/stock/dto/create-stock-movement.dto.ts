@@ -0,0 +1,29 @@
+import { IsEnum, IsInt, IsOptional, IsString, NotEquals, ValidateIf } from 'class-validator';
+import { StockMovementType } from '@prisma/client';
+
+export class CreateStockMovementDto {
+  @IsEnum(StockMovementType)
+  type: StockMovementType;
+
+  // A positive amount for IN, OUT and TRANSFER; a signed correction for ADJUST
+  @IsInt()
+  @NotEquals(0)
+  quantity: number;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+
+  // Destination item of a TRANSFER
+  @ValidateIf((o) => o.type === StockMovementType.TRANSFER)
+  @IsInt()
+  toItemId?: number;
+
+  @IsOptional()
+  @IsInt()
+  repairTicketId?: number;
+
+  @IsOptional()
+  @IsInt()
+  loanId?: number;
+}
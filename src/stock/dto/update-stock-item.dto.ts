@@ -0,0 +1,10 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { IsOptional, IsString } from 'class-validator';
+import { CreateStockItemDto } from './create-stock-item.dto';
+
+export class UpdateStockItemDto extends PartialType(CreateStockItemDto) {
+  // A changed quantity is recorded as an ADJUST movement with this reason
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
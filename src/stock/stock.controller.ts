@@ -1,8 +1,15 @@
-import { Controller, Get, Post, Body, Param, Delete, Put, ParseIntPipe } from '@nestjs/common';
+import { Controller, Get, Post, Body, Param, Delete, Put, ParseIntPipe, Req, Res, UseGuards, HttpStatus } from '@nestjs/common';
+import type { Response } from 'express';
 import { StockService } from './stock.service';
-import { StockItem } from '@prisma/client';
+import { CreateStockItemDto } from './dto/create-stock-item.dto';
+import { UpdateStockItemDto } from './dto/update-stock-item.dto';
+import { CreateStockMovementDto } from './dto/create-stock-movement.dto';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
 
 @Controller('api/stock')
+@UseGuards(JwtAuthGuard, RolesGuard)
 export class StockController {
   constructor(private readonly stockService: StockService) {}
 
@@ -11,25 +18,62 @@ export class StockController {
     return this.stockService.findAll();
   }
 
+  /**
+   * Items below their reorder point, with the suggested order quantity
+   */
+  @Get('low')
+  @Roles('ADMIN', 'IT')
+  async findLow() {
+    return this.stockService.findLow();
+  }
+
+  @Get('low/purchase-request')
+  @Roles('ADMIN')
+  async exportPurchaseRequest(@Res() res: Response) {
+    const result = await this.stockService.exportPurchaseRequest();
+
+    res.setHeader('Content-Type', result.mimeType);
+    res.setHeader('Content-Disposition', `attachment; filename="${result.fileName}"`);
+    res.setHeader('Content-Length', result.buffer.length);
+
+    return res.status(HttpStatus.OK).send(result.buffer);
+  }
+
   @Get(':id')
   async findOne(@Param('id', ParseIntPipe) id: number) {
     return this.stockService.findOne(id);
   }
 
   @Post()
-  async create(@Body() data: any) {
-    // Basic validation could be improved with DTOs
-    return this.stockService.create({
-      code: data.code,
-      name: data.name,
-      quantity: Number(data.quantity),
-      category: data.category,
-      location: data.location,
-    });
+  @Roles('ADMIN', 'IT')
+  async create(@Body() dto: CreateStockItemDto, @Req() req: any) {
+    return this.stockService.create(dto, req.user?.id);
+  }
+
+  @Put(':id')
+  @Roles('ADMIN', 'IT')
+  async update(@Param('id', ParseIntPipe) id: number, @Body() dto: UpdateStockItemDto, @Req() req: any) {
+    return this.stockService.update(id, dto, req.user?.id);
   }
 
   @Delete(':id')
+  @Roles('ADMIN')
   async remove(@Param('id', ParseIntPipe) id: number) {
     return this.stockService.remove(id);
   }
+
+  @Get(':id/movements')
+  async findMovements(@Param('id', ParseIntPipe) id: number) {
+    return this.stockService.findMovements(id);
+  }
+
+  @Post(':id/movements')
+  @Roles('ADMIN', 'IT')
+  async recordMovement(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreateStockMovementDto,
+    @Req() req: any,
+  ) {
+    return this.stockService.recordMovement(id, dto, req.user.id);
+  }
 }
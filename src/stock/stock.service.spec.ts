@@ -0,0 +1,151 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { StockMovementType } from '@prisma/client';
+import { StockService } from './stock.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+
+describe('StockService', () => {
+  let service: StockService;
+  let prisma: any;
+  let quantities: Map<number, number>;
+  let dispatcher: { dispatch: jest.Mock };
+
+  beforeEach(async () => {
+    quantities = new Map([
+      [1, 5],
+      [2, 0],
+    ]);
+    const item = (id: number) => (quantities.has(id) ? { id, code: `ITEM-${id}`, quantity: quantities.get(id) } : null);
+
+    prisma = {
+      stockItem: {
+        findUnique: jest.fn(async ({ where }: any) => item(where.id)),
+        findUniqueOrThrow: jest.fn(async ({ where }: any) => item(where.id)),
+        findMany: jest.fn().mockResolvedValue([]),
+        update: jest.fn(),
+        delete: jest.fn(),
+        // Mirrors the conditional decrement in SQL
+        updateMany: jest.fn(async ({ where, data }: any) => {
+          if (data.lowStockAlertedAt) return { count: 1 };
+          const current = quantities.get(where.id);
+          if (current === undefined || current < (where.quantity?.gte ?? 0)) return { count: 0 };
+          quantities.set(where.id, current + data.quantity.increment);
+          return { count: 1 };
+        }),
+      },
+      stockMovement: {
+        create: jest.fn(async ({ data }: any) => data),
+      },
+    };
+    prisma.$transaction = jest.fn((fn: any) => fn(prisma));
+    dispatcher = { dispatch: jest.fn().mockResolvedValue({}) };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        StockService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: NotificationDispatcherService, useValue: dispatcher },
+      ],
+    }).compile();
+
+    service = module.get(StockService);
+  });
+
+  it('should record an OUT as a negative entry with the new balance', async () => {
+    const movement = await service.recordMovement(1, { type: StockMovementType.OUT, quantity: 2, repairTicketId: 9 }, 4);
+
+    expect(movement).toEqual(
+      expect.objectContaining({ type: 'OUT', quantity: -2, balanceAfter: 3, repairTicketId: 9, userId: 4 }),
+    );
+  });
+
+  it('should reject a movement that would take stock below zero', async () => {
+    await expect(
+      service.recordMovement(1, { type: StockMovementType.OUT, quantity: 6 }, 4),
+    ).rejects.toThrow(BadRequestException);
+
+    expect(quantities.get(1)).toBe(5);
+    expect(prisma.stockMovement.create).not.toHaveBeenCalled();
+  });
+
+  it('should write a TRANSFER as one entry on each item', async () => {
+    await service.recordMovement(1, { type: StockMovementType.TRANSFER, quantity: 3, toItemId: 2 }, 4);
+
+    expect(quantities).toEqual(
+      new Map([
+        [1, 2],
+        [2, 3],
+      ]),
+    );
+    const entries = prisma.stockMovement.create.mock.calls.map(([{ data }]: any) => [
+      data.stockItemId,
+      data.quantity,
+      data.relatedItemId,
+    ]);
+    expect(entries).toEqual([
+      [1, -3, 2],
+      [2, 3, 1],
+    ]);
+  });
+
+  it('should record an edited quantity as an ADJUST', async () => {
+    await service.update(1, { name: 'Toner', quantity: 8, reason: 'Stock count' }, 4);
+
+    expect(prisma.stockItem.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { name: 'Toner' } });
+    expect(prisma.stockMovement.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'ADJUST', quantity: 3, balanceAfter: 8, reason: 'Stock count' }),
+    });
+  });
+
+  it('should refuse to delete an item that has a movement history', async () => {
+    prisma.stockItem.delete.mockRejectedValue({ code: 'P2003' });
+
+    await expect(service.remove(1)).rejects.toThrow(ConflictException);
+  });
+
+  describe('reorder levels', () => {
+    const toner = { id: 1, code: 'TONER-85A', quantity: 2, reorderPoint: 3, reorderQuantity: 10, lowStockAlertedAt: null };
+
+    it('should alert admins once when an item drops below its reorder point', async () => {
+      prisma.stockItem.findMany.mockResolvedValue([toner]);
+
+      await service.checkReorderLevels([1]);
+
+      expect(prisma.stockItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, lowStockAlertedAt: null },
+        data: { lowStockAlertedAt: expect.any(Date) },
+      });
+      expect(dispatcher.dispatch).toHaveBeenCalledWith({ type: 'STOCK_LOW', stockItemId: 1 });
+
+      dispatcher.dispatch.mockClear();
+      prisma.stockItem.findMany.mockResolvedValue([{ ...toner, lowStockAlertedAt: new Date() }]);
+      await service.checkReorderLevels([1]);
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should re-arm the alert once the item is restocked', async () => {
+      prisma.stockItem.findMany.mockResolvedValue([{ ...toner, quantity: 12, lowStockAlertedAt: new Date() }]);
+
+      await service.checkReorderLevels([1]);
+
+      expect(prisma.stockItem.update).toHaveBeenCalledWith({ where: { id: 1 }, data: { lowStockAlertedAt: null } });
+      expect(dispatcher.dispatch).not.toHaveBeenCalled();
+    });
+
+    it('should list low items with the amount to order', async () => {
+      prisma.stockItem.findMany.mockResolvedValue([
+        toner,
+        { id: 2, code: 'CABLE-HDMI', quantity: 1, reorderPoint: 5, reorderQuantity: null },
+        { id: 3, code: 'MOUSE', quantity: 9, reorderPoint: 5, reorderQuantity: 5 },
+      ]);
+
+      const low = await service.findLow();
+
+      expect(low.map((i) => [i.code, i.shortfall, i.orderQuantity])).toEqual([
+        ['TONER-85A', 1, 10],
+        ['CABLE-HDMI', 4, 4],
+      ]);
+    });
+  });
+});
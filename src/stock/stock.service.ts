@@ -1,32 +1,380 @@
-import { Injectable } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { Prisma } from '@prisma/client';
+import { LoanStatus, Prisma, StockItem, StockMovement, StockMovementType } from '@prisma/client';
+import * as ExcelJS from 'exceljs';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import { CreateStockItemDto } from './dto/create-stock-item.dto';
+import { UpdateStockItemDto } from './dto/update-stock-item.dto';
+import { CreateStockMovementDto } from './dto/create-stock-movement.dto';
+
+export interface StockMovementInput {
+  stockItemId: number;
+  type: StockMovementType;
+  // Signed change to the quantity
+  quantity: number;
+  userId?: number | null;
+  reason?: string | null;
+  relatedItemId?: number | null;
+  repairTicketId?: number | null;
+  loanId?: number | null;
+}
 
 @Injectable()
 export class StockService {
-  constructor(private prisma: PrismaService) {}
+  private readonly logger = new Logger(StockService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private dispatcherService: NotificationDispatcherService,
+  ) {}
 
   async findAll() {
-    return this.prisma.stockItem.findMany({
+    const items = await this.prisma.stockItem.findMany({
       orderBy: { updatedAt: 'desc' },
     });
+    return this.withLentOut(items);
   }
 
   async findOne(id: number) {
-    return this.prisma.stockItem.findUnique({
+    const item = await this.prisma.stockItem.findUnique({
       where: { id },
     });
+    return item && (await this.withLentOut([item]))[0];
   }
 
-  async create(data: Prisma.StockItemCreateInput) {
-    return this.prisma.stockItem.create({
-      data,
+  /**
+   * `quantity` is what is on the shelf; `lentOut` is what borrowers still hold
+   */
+  private async withLentOut(items: StockItem[]) {
+    if (items.length === 0) return [];
+
+    const loans = await this.prisma.loan.groupBy({
+      by: ['stockItemId'],
+      where: {
+        stockItemId: { in: items.map((i) => i.id) },
+        status: { in: [LoanStatus.BORROWED, LoanStatus.OVERDUE] },
+      },
+      _sum: { quantity: true },
     });
+    const lentOut = new Map(loans.map((l) => [l.stockItemId, l._sum.quantity ?? 0]));
+
+    return items.map((item) => ({ ...item, lentOut: lentOut.get(item.id) ?? 0 }));
+  }
+
+  async create(dto: CreateStockItemDto, userId?: number) {
+    let item: StockItem;
+    try {
+      item = await this.prisma.$transaction(async (tx) => {
+        const created = await tx.stockItem.create({
+          data: {
+            code: dto.code,
+            name: dto.name,
+            category: dto.category,
+            location: dto.location,
+            reorderPoint: dto.reorderPoint,
+            reorderQuantity: dto.reorderQuantity,
+          },
+        });
+        if (!dto.quantity) return created;
+
+        await this.applyMovement(tx, {
+          stockItemId: created.id,
+          type: StockMovementType.IN,
+          quantity: dto.quantity,
+          userId,
+          reason: 'Opening stock',
+        });
+        return tx.stockItem.findUniqueOrThrow({ where: { id: created.id } });
+      });
+    } catch (error: any) {
+      throw this.mapUniqueError(error, dto.code);
+    }
+
+    await this.checkReorderLevels([item.id]);
+    return item;
+  }
+
+  /**
+   * Details are updated in place; a different quantity goes through the ledger as an ADJUST
+   */
+  async update(id: number, dto: UpdateStockItemDto, userId?: number) {
+    let item: StockItem;
+    try {
+      item = await this.prisma.$transaction(async (tx) => {
+        const existing = await tx.stockItem.findUnique({ where: { id } });
+        if (!existing) throw new NotFoundException(`Stock item #${id} not found`);
+
+        await tx.stockItem.update({
+          where: { id },
+          data: {
+            ...(dto.code !== undefined && { code: dto.code }),
+            ...(dto.name !== undefined && { name: dto.name }),
+            ...(dto.category !== undefined && { category: dto.category }),
+            ...(dto.location !== undefined && { location: dto.location }),
+            ...(dto.reorderPoint !== undefined && { reorderPoint: dto.reorderPoint }),
+            ...(dto.reorderQuantity !== undefined && { reorderQuantity: dto.reorderQuantity }),
+          },
+        });
+
+        if (dto.quantity !== undefined && dto.quantity !== existing.quantity) {
+          await this.applyMovement(tx, {
+            stockItemId: id,
+            type: StockMovementType.ADJUST,
+            quantity: dto.quantity - existing.quantity,
+            userId,
+            reason: dto.reason || 'Quantity edited',
+          });
+        }
+        return tx.stockItem.findUniqueOrThrow({ where: { id } });
+      });
+    } catch (error: any) {
+      throw this.mapUniqueError(error, dto.code);
+    }
+
+    await this.checkReorderLevels([id]);
+    return item;
   }
 
   async remove(id: number) {
-    return this.prisma.stockItem.delete({
-      where: { id },
+    try {
+      return await this.prisma.stockItem.delete({
+        where: { id },
+      });
+    } catch (error: any) {
+      // The movement ledger and part usage are audit records, so they keep the item alive
+      if (error.code === 'P2003') {
+        throw new ConflictException('Stock item has stock movements or repair ticket parts and cannot be deleted');
+      }
+      throw error;
+    }
+  }
+
+  /* =======================
+     MOVEMENTS
+  ======================= */
+
+  async findMovements(stockItemId: number) {
+    const item = await this.findOne(stockItemId);
+    if (!item) throw new NotFoundException(`Stock item #${stockItemId} not found`);
+
+    return this.prisma.stockMovement.findMany({
+      where: { stockItemId },
+      include: {
+        user: { select: { id: true, name: true } },
+        relatedItem: { select: { id: true, code: true, name: true } },
+        repairTicket: { select: { id: true, ticketCode: true } },
+        loan: { select: { id: true, itemName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
     });
   }
+
+  /**
+   * IN and OUT take a positive amount, ADJUST a signed correction. A TRANSFER moves
+   * the amount to `toItemId` and is written as one entry on each item.
+   */
+  async recordMovement(stockItemId: number, dto: CreateStockMovementDto, userId: number) {
+    const links = {
+      userId,
+      reason: dto.reason,
+      repairTicketId: dto.repairTicketId,
+      loanId: dto.loanId,
+    };
+
+    let movement: StockMovement;
+    try {
+      movement = await this.prisma.$transaction(async (tx) => {
+        switch (dto.type) {
+          case StockMovementType.IN:
+          case StockMovementType.OUT:
+            if (dto.quantity < 0) throw new BadRequestException(`${dto.type} quantity must be positive`);
+            return this.applyMovement(tx, {
+              ...links,
+              stockItemId,
+              type: dto.type,
+              quantity: dto.type === StockMovementType.IN ? dto.quantity : -dto.quantity,
+            });
+
+          case StockMovementType.ADJUST:
+            return this.applyMovement(tx, { ...links, stockItemId, type: dto.type, quantity: dto.quantity });
+
+          case StockMovementType.TRANSFER: {
+            if (dto.quantity < 0) throw new BadRequestException('TRANSFER quantity must be positive');
+            if (!dto.toItemId) throw new BadRequestException('toItemId is required for a TRANSFER');
+            if (dto.toItemId === stockItemId) throw new BadRequestException('Cannot transfer to the same item');
+
+            const out = await this.applyMovement(tx, {
+              ...links,
+              stockItemId,
+              type: dto.type,
+              quantity: -dto.quantity,
+              relatedItemId: dto.toItemId,
+            });
+            await this.applyMovement(tx, {
+              ...links,
+              stockItemId: dto.toItemId,
+              type: dto.type,
+              quantity: dto.quantity,
+              relatedItemId: stockItemId,
+            });
+            return out;
+          }
+
+          default:
+            throw new BadRequestException(`Invalid movement type: ${dto.type}`);
+        }
+      });
+    } catch (error: any) {
+      // Foreign key violation: the linked repair ticket or loan does not exist
+      if (error.code === 'P2003') {
+        throw new BadRequestException('Linked repair ticket or loan not found');
+      }
+      throw error;
+    }
+
+    await this.checkReorderLevels([stockItemId, ...(dto.toItemId ? [dto.toItemId] : [])]);
+    return movement;
+  }
+
+  /**
+   * Changes the quantity and writes the matching ledger entry. Call inside a transaction;
+   * the conditional decrement keeps concurrent movements from taking stock below zero.
+   */
+  async applyMovement(tx: Prisma.TransactionClient, input: StockMovementInput) {
+    const { count } = await tx.stockItem.updateMany({
+      where: {
+        id: input.stockItemId,
+        ...(input.quantity < 0 && { quantity: { gte: -input.quantity } }),
+      },
+      data: { quantity: { increment: input.quantity } },
+    });
+
+    if (count === 0) {
+      const item = await tx.stockItem.findUnique({ where: { id: input.stockItemId } });
+      if (!item) throw new NotFoundException(`Stock item #${input.stockItemId} not found`);
+      throw new BadRequestException(
+        `Insufficient stock for ${item.code}: ${item.quantity} available, ${-input.quantity} requested`,
+      );
+    }
+
+    const { quantity: balanceAfter } = await tx.stockItem.findUniqueOrThrow({
+      where: { id: input.stockItemId },
+      select: { quantity: true },
+    });
+
+    return tx.stockMovement.create({
+      data: {
+        stockItemId: input.stockItemId,
+        type: input.type,
+        quantity: input.quantity,
+        balanceAfter,
+        reason: input.reason || null,
+        relatedItemId: input.relatedItemId ?? null,
+        repairTicketId: input.repairTicketId ?? null,
+        loanId: input.loanId ?? null,
+        userId: input.userId ?? null,
+      },
+    });
+  }
+
+  /* =======================
+     REORDER
+  ======================= */
+
+  /**
+   * Alerts admins (in-app and LINE) about items that just dropped below their reorder
+   * point. Call after the transaction that moved the stock has committed. An item is
+   * alerted once, then again only after it has been restocked to its reorder point.
+   */
+  async checkReorderLevels(stockItemIds: number[]) {
+    const items = await this.prisma.stockItem.findMany({
+      where: { id: { in: stockItemIds }, reorderPoint: { not: null } },
+    });
+
+    for (const item of items) {
+      const low = item.quantity < item.reorderPoint!;
+
+      if (low && !item.lowStockAlertedAt) {
+        // Conditional so two concurrent movements do not both send the alert
+        const { count } = await this.prisma.stockItem.updateMany({
+          where: { id: item.id, lowStockAlertedAt: null },
+          data: { lowStockAlertedAt: new Date() },
+        });
+        if (count === 0) continue;
+
+        this.dispatcherService
+          .dispatch({ type: 'STOCK_LOW', stockItemId: item.id })
+          .catch((error) => this.logger.warn(`Low stock alert for ${item.code} failed: ${error.message}`));
+      } else if (!low && item.lowStockAlertedAt) {
+        await this.prisma.stockItem.update({ where: { id: item.id }, data: { lowStockAlertedAt: null } });
+      }
+    }
+  }
+
+  /**
+   * Items below their reorder point, with the amount to order: the item's reorder
+   * quantity, or enough to get back to the reorder point when none is set
+   */
+  async findLow() {
+    const items = await this.prisma.stockItem.findMany({
+      where: { reorderPoint: { not: null } },
+      orderBy: [{ category: 'asc' }, { code: 'asc' }],
+    });
+
+    return items
+      .filter((item) => item.quantity < item.reorderPoint!)
+      .map((item) => ({
+        ...item,
+        shortfall: item.reorderPoint! - item.quantity,
+        orderQuantity: item.reorderQuantity ?? item.reorderPoint! - item.quantity,
+      }));
+  }
+
+  async exportPurchaseRequest(): Promise<{ buffer: Buffer; fileName: string; mimeType: string }> {
+    const items = await this.findLow();
+    const date = new Date().toISOString().split('T')[0];
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'TRR System';
+    workbook.created = new Date();
+
+    const sheet = workbook.addWorksheet('ใบขอซื้อ');
+    sheet.columns = [
+      { header: 'ลำดับ', key: 'no', width: 8 },
+      { header: 'รหัส', key: 'code', width: 15 },
+      { header: 'ชื่อ', key: 'name', width: 30 },
+      { header: 'หมวดหมู่', key: 'category', width: 20 },
+      { header: 'คงเหลือ', key: 'quantity', width: 10 },
+      { header: 'จุดสั่งซื้อ', key: 'reorderPoint', width: 12 },
+      { header: 'จำนวนที่ขอซื้อ', key: 'orderQuantity', width: 15 },
+    ];
+    const header = sheet.getRow(1);
+    header.font = { bold: true, color: { argb: 'FFFFFFFF' } };
+    header.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FF4F46E5' } };
+
+    items.forEach((item, index) => {
+      sheet.addRow({
+        no: index + 1,
+        code: item.code,
+        name: item.name,
+        category: item.category || '-',
+        quantity: item.quantity,
+        reorderPoint: item.reorderPoint,
+        orderQuantity: item.orderQuantity,
+      });
+    });
+
+    return {
+      buffer: Buffer.from(await workbook.xlsx.writeBuffer()),
+      fileName: `purchase-request-${date}.xlsx`,
+      mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    };
+  }
+
+  private mapUniqueError(error: any, code?: string) {
+    if (error.code === 'P2002') {
+      return new ConflictException(`Stock code "${code}" is already in use`);
+    }
+    return error;
+  }
 }
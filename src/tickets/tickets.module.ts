@@ -4,9 +4,10 @@ import { TicketsController } from './tickets.controller';
 import { PrismaModule } from '../prisma/prisma.module';
 import { AuthModule } from '../auth/auth.module';
 import { CloudinaryModule } from '../cloudinary/cloudinary.module';
+import { NotificationModule } from '../notification/notification.module';
 
 @Module({
-  imports: [PrismaModule, AuthModule, CloudinaryModule],
+  imports: [PrismaModule, AuthModule, CloudinaryModule, NotificationModule],
   controllers: [TicketsController],
   providers: [TicketsService],
   exports: [TicketsService],
@@ -1,17 +1,31 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateTicketDto } from './dto/create-ticket.dto';
 import { UpdateTicketDto } from './dto/update-ticket.dto';
 import { Priority } from '@prisma/client';
 import { CloudinaryService } from '../cloudinary/cloudinary.service';
+import { NotificationDispatcherService } from '../notification/notification-dispatcher.service';
+import { NotificationEvent } from '../notification/notification-events';
 
 @Injectable()
 export class TicketsService {
+  private readonly logger = new Logger(TicketsService.name);
+
   constructor(
     private prisma: PrismaService,
     private cloudinaryService: CloudinaryService,
+    private dispatcherService: NotificationDispatcherService,
   ) {}
 
+  /**
+   * Fire & forget: a failed notification must not fail the ticket change
+   */
+  private notify(event: NotificationEvent) {
+    this.dispatcherService
+      .dispatch(event)
+      .catch((error) => this.logger.warn(`${event.type} notify failed: ${error.message}`));
+  }
+
   private generateTicketCode(): string {
     const timestamp = Date.now().toString().slice(-6);
     const random = Math.floor(Math.random() * 10000)
@@ -111,6 +125,11 @@ export class TicketsService {
       }
     }
 
+    this.notify({ type: 'TICKET_CREATED', ticketId: ticket.id });
+    if (ticket.assignedTo) {
+      this.notify({ type: 'TICKET_ASSIGNED', ticketId: ticket.id, assigneeId: ticket.assignedTo });
+    }
+
     return ticket;
   }
 
@@ -248,7 +267,12 @@ export class TicketsService {
       }
     }
 
-    return this.prisma.ticket.update({
+    const before = await this.prisma.ticket.findUnique({
+      where: { id },
+      select: { status: true, assignedTo: true },
+    });
+
+    const updated = await this.prisma.ticket.update({
       where: { id },
       data: updateData,
       include: {
@@ -269,6 +293,15 @@ export class TicketsService {
         },
       },
     });
+
+    if (before && updated.status !== before.status) {
+      this.notify({ type: 'TICKET_STATUS_CHANGED', ticketId: id, status: updated.status });
+    }
+    if (before && updated.assignedTo && updated.assignedTo !== before.assignedTo) {
+      this.notify({ type: 'TICKET_ASSIGNED', ticketId: id, assigneeId: updated.assignedTo });
+    }
+
+    return updated;
   }
 
   async remove(id: number) {
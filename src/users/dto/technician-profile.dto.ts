@@ -0,0 +1,64 @@
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { ProblemCategory } from '@prisma/client';
+
+const HH_MM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class ShiftWindowDto {
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  dayOfWeek: number;
+
+  @Matches(HH_MM, { message: 'start must be HH:mm' })
+  start: string;
+
+  @Matches(HH_MM, { message: 'end must be HH:mm' })
+  end: string;
+}
+
+export class UpsertTechnicianProfileDto {
+  @IsOptional()
+  @IsArray()
+  @IsEnum(ProblemCategory, { each: true })
+  skills?: ProblemCategory[];
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxConcurrentJobs?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => ShiftWindowDto)
+  shifts?: ShiftWindowDto[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class CreateTechnicianLeaveDto {
+  @IsDateString()
+  startAt: string;
+
+  @IsDateString()
+  endAt: string;
+
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
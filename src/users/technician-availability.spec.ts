@@ -0,0 +1,65 @@
+import { isAvailableNow, isOnLeave, isOnShift } from './technician-availability';
+
+describe('technician-availability', () => {
+  // Monday 2026-03-02 10:00 in Bangkok
+  const mondayMorning = new Date('2026-03-02T03:00:00.000Z');
+  // Monday 2026-03-02 23:30 in Bangkok
+  const mondayNight = new Date('2026-03-02T16:30:00.000Z');
+
+  const profile = {
+    isActive: true,
+    maxConcurrentJobs: 3,
+    shifts: [{ dayOfWeek: 1, start: '08:30', end: '17:30' }],
+    outOfOffice: [],
+  };
+
+  describe('isOnShift', () => {
+    it('should treat an empty schedule as always on shift', () => {
+      expect(isOnShift([], mondayNight)).toBe(true);
+    });
+
+    it('should use Bangkok local time', () => {
+      expect(isOnShift(profile.shifts, mondayMorning)).toBe(true);
+      expect(isOnShift(profile.shifts, mondayNight)).toBe(false);
+    });
+
+    it('should handle overnight shifts', () => {
+      const night = [{ dayOfWeek: 1, start: '22:00', end: '06:00' }];
+      expect(isOnShift(night, mondayNight)).toBe(true);
+      // Tuesday 02:00 Bangkok
+      expect(isOnShift(night, new Date('2026-03-02T19:00:00.000Z'))).toBe(true);
+      expect(isOnShift(night, mondayMorning)).toBe(false);
+    });
+  });
+
+  describe('isOnLeave', () => {
+    it('should match ranges containing now', () => {
+      const leave = [{ startAt: new Date('2026-03-01'), endAt: new Date('2026-03-03') }];
+      expect(isOnLeave(leave, mondayMorning)).toBe(true);
+      expect(isOnLeave(leave, new Date('2026-03-04'))).toBe(false);
+    });
+  });
+
+  describe('isAvailableNow', () => {
+    it('should respect capacity, activity and leave', () => {
+      expect(isAvailableNow(profile, 2, mondayMorning)).toBe(true);
+      expect(isAvailableNow(profile, 3, mondayMorning)).toBe(false);
+      expect(isAvailableNow({ ...profile, isActive: false }, 0, mondayMorning)).toBe(false);
+      expect(
+        isAvailableNow(
+          {
+            ...profile,
+            outOfOffice: [{ startAt: new Date('2026-03-02'), endAt: new Date('2026-03-03') }],
+          },
+          0,
+          mondayMorning,
+        ),
+      ).toBe(false);
+    });
+
+    it('should only apply the default cap without a profile', () => {
+      expect(isAvailableNow(null, 4, mondayNight)).toBe(true);
+      expect(isAvailableNow(null, 5, mondayNight)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { Prisma } from '@prisma/client';
+
+// Shift times are entered in Thai local time (UTC+7, no DST)
+const LOCAL_OFFSET_MINUTES = 7 * 60;
+
+export const DEFAULT_MAX_CONCURRENT_JOBS = 5;
+
+export interface ShiftWindow {
+  dayOfWeek: number; // 0 = Sunday
+  start: string; // HH:mm
+  end: string; // HH:mm
+}
+
+export interface AvailabilityProfile {
+  isActive: boolean;
+  maxConcurrentJobs: number;
+  shifts: Prisma.JsonValue;
+  outOfOffice: { startAt: Date; endAt: Date }[];
+}
+
+function toMinutes(hhmm: string) {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+export function isOnShift(shifts: Prisma.JsonValue, now: Date): boolean {
+  const windows = (Array.isArray(shifts) ? shifts : []) as unknown as ShiftWindow[];
+  if (windows.length === 0) return true;
+
+  const local = new Date(now.getTime() + LOCAL_OFFSET_MINUTES * 60 * 1000);
+  const day = local.getUTCDay();
+  const minutes = local.getUTCHours() * 60 + local.getUTCMinutes();
+
+  return windows.some((w) => {
+    const start = toMinutes(w.start);
+    const end = toMinutes(w.end);
+    // Overnight shifts (e.g. 22:00-06:00) spill into the next day
+    if (end <= start) {
+      return (
+        (w.dayOfWeek === day && minutes >= start) ||
+        ((w.dayOfWeek + 1) % 7 === day && minutes < end)
+      );
+    }
+    return w.dayOfWeek === day && minutes >= start && minutes < end;
+  });
+}
+
+export function isOnLeave(outOfOffice: { startAt: Date; endAt: Date }[], now: Date): boolean {
+  return outOfOffice.some((l) => l.startAt <= now && now < l.endAt);
+}
+
+/**
+ * Whether a technician can take new work right now. No profile means no restrictions
+ * other than the default job cap.
+ */
+export function isAvailableNow(
+  profile: AvailabilityProfile | null | undefined,
+  openJobs: number,
+  now = new Date(),
+  defaultMaxJobs = DEFAULT_MAX_CONCURRENT_JOBS,
+): boolean {
+  if (!profile) return openJobs < defaultMaxJobs;
+
+  return (
+    profile.isActive &&
+    openJobs < profile.maxConcurrentJobs &&
+    !isOnLeave(profile.outOfOffice, now) &&
+    isOnShift(profile.shifts, now)
+  );
+}
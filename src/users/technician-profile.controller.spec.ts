@@ -0,0 +1,43 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { TechnicianProfileController } from './technician-profile.controller';
+import { TechnicianProfileService } from './technician-profile.service';
+
+describe('TechnicianProfileController', () => {
+  let controller: TechnicianProfileController;
+  let service: { addLeave: jest.Mock; removeLeave: jest.Mock };
+
+  const leave = { startAt: '2026-11-02T00:00:00.000Z', endAt: '2026-11-03T00:00:00.000Z' };
+
+  beforeEach(async () => {
+    service = { addLeave: jest.fn(), removeLeave: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [TechnicianProfileController],
+      providers: [{ provide: TechnicianProfileService, useValue: service }],
+    }).compile();
+
+    controller = module.get(TechnicianProfileController);
+  });
+
+  it('should let IT staff record their own leave', async () => {
+    await controller.addLeave(2, leave, { user: { id: 2, role: 'IT' } });
+
+    expect(service.addLeave).toHaveBeenCalledWith(2, leave);
+  });
+
+  it("should not let IT staff change another technician's leave", async () => {
+    const req = { user: { id: 2, role: 'IT' } };
+
+    await expect(controller.addLeave(3, leave, req)).rejects.toThrow(ForbiddenException);
+    await expect(controller.removeLeave(3, 9, req)).rejects.toThrow(ForbiddenException);
+    expect(service.addLeave).not.toHaveBeenCalled();
+    expect(service.removeLeave).not.toHaveBeenCalled();
+  });
+
+  it('should let ADMIN manage anyone', async () => {
+    await controller.removeLeave(3, 9, { user: { id: 1, role: 'ADMIN' } });
+
+    expect(service.removeLeave).toHaveBeenCalledWith(3, 9);
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Put,
+  Post,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+  UseGuards,
+  Req,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Role } from '@prisma/client';
+import { TechnicianProfileService } from './technician-profile.service';
+import {
+  CreateTechnicianLeaveDto,
+  UpsertTechnicianProfileDto,
+} from './dto/technician-profile.dto';
+import { JwtAuthGuard } from '../auth/jwt.guard';
+import { RolesGuard } from '../auth/roles.guard';
+import { Roles } from '../auth/roles.decorator';
+
+@Controller('api/users/:id/technician-profile')
+@UseGuards(JwtAuthGuard, RolesGuard)
+export class TechnicianProfileController {
+  constructor(private technicianProfileService: TechnicianProfileService) {}
+
+  @Get()
+  @Roles('ADMIN', 'IT')
+  async getProfile(@Param('id', ParseIntPipe) id: number) {
+    return this.technicianProfileService.getProfile(id);
+  }
+
+  @Put()
+  @Roles('ADMIN')
+  async upsertProfile(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() data: UpsertTechnicianProfileDto,
+  ) {
+    return this.technicianProfileService.upsertProfile(id, data);
+  }
+
+  @Delete()
+  @Roles('ADMIN')
+  async deleteProfile(@Param('id', ParseIntPipe) id: number) {
+    return this.technicianProfileService.deleteProfile(id);
+  }
+
+  @Post('leaves')
+  @Roles('ADMIN', 'IT')
+  async addLeave(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() data: CreateTechnicianLeaveDto,
+    @Req() req: any,
+  ) {
+    this.assertOwnLeave(req.user, id);
+    return this.technicianProfileService.addLeave(id, data);
+  }
+
+  @Delete('leaves/:leaveId')
+  @Roles('ADMIN', 'IT')
+  async removeLeave(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('leaveId', ParseIntPipe) leaveId: number,
+    @Req() req: any,
+  ) {
+    this.assertOwnLeave(req.user, id);
+    return this.technicianProfileService.removeLeave(id, leaveId);
+  }
+
+  /**
+   * Leave decides who auto-assign treats as available, so IT staff may only record their own
+   */
+  private assertOwnLeave(user: { id: number; role: string }, technicianId: number) {
+    if (user.role !== Role.ADMIN && user.id !== technicianId) {
+      throw new ForbiddenException('Only ADMIN can manage leave for another technician');
+    }
+  }
+}
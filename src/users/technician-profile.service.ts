@@ -0,0 +1,83 @@
+import { BadRequestException, Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  CreateTechnicianLeaveDto,
+  UpsertTechnicianProfileDto,
+} from './dto/technician-profile.dto';
+
+@Injectable()
+export class TechnicianProfileService {
+  constructor(private prisma: PrismaService) {}
+
+  async getProfile(userId: number) {
+    const profile = await this.prisma.technicianProfile.findUnique({
+      where: { userId },
+      include: { outOfOffice: { orderBy: { startAt: 'asc' } } },
+    });
+
+    if (!profile) {
+      throw new NotFoundException(`Technician profile for user ${userId} not found`);
+    }
+
+    return profile;
+  }
+
+  async upsertProfile(userId: number, data: UpsertTechnicianProfileDto) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true, role: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    if (user.role === 'USER') {
+      throw new BadRequestException('Technician profiles are only for IT or ADMIN users');
+    }
+
+    const updateData: any = {};
+    if (data.skills !== undefined) updateData.skills = [...new Set(data.skills)];
+    if (data.maxConcurrentJobs !== undefined) updateData.maxConcurrentJobs = data.maxConcurrentJobs;
+    if (data.shifts !== undefined) updateData.shifts = data.shifts;
+    if (data.isActive !== undefined) updateData.isActive = data.isActive;
+
+    return this.prisma.technicianProfile.upsert({
+      where: { userId },
+      create: { userId, ...updateData },
+      update: updateData,
+      include: { outOfOffice: { orderBy: { startAt: 'asc' } } },
+    });
+  }
+
+  async deleteProfile(userId: number) {
+    await this.getProfile(userId);
+    return this.prisma.technicianProfile.delete({ where: { userId } });
+  }
+
+  async addLeave(userId: number, data: CreateTechnicianLeaveDto) {
+    const profile = await this.getProfile(userId);
+    const startAt = new Date(data.startAt);
+    const endAt = new Date(data.endAt);
+
+    if (endAt <= startAt) {
+      throw new BadRequestException('endAt must be after startAt');
+    }
+
+    return this.prisma.technicianLeave.create({
+      data: { profileId: profile.id, startAt, endAt, reason: data.reason },
+    });
+  }
+
+  async removeLeave(userId: number, leaveId: number) {
+    const profile = await this.getProfile(userId);
+    const { count } = await this.prisma.technicianLeave.deleteMany({
+      where: { id: leaveId, profileId: profile.id },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException(`Leave #${leaveId} not found`);
+    }
+
+    return { message: 'Leave removed' };
+  }
+}
@@ -14,6 +14,7 @@ import { UsersService } from './users.service';
 import { JwtAuthGuard } from '../auth/jwt.guard';
 import { RolesGuard } from '../auth/roles.guard';
 import { Roles } from '../auth/roles.decorator';
+import { ProblemCategory } from '@prisma/client';
 
 @Controller('api/users')
 @UseGuards(JwtAuthGuard, RolesGuard)
@@ -39,8 +40,17 @@ export class UsersController {
 
   @Get('it-staff')
   @Roles('ADMIN', 'IT')
-  async getITStaff() {
-    return this.usersService.getITStaff();
+  async getITStaff(
+    @Query('category') category?: string,
+    @Query('available') available?: string,
+  ) {
+    if (category && !Object.values(ProblemCategory).includes(category as ProblemCategory)) {
+      throw new BadRequestException(`Invalid category: ${category}`);
+    }
+    return this.usersService.getITStaff({
+      category: category as ProblemCategory | undefined,
+      availableNow: available === 'true',
+    });
   }
 
   @Get('search')
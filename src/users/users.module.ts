@@ -1,12 +1,15 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../prisma/prisma.module';
+import { DepartmentsModule } from '../departments/departments.module';
 import { UsersController } from './users.controller';
 import { UsersService } from './users.service';
+import { TechnicianProfileController } from './technician-profile.controller';
+import { TechnicianProfileService } from './technician-profile.service';
 
 @Module({
-  imports: [PrismaModule],
-  controllers: [UsersController],
-  providers: [UsersService],
-  exports: [UsersService],
+  imports: [PrismaModule, DepartmentsModule],
+  controllers: [UsersController, TechnicianProfileController],
+  providers: [UsersService, TechnicianProfileService],
+  exports: [UsersService, TechnicianProfileService],
 })
 export class UsersModule {}
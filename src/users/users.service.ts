@@ -1,10 +1,16 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { ProblemCategory } from '@prisma/client';
 import * as bcrypt from 'bcrypt';
+import { isAvailableNow } from './technician-availability';
+import { DepartmentsService } from '../departments/departments.service';
 
 @Injectable()
 export class UsersService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private departmentsService: DepartmentsService,
+  ) {}
 
   async getAllUsers(page: number = 1, limit: number = 10, roles?: string) {
     const skip = (page - 1) * limit;
@@ -24,6 +30,7 @@ export class UsersService {
           email: true,
           role: true,
           department: true,
+          departmentId: true,
           phoneNumber: true,
           lineId: true,
           lineOALink: {
@@ -70,19 +77,27 @@ export class UsersService {
     };
   }
 
-  async getITStaff() {
-    return this.prisma.user.findMany({
-      where: {
-        role: {
-          in: ['IT', 'ADMIN']
-        }
-      },
+  async getITStaff(filters: { category?: ProblemCategory; availableNow?: boolean } = {}) {
+    const where: any = {
+      role: {
+        in: ['IT', 'ADMIN']
+      }
+    };
+    // Only people who declared the skill in their technician profile
+    if (filters.category) {
+      where.technicianProfile = { skills: { has: filters.category } };
+    }
+
+    const now = new Date();
+    const users = await this.prisma.user.findMany({
+      where,
       select: {
         id: true,
         name: true,
         email: true,
         role: true,
         department: true,
+        departmentId: true,
         phoneNumber: true,
         lineId: true,
         lineOALink: {
@@ -91,17 +106,35 @@ export class UsersService {
             displayName: true,
             pictureUrl: true
           }
-        }
+        },
+        technicianProfile: {
+          include: {
+            outOfOffice: { where: { endAt: { gt: now } }, orderBy: { startAt: 'asc' } },
+          },
+        },
+        _count: {
+          select: {
+            repairAssignments: {
+              where: { repairTicket: { status: { in: ['PENDING', 'IN_PROGRESS', 'WAITING_PARTS'] } } },
+            },
+          },
+        },
       },
       orderBy: {
         name: 'asc'
       }
-    }).then(users => users.map(user => ({
+    });
+
+    const staff = users.map(({ _count, ...user }) => ({
       ...user,
       lineUserId: user.lineOALink?.lineUserId || user.lineId,
       displayName: user.lineOALink?.displayName,
-      pictureUrl: user.lineOALink?.pictureUrl
-    })));
+      pictureUrl: user.lineOALink?.pictureUrl,
+      openJobs: _count.repairAssignments,
+      isAvailable: isAvailableNow(user.technicianProfile, _count.repairAssignments, now),
+    }));
+
+    return filters.availableNow ? staff.filter(u => u.isAvailable) : staff;
   }
 
   async getUserById(id: number) {
@@ -114,6 +147,7 @@ export class UsersService {
         password: true,
         role: true,
         department: true,
+        departmentId: true,
         phoneNumber: true,
         lineId: true,
         lineOALink: {
@@ -162,7 +196,14 @@ export class UsersService {
     if (data.name) updateData.name = data.name;
     if (data.email) updateData.email = data.email;
     if (data.role) updateData.role = data.role;
-    if (data.department) updateData.department = data.department;
+    if (data.department || data.departmentId) {
+      const department = await this.departmentsService.resolve({
+        departmentId: Number(data.departmentId) || undefined,
+        name: data.department,
+      });
+      updateData.department = department.name;
+      updateData.departmentId = department.departmentId;
+    }
     if (data.phoneNumber) updateData.phoneNumber = data.phoneNumber;
     if (data.lineId) updateData.lineId = data.lineId;
     if (data.password) {
@@ -178,6 +219,7 @@ export class UsersService {
         email: true,
         role: true,
         department: true,
+        departmentId: true,
         phoneNumber: true,
         lineId: true,
         lineOALink: {
@@ -242,6 +284,7 @@ export class UsersService {
         email: true,
         role: true,
         department: true,
+        departmentId: true,
         phoneNumber: true,
         lineId: true,
         lineOALink: {
@@ -265,6 +308,10 @@ export class UsersService {
 
   async createUser(data: any) {
     const hashedPassword = await bcrypt.hash(data.password, 10);
+    const department = await this.departmentsService.resolve({
+      departmentId: Number(data.departmentId) || undefined,
+      name: data.department,
+    });
 
     return this.prisma.user.create({
       data: {
@@ -272,7 +319,8 @@ export class UsersService {
         email: data.email,
         password: hashedPassword,
         role: data.role || 'USER',
-        department: data.department || '',
+        department: department.name || '',
+        departmentId: department.departmentId,
         phoneNumber: data.phoneNumber || '',
         lineId: data.lineId || '',
       },
@@ -282,6 +330,7 @@ export class UsersService {
         email: true,
         role: true,
         department: true,
+        departmentId: true,
         phoneNumber: true,
         lineId: true,
         createdAt: true,
@@ -311,6 +360,7 @@ export class UsersService {
         email: true,
         role: true,
         department: true,
+        departmentId: true,
         phoneNumber: true,
         lineId: true,
         createdAt: true,
@@ -382,6 +432,7 @@ export class UsersService {
         password: true,
         role: true,
         department: true,
+        departmentId: true,
         phoneNumber: true,
         lineId: true,
         createdAt: true,